@@ -1,79 +1,424 @@
-import React, { useState } from 'react';
-import { BrandDNA, GeneratedAsset, Inspiration } from './types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AdSession, BrandDNA, BrandWorkspace, GeneratedAsset, StudioSession, WorkspaceSettings, WorkspaceState } from './types';
+import { openBrandStore, BrandStore } from './services/storageService';
+import { createWorkspace, duplicateWorkspace, getActiveBrand, pickFallbackBrandId } from './services/workspaceService';
+import { addStudioDraft } from './services/provenanceService';
+import { addDNAVersion, getCurrentDNAVersion, setDNAVersionNote } from './services/brandDnaService';
+import { exportBrandKit, kitFileName } from './services/brandKitService';
+import { boardWeights } from './services/inspirationService';
+import { hashNewImages, isCurrentHash } from './services/imageHash';
+import { downloadBlob } from './services/download';
+import { listPendingVideoOperations, removePendingVideoOperation, resumeVideoOperation } from './services/videoOperations';
+import { Job, JobKind, runJob } from './services/jobQueue';
+import { GenerationAction } from './services/providers';
+import { buildBrandContext } from './services/generationContext';
 import Sidebar from './components/Sidebar';
 import BrandManager from './components/BrandManager';
 import Inspirations from './components/Inspirations';
 import Studio from './components/Studio';
 import Gallery from './components/Gallery';
 import Ads from './components/Ads';
+import JobQueuePanel from './components/JobQueuePanel';
+import UsageDashboard from './components/UsageDashboard';
+import ModelSettings from './components/ModelSettings';
+import PromptLibrary from './components/PromptLibrary';
+import BrandKitImport from './components/BrandKitImport';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+const SAVE_DEBOUNCE_MS = 500;
+
+// Where a resumed render's video goes, by the action that started it. Previews
+// and visualizations save the draft or asset id as meta.targetId.
+const RESUMABLE_VIDEOS: Partial<Record<GenerationAction, { kind: JobKind; apply: (brand: BrandWorkspace, videoUrl: string, targetId?: string) => BrandWorkspace }>> = {
+  'ad-video': {
+    kind: 'ad-video',
+    apply: (b, videoUrl) => ({ ...b, ads: { ...b.ads, videoUrl } })
+  },
+  'preview-video': {
+    kind: 'preview',
+    apply: (b, videoUrl, draftId) => ({ ...b, studio: { ...b.studio, drafts: b.studio.drafts.map(d => d.id === draftId ? { ...d, previewVideoUrl: videoUrl } : d) } })
+  },
+  'visualization-video': {
+    kind: 'visualization',
+    apply: (b, videoUrl, assetId) => ({ ...b, assets: b.assets.map(a => a.id === assetId ? { ...a, videoUrl } : a) })
+  }
+};
+
+const createInitialState = (): WorkspaceState => {
+  const brand = createWorkspace();
+  return { brands: [brand], activeBrandId: brand.id };
+};
 
 const App: React.FC = () => {
   // Global State
-  const [dna, setDna] = useState<BrandDNA | null>(null);
-  const [inspirations, setInspirations] = useState<Inspiration[]>([]);
-  const [assets, setAssets] = useState<GeneratedAsset[]>([]);
-  
+  const [workspace, setWorkspace] = useState<WorkspaceState>(createInitialState);
+  const activeBrand = getActiveBrand(workspace);
+  const dna = activeBrand?.dna || null;
+  const brandContext = activeBrand ? buildBrandContext(activeBrand) : null;
+
   // UI State
   const [activeTab, setActiveTab] = useState('identity');
+  const [kitFile, setKitFile] = useState<File | null>(null);
+
+  // Persistence
+  const storeRef = useRef<BrandStore | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const resumedVideosRef = useRef(false);
+
+  // Hydrate from IndexedDB on startup. Saving only starts once the stored
+  // brands have loaded, so a failed load can never overwrite them.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let store: BrandStore | null = null;
+      try {
+        store = await openBrandStore();
+        const saved = await store.load();
+        if (cancelled) {
+          store.close();
+          return;
+        }
+        storeRef.current = store;
+        if (saved && saved.brands.length > 0) {
+          setWorkspace(saved);
+          if (getActiveBrand(saved)?.dna) setActiveTab('studio');
+        }
+        setIsHydrated(true);
+      } catch (e) {
+        console.error("💾 [STORAGE] Could not restore saved brands", e);
+        store?.close();
+        if (!cancelled) setLoadError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+      storeRef.current?.close();
+      storeRef.current = null;
+    };
+  }, []);
+
+  // Save (debounced) whenever any brand changes
+  useEffect(() => {
+    if (!isHydrated || !storeRef.current) return;
+    const store = storeRef.current;
+    const timer = setTimeout(() => {
+      store.save(workspace).catch(e => console.error("💾 [STORAGE] Save failed", e));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isHydrated, workspace]);
+
+  // Pick up video renders that were still in flight when the page was closed,
+  // once, right after hydration. Ones with nowhere to go are dropped.
+  useEffect(() => {
+    if (!isHydrated || resumedVideosRef.current) return;
+    resumedVideosRef.current = true;
+    const brandIds = new Set(workspace.brands.map(b => b.id));
+
+    listPendingVideoOperations().forEach(pending => {
+      const resumable = RESUMABLE_VIDEOS[pending.action];
+      const brandId = pending.meta?.brandId;
+      const targetId = pending.meta?.targetId;
+      if (!resumable || !brandId || !brandIds.has(brandId) || (pending.action !== 'ad-video' && !targetId)) {
+        console.warn(`🔁 [VIDEO OPS] Dropping ${pending.label}: nothing to resume it into`);
+        removePendingVideoOperation(pending.name);
+        return;
+      }
+      runJob({ kind: resumable.kind, label: pending.label, brandId, targetId }, ({ signal, setProgress }) =>
+        resumeVideoOperation(pending, { signal, onProgress: (progress) => setProgress(progress.message) })
+      )
+        .then(videoUrl => updateBrand(brandId, b => resumable.apply(b, videoUrl, targetId)))
+        .catch(e => console.error(`🔁 [VIDEO OPS] Could not resume ${pending.label}`, e));
+    });
+  }, [isHydrated, workspace.brands]);
+
+  // Perceptual hashes for duplicate detection, for images without a current one
+  useEffect(() => {
+    if (!isHydrated || !activeBrand) return;
+    const brandId = activeBrand.id;
+    const urls = [
+      ...activeBrand.inspirations.filter(i => !isCurrentHash(i.imageHash)).map(i => i.imageUrl),
+      ...activeBrand.assets.filter(a => !isCurrentHash(a.imageHash)).map(a => a.url)
+    ];
+    hashNewImages(urls)
+      .then(hashes => {
+        if (Object.keys(hashes).length === 0) return;
+        updateBrand(brandId, b => ({
+          ...b,
+          inspirations: b.inspirations.map(i => !isCurrentHash(i.imageHash) && hashes[i.imageUrl] ? { ...i, imageHash: hashes[i.imageUrl] } : i),
+          assets: b.assets.map(a => !isCurrentHash(a.imageHash) && hashes[a.url] ? { ...a, imageHash: hashes[a.url] } : a)
+        }));
+      })
+      .catch(e => console.warn('🔍 [HASH] Could not hash images', e));
+  }, [isHydrated, activeBrand?.inspirations, activeBrand?.assets]);
+
+  // Every update is addressed by brand id, so a generation that finishes after
+  // the user switched brands still lands in the brand that started it.
+  const updateBrand = (brandId: string, updater: (brand: BrandWorkspace) => BrandWorkspace) => {
+    setWorkspace(prev => ({
+      ...prev,
+      brands: prev.brands.map(b => b.id === brandId ? { ...updater(b), updatedAt: Date.now() } : b)
+    }));
+  };
+
+  // Brand Handlers
+  const handleSelectBrand = (brandId: string) => {
+    const brand = workspace.brands.find(b => b.id === brandId);
+    setWorkspace(prev => ({ ...prev, activeBrandId: brandId }));
+    setActiveTab(brand?.dna ? 'studio' : 'identity');
+  };
+
+  const handleCreateBrand = () => {
+    const brand = createWorkspace();
+    setWorkspace(prev => ({ brands: [...prev.brands, brand], activeBrandId: brand.id }));
+    setActiveTab('identity');
+  };
+
+  const handleDuplicateBrand = (brandId: string) => {
+    const source = workspace.brands.find(b => b.id === brandId);
+    if (!source) return;
+    const copy = duplicateWorkspace(source);
+    setWorkspace(prev => ({ brands: [...prev.brands, copy], activeBrandId: copy.id }));
+  };
+
+  const handleArchiveBrand = (brandId: string, archived: boolean) => {
+    setWorkspace(prev => ({
+      brands: prev.brands.map(b => b.id === brandId ? { ...b, archived, updatedAt: Date.now() } : b),
+      activeBrandId: archived && prev.activeBrandId === brandId
+        ? pickFallbackBrandId(prev.brands, brandId)
+        : prev.activeBrandId
+    }));
+  };
+
+  const handleDeleteBrand = (brandId: string) => {
+    setWorkspace(prev => {
+      const brands = prev.brands.filter(b => b.id !== brandId);
+      if (brands.length === 0) return createInitialState();
+      return {
+        brands,
+        activeBrandId: prev.activeBrandId === brandId ? pickFallbackBrandId(brands, brandId) : prev.activeBrandId
+      };
+    });
+  };
+
+  const handleExportBrand = async (brandId: string) => {
+    const brand = workspace.brands.find(b => b.id === brandId);
+    if (!brand) return;
+    try {
+      const { blob, manifest } = await exportBrandKit(brand);
+      downloadBlob(blob, kitFileName(brand));
+      if (manifest.warnings.length > 0) alert(`The kit was exported without some media:\n\n${manifest.warnings.join('\n')}`);
+    } catch (e) {
+      console.error('📦 [BRAND KIT] Export failed', e);
+      alert(`Could not export the brand kit: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const handleImportedBrand = (brand: BrandWorkspace) => {
+    setWorkspace(prev => ({ brands: [...prev.brands, brand], activeBrandId: brand.id }));
+    setActiveTab(brand.dna ? 'studio' : 'identity');
+  };
 
-  // Handlers
-  const handleSaveDNA = (newDna: BrandDNA) => {
-    setDna(newDna);
+  const handleMergedBrand = (brand: BrandWorkspace) => {
+    updateBrand(brand.id, () => brand);
+  };
+
+  // A mood board sets up the next Studio run or ad for the active brand
+  const handleStartStudioFromBoard = (boardId: string) => {
+    if (!activeBrand) return;
+    updateBrand(activeBrand.id, b => {
+      const board = b.moodBoards.find(m => m.id === boardId);
+      return board ? { ...b, studio: { ...b.studio, inspirationWeights: boardWeights(board, b.inspirations) } } : b;
+    });
+    setActiveTab('studio');
+  };
+
+  const handleStartAdsFromBoard = (boardId: string) => {
+    if (!activeBrand) return;
+    updateBrand(activeBrand.id, b => ({ ...b, ads: { ...b.ads, boardId } }));
+    setActiveTab('ads');
+  };
+
+  // Jump to where a job's result shows up
+  const handleOpenJob = (job: Job) => {
+    if (!workspace.brands.some(b => b.id === job.brandId && !b.archived)) return;
+    setWorkspace(prev => ({ ...prev, activeBrandId: job.brandId }));
+    setActiveTab(job.kind === 'ad-video' ? 'ads' : 'studio');
+  };
+
+  // Every DNA change is kept as a version
+  const updateDNA = (brandId: string, newDna: BrandDNA, note: string) => {
+    updateBrand(brandId, b => ({ ...b, dna: newDna, dnaVersions: addDNAVersion(b.dnaVersions, newDna, note) }));
+  };
+
+  const handleSaveDNA = (brandId: string, newDna: BrandDNA, note: string) => {
+    updateDNA(brandId, newDna, note);
     setActiveTab('studio'); // Move to studio after creating identity
   };
 
+  if (loadError) {
+    return (
+      <div className="flex h-screen bg-zinc-950 text-zinc-400 items-center justify-center p-8">
+        <div className="max-w-md space-y-3 text-center">
+          <AlertTriangle className="w-6 h-6 text-red-500 mx-auto" />
+          <p className="text-sm text-zinc-200 font-bold">Your saved brands could not be loaded</p>
+          <p className="text-sm">{loadError}</p>
+          <p className="text-xs text-zinc-500">Nothing has been changed or overwritten. Reload to try again.</p>
+          <button onClick={() => window.location.reload()} className="text-orange-500 hover:text-orange-400 text-sm font-bold">Reload</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isHydrated) {
+    return (
+      <div className="flex h-screen bg-zinc-950 text-zinc-400 items-center justify-center gap-3">
+        <Loader2 className="w-5 h-5 animate-spin text-orange-500" />
+        <span className="text-sm">Restoring your brands...</span>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-zinc-950 text-zinc-100 overflow-hidden font-sans">
-      <Sidebar 
-        activeTab={activeTab} 
-        onTabChange={setActiveTab} 
-        hasDNA={!!dna} 
+      <Sidebar
+        activeTab={activeTab}
+        onTabChange={setActiveTab}
+        hasDNA={!!dna}
+        brands={workspace.brands}
+        activeBrandId={workspace.activeBrandId}
+        onSelectBrand={handleSelectBrand}
+        onCreateBrand={handleCreateBrand}
+        onDuplicateBrand={handleDuplicateBrand}
+        onArchiveBrand={handleArchiveBrand}
+        onDeleteBrand={handleDeleteBrand}
+        onExportBrand={handleExportBrand}
+        onImportKit={setKitFile}
       />
 
+      {kitFile && (
+        <BrandKitImport
+          file={kitFile}
+          brands={workspace.brands}
+          onAddBrand={handleImportedBrand}
+          onReplaceBrand={handleMergedBrand}
+          onClose={() => setKitFile(null)}
+        />
+      )}
+
       <main className="flex-1 overflow-auto relative">
-        <div className="max-w-7xl mx-auto p-8">
-          
+        {/* Keyed by brand so no local component state survives a brand switch */}
+        <div className="max-w-7xl mx-auto p-8" key={activeBrand?.id || 'none'}>
+
+          {activeTab === 'usage' && <UsageDashboard brands={workspace.brands} />}
+
+          {!activeBrand && activeTab !== 'usage' && (
+            <div className="flex flex-col items-center justify-center h-96 text-zinc-500 gap-4">
+              <p>All brands are archived.</p>
+              <button onClick={handleCreateBrand} className="text-orange-500 hover:text-orange-400 text-sm font-bold">Create a new brand</button>
+            </div>
+          )}
+
           {/* View Router */}
-          {activeTab === 'identity' && (
-            <BrandManager 
-              dna={dna} 
-              onSave={handleSaveDNA} 
+          {activeBrand && activeTab === 'identity' && (
+            <BrandManager
+              context={brandContext!}
+              dna={dna}
+              versions={activeBrand.dnaVersions}
+              assets={activeBrand.assets}
+              onSave={(newDna, note) => handleSaveDNA(activeBrand.id, newDna, note)}
+              onUpdate={(newDna, note) => updateDNA(activeBrand.id, newDna, note)}
+              onUpdateVersionNote={(version, note) => updateBrand(activeBrand.id, b => ({ ...b, dnaVersions: setDNAVersionNote(b.dnaVersions, version, note) }))}
             />
           )}
 
-          {activeTab === 'inspirations' && (
-            <Inspirations 
-              inspirations={inspirations}
-              onAddInspiration={(insp) => setInspirations([...inspirations, insp])}
-              onRemoveInspiration={(id) => setInspirations(inspirations.filter(i => i.id !== id))}
+          {activeBrand && activeTab === 'inspirations' && (
+            <Inspirations
+              context={brandContext!}
+              inspirations={activeBrand.inspirations}
+              moodBoards={activeBrand.moodBoards}
+              onAddInspiration={(insp, boardId) => updateBrand(activeBrand.id, b => ({
+                ...b,
+                inspirations: [...b.inspirations, insp],
+                moodBoards: b.moodBoards.map(board => board.id === boardId ? { ...board, inspirationIds: [...board.inspirationIds, insp.id] } : board)
+              }))}
+              onUpdateInspiration={(id, updater) => updateBrand(activeBrand.id, b => ({ ...b, inspirations: b.inspirations.map(i => i.id === id ? updater(i) : i) }))}
+              onRemoveInspiration={(id) => updateBrand(activeBrand.id, b => ({
+                ...b,
+                inspirations: b.inspirations.filter(i => i.id !== id),
+                moodBoards: b.moodBoards.map(board => ({ ...board, inspirationIds: board.inspirationIds.filter(i => i !== id) }))
+              }))}
+              onUpdateBoards={(updater) => updateBrand(activeBrand.id, b => ({ ...b, moodBoards: updater(b.moodBoards) }))}
+              onStartStudio={handleStartStudioFromBoard}
+              onStartAds={handleStartAdsFromBoard}
             />
           )}
 
-          {activeTab === 'studio' && dna && (
+          {activeBrand && activeTab === 'studio' && dna && (
             <div className="space-y-12">
-               <Studio 
-                 dna={dna} 
-                 inspirations={inspirations}
-                 onAssetCreated={(asset) => setAssets([asset, ...assets])}
+               <Studio
+                 context={brandContext!}
+                 dna={dna}
+                 dnaVersion={getCurrentDNAVersion(activeBrand.dnaVersions)?.version}
+                 inspirations={activeBrand.inspirations}
+                 session={activeBrand.studio}
+                 onUpdateSession={(updater: (session: StudioSession) => StudioSession) => updateBrand(activeBrand.id, b => ({ ...b, studio: updater(b.studio) }))}
+                 onAssetCreated={(asset) => updateBrand(activeBrand.id, b => ({ ...b, assets: [asset, ...b.assets] }))}
+                 onUpdateSubtypes={(updater) => updateBrand(activeBrand.id, b => ({ ...b, settings: { ...b.settings, subtypes: updater(b.settings.subtypes) } }))}
                />
-               
-               {assets.length > 0 && (
+
+               {activeBrand.assets.length > 0 && (
                  <div className="border-t border-zinc-800 pt-8">
                     <h3 className="text-xl font-bold text-white mb-6">Asset Gallery</h3>
-                    <Gallery assets={assets} />
+                    <Gallery
+                      context={brandContext!}
+                      assets={activeBrand.assets}
+                      inspirations={activeBrand.inspirations}
+                      dna={dna}
+                      dnaVersions={activeBrand.dnaVersions}
+                      studio={activeBrand.studio}
+                      onUpdateAsset={(assetId, updater: (asset: GeneratedAsset) => GeneratedAsset) =>
+                        updateBrand(activeBrand.id, b => ({ ...b, assets: b.assets.map(a => a.id === assetId ? updater(a) : a) }))}
+                      onAssetCreated={(asset) => updateBrand(activeBrand.id, b => ({ ...b, assets: [asset, ...b.assets] }))}
+                      onDraftCreated={(draft) => updateBrand(activeBrand.id, b => ({ ...b, studio: addStudioDraft(b.studio, draft) }))}
+                    />
                  </div>
                )}
             </div>
           )}
 
-          {activeTab === 'ads' && dna && (
-            <Ads dna={dna} />
+          {activeBrand && activeTab === 'ads' && dna && (
+            <Ads
+              context={brandContext!}
+              dna={dna}
+              inspirations={activeBrand.inspirations}
+              moodBoards={activeBrand.moodBoards}
+              session={activeBrand.ads}
+              onUpdateSession={(updater: (session: AdSession) => AdSession) => updateBrand(activeBrand.id, b => ({ ...b, ads: updater(b.ads) }))}
+            />
+          )}
+
+          {activeBrand && activeTab === 'models' && (
+            <ModelSettings
+              brandId={activeBrand.id}
+              settings={activeBrand.settings}
+              onUpdateSettings={(updater: (settings: WorkspaceSettings) => WorkspaceSettings) => updateBrand(activeBrand.id, b => ({ ...b, settings: updater(b.settings) }))}
+            />
+          )}
+
+          {activeBrand && activeTab === 'prompts' && (
+            <PromptLibrary
+              templates={activeBrand.settings.templates}
+              onUpdateTemplates={(updater) => updateBrand(activeBrand.id, b => ({ ...b, settings: { ...b.settings, templates: updater(b.settings.templates) } }))}
+            />
           )}
 
         </div>
       </main>
+
+      <JobQueuePanel brands={workspace.brands} onOpenJob={handleOpenJob} />
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,12 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { BrandDNA } from '../types';
+import { AdMessage, AdSession, AdStoryboard, BrandDNA, Inspiration, MoodBoard } from '../types';
 import { 
   brainstormAdIdea, 
   generateVoiceoverScript, 
   generateAdKeyframes, 
   generateAdVideo 
 } from '../services/geminiService';
+import { cancelJob, findRunningJob, runJob, useJobs } from '../services/jobQueue';
+import { errorSummary, isAbortError } from '../services/errors';
+import { BrandContext } from '../services/generationContext';
+import { describeMoodBoard } from '../services/inspirationService';
 import { 
   MessageCircle, 
   Send, 
@@ -18,45 +22,45 @@ import {
   Image as ImageIcon,
   Play,
   Download,
-  RotateCcw
+  RotateCcw,
+  XCircle,
+  LayoutGrid
 } from 'lucide-react';
 
 interface AdsProps {
+  context: BrandContext;
   dna: BrandDNA;
+  inspirations: Inspiration[];
+  moodBoards: MoodBoard[];
+  // The conversation, storyboard and video belong to the brand workspace,
+  // so they survive tab switches and never bleed into another brand.
+  session: AdSession;
+  onUpdateSession: (updater: (session: AdSession) => AdSession) => void;
 }
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: number;
-}
+type Message = AdMessage;
 
-interface AdStoryboard {
-  concept: string;
-  voiceoverScript: string;
-  keyframes: {
-    url: string;
-    description: string;
-  }[];
-}
+const Ads: React.FC<AdsProps> = ({ context, dna, inspirations, moodBoards, session, onUpdateSession }) => {
+  const { brandId } = context;
+  const { messages, storyboard, editableScript, videoUrl, boardId } = session;
+  const board = moodBoards.find(b => b.id === boardId);
+  const moodBoard = board ? describeMoodBoard(board, inspirations) : null;
+  const setMessages = (updater: (prev: Message[]) => Message[]) =>
+    onUpdateSession(s => ({ ...s, messages: updater(s.messages) }));
+  const setStoryboard = (value: AdStoryboard | null) => onUpdateSession(s => ({ ...s, storyboard: value }));
+  const setEditableScript = (value: string) => onUpdateSession(s => ({ ...s, editableScript: value }));
+  const setVideoUrl = (value: string | null) => onUpdateSession(s => ({ ...s, videoUrl: value }));
 
-const Ads: React.FC<AdsProps> = ({ dna }) => {
   // Chat State
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
   // Storyboard State
-  const [storyboard, setStoryboard] = useState<AdStoryboard | null>(null);
   const [isGeneratingStoryboard, setIsGeneratingStoryboard] = useState(false);
-  const [editableScript, setEditableScript] = useState('');
   
-  // Video State
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
-  const [videoProgress, setVideoProgress] = useState('');
+  // Video State: the render is a background job (possibly resumed after a reload)
+  const videoJob = findRunningJob(useJobs(), brandId, 'ad-video');
 
   // Auto-scroll chat
   useEffect(() => {
@@ -72,7 +76,7 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
         content: `Hey! I'm excited to brainstorm a video ad for ${dna.name}! 🎬\n\nI've studied your brand DNA - the ${dna.colors.join(', ')} palette, your ${dna.visualEssence} vibe, and the overall design system.\n\nWhat kind of ad are you thinking? Here are some ideas to get started:\n\n• Product showcase highlighting key features\n• Emotional brand story connecting with your audience\n• Energetic launch announcement\n• Customer testimonial-style ad\n• Behind-the-scenes brand culture\n\nLet's create something amazing together!`,
         timestamp: Date.now()
       };
-      setMessages([greeting]);
+      setMessages(() => [greeting]);
     }
   }, []);
 
@@ -97,7 +101,7 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
         content: m.content
       }));
 
-      const response = await brainstormAdIdea(dna, conversationHistory);
+      const response = await brainstormAdIdea(dna, conversationHistory, moodBoard, context);
 
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -112,7 +116,7 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: 'Sorry, I had trouble processing that. Could you rephrase or try a different angle?',
+        content: `Sorry, I had trouble processing that. ${errorSummary(error)}`,
         timestamp: Date.now()
       };
       setMessages(prev => [...prev, errorMessage]);
@@ -143,7 +147,7 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
       setMessages(prev => [...prev, progressMessage]);
 
       // Generate voiceover script
-      const script = await generateVoiceoverScript(dna, conversationHistory);
+      const script = await generateVoiceoverScript(dna, conversationHistory, context);
 
       // Update progress
       const keyframeMessage: Message = {
@@ -155,7 +159,7 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
       setMessages(prev => [...prev, keyframeMessage]);
 
       // Generate keyframes (2-3 images)
-      const keyframes = await generateAdKeyframes(dna, conversationHistory, script);
+      const keyframes = await generateAdKeyframes(dna, conversationHistory, script, moodBoard, context);
 
       setStoryboard({
         concept: conversationHistory[conversationHistory.length - 1].content,
@@ -175,11 +179,10 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
 
     } catch (error) {
       console.error('Storyboard generation error:', error);
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       const errorMessage: Message = {
         id: Date.now().toString(),
         role: 'assistant',
-        content: `❌ Oops! Something went wrong while creating the storyboard: ${errorMsg}. Please try again or refine your concept.`,
+        content: `❌ Oops! Something went wrong while creating the storyboard. ${errorSummary(error)}`,
         timestamp: Date.now()
       };
       setMessages(prev => [...prev, errorMessage]);
@@ -191,15 +194,21 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
   const handleGenerateVideo = async () => {
     if (!storyboard) return;
 
-    setIsGeneratingVideo(true);
     setVideoUrl(null);
 
     try {
-      const video = await generateAdVideo(
-        dna,
-        editableScript, // Use the edited script
-        storyboard.keyframes,
-        (status) => setVideoProgress(status)
+      const video = await runJob(
+        { kind: 'ad-video', label: `${dna.name} ad video`, brandId },
+        ({ signal, setProgress }) => generateAdVideo(
+          dna,
+          editableScript, // Use the edited script
+          storyboard.keyframes,
+          {
+            ...context,
+            signal,
+            onProgress: (progress) => setProgress(progress.message)
+          }
+        )
       );
 
       setVideoUrl(video);
@@ -213,21 +222,25 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
       setMessages(prev => [...prev, successMessage]);
 
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Video generation error:', error);
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       const errorMessage: Message = {
         id: Date.now().toString(),
         role: 'assistant',
-        content: `❌ Video generation failed: ${errorMsg}. This can happen due to content filters or server load. Try regenerating or adjusting your concept.`,
+        content: `❌ Video generation failed. ${errorSummary(error)}`,
         timestamp: Date.now()
       };
       setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsGeneratingVideo(false);
-      setVideoProgress('');
     }
   };
 
+  const handleCancelVideo = () => {
+    if (videoJob) cancelJob(videoJob.id);
+  };
+
+  const isRendering = !!videoJob;
+  const renderStatus = videoJob?.progress || 'Generating Video...';
+
   const handleReset = () => {
     setStoryboard(null);
     setVideoUrl(null);
@@ -254,6 +267,19 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
         <p className="text-zinc-400">
           Brainstorm creative video ads with AI, then bring them to life with storyboards and full video generation.
         </p>
+        {moodBoards.length > 0 && (
+          <label className="mt-3 inline-flex items-center gap-2 text-sm text-zinc-400">
+            <LayoutGrid className="w-4 h-4 text-purple-500" /> Mood board
+            <select
+              value={board?.id || ''}
+              onChange={(e) => onUpdateSession(s => ({ ...s, boardId: e.target.value || null }))}
+              className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-sm text-white"
+            >
+              <option value="">None</option>
+              {moodBoards.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+            </select>
+          </label>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-1 min-h-0">
@@ -416,13 +442,13 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
               {!videoUrl && (
                 <button
                   onClick={handleGenerateVideo}
-                  disabled={isGeneratingVideo}
+                  disabled={isRendering}
                   className="w-full mt-6 px-4 py-3 bg-gradient-to-r from-pink-600 to-red-600 text-white rounded-lg hover:from-pink-700 hover:to-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 font-semibold"
                 >
-                  {isGeneratingVideo ? (
+                  {isRendering ? (
                     <>
                       <Loader2 className="w-5 h-5 animate-spin" />
-                      {videoProgress || 'Generating Video...'}
+                      {renderStatus}
                     </>
                   ) : (
                     <>
@@ -432,6 +458,15 @@ const Ads: React.FC<AdsProps> = ({ dna }) => {
                   )}
                 </button>
               )}
+              {isRendering && (
+                <button
+                  onClick={handleCancelVideo}
+                  className="w-full mt-2 text-sm text-zinc-400 hover:text-red-400 flex items-center justify-center gap-1 transition-colors"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Cancel Render
+                </button>
+              )}
             </div>
           )}
 
@@ -1,29 +1,46 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { X, Check, Loader2, Undo, Eraser, Pen, CheckCircle, Video } from 'lucide-react';
-import { checkSpelling, generateRealWorldPreview } from '../services/geminiService';
-import { BrandDNA } from '../types';
+import { X, Check, Loader2, Undo, Eraser, Pen, CheckCircle, Video, History, Columns2, GitBranch } from 'lucide-react';
+import { DraftVersion } from '../types';
+import { checkSpelling } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { BrandContext } from '../services/generationContext';
+import ErrorNotice from './ErrorNotice';
 
 interface AssetEditorProps {
+  context: BrandContext;
   imageUrl: string;
-  subtype: string;
-  brandDNA: BrandDNA;
+  versions: DraftVersion[]; // Empty for drafts made before version history
+  currentVersionId?: string;
+  onSelectVersion: (versionId: string) => void;
   onClose: () => void;
   onUpdate: (mask: string | null, instruction: string) => Promise<void>;
   onFinalize: () => void;
   isProcessing: boolean;
+  // The preview render runs as a background job owned by the Studio
+  previewVideoUrl: string | null;
+  previewProgress: string | null; // null when no preview is rendering
+  onGeneratePreview: () => void;
+  onCancelPreview: () => void;
+  error: unknown; // Last failed edit, finalize or preview
+  onDismissError: () => void;
 }
 
-const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA, onClose, onUpdate, onFinalize, isProcessing }) => {
+const AssetEditor: React.FC<AssetEditorProps> = ({
+  context, imageUrl, versions, currentVersionId, onSelectVersion, onClose, onUpdate, onFinalize, isProcessing, previewVideoUrl, previewProgress, onGeneratePreview, onCancelPreview, error, onDismissError
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [instruction, setInstruction] = useState('');
   const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
   const [isCheckingSpelling, setIsCheckingSpelling] = useState(false);
   const [spellingFeedback, setSpellingFeedback] = useState<string | null>(null);
-  const [isGeneratingPreview, setIsGeneratingPreview] = useState(false);
-  const [previewVideoUrl, setPreviewVideoUrl] = useState<string | null>(null);
+  const isGeneratingPreview = previewProgress !== null;
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const versionNumber = (id: string | null) => versions.findIndex(v => v.id === id) + 1;
+  const compareVersion = versions.find(v => v.id === compareId);
   
-  // Init canvas
+  // Init canvas, and clear annotations made on another version
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -35,7 +52,7 @@ const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA,
     
     // We don't draw the image on the canvas, we just use the canvas for the MASK/DRAWING layer.
     // The image sits behind it in CSS.
-  }, []);
+  }, [imageUrl]);
 
   const startDrawing = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
@@ -107,7 +124,7 @@ const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA,
     setIsCheckingSpelling(true);
     setSpellingFeedback(null);
     try {
-      const result = await checkSpelling(imageUrl);
+      const result = await checkSpelling(imageUrl, context);
       if (result.hasErrors) {
         setSpellingFeedback(`Found ${result.errors.length} spelling issue(s): ${result.errors.join(', ')}`);
         // Auto-apply fix
@@ -124,25 +141,12 @@ const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA,
       }
     } catch (e) {
       console.error(e);
-      setSpellingFeedback('Failed to check spelling');
+      setSpellingFeedback(`Failed to check spelling: ${describeError(e).title}`);
     } finally {
       setIsCheckingSpelling(false);
     }
   };
 
-  const handleRealWorldPreview = async () => {
-    setIsGeneratingPreview(true);
-    try {
-      const videoUrl = await generateRealWorldPreview(imageUrl, subtype, brandDNA);
-      setPreviewVideoUrl(videoUrl);
-    } catch (e) {
-      console.error(e);
-      alert('Failed to generate preview: ' + (e as Error).message);
-    } finally {
-      setIsGeneratingPreview(false);
-    }
-  };
-
   return (
     <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
       <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-5xl h-[80vh] flex overflow-hidden shadow-2xl">
@@ -191,6 +195,24 @@ const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA,
                 />
              </div>
              
+             {/* Compare: drawn over the canvas so annotations survive it */}
+             {compareVersion && (
+               <div className="absolute inset-0 z-20 bg-zinc-950 flex flex-col items-center justify-center gap-4 p-4">
+                 <div className="flex gap-4">
+                   {[
+                     { label: `v${versionNumber(compareVersion.id)}`, url: compareVersion.step.imageUrl },
+                     { label: `v${versionNumber(currentVersionId || null)} (current)`, url: imageUrl }
+                   ].map(side => (
+                     <div key={side.label} className="text-center">
+                       <img src={side.url} className="w-[360px] h-[360px] object-contain bg-zinc-900 rounded-lg" />
+                       <p className="text-xs text-zinc-400 mt-2">{side.label}</p>
+                     </div>
+                   ))}
+                 </div>
+                 <button onClick={() => setCompareId(null)} className="text-sm text-zinc-400 hover:text-white">Done comparing</button>
+               </div>
+             )}
+
              {/* Toolbar */}
              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-zinc-800 rounded-full p-2 flex gap-2 shadow-lg border border-zinc-700">
                 <button 
@@ -225,6 +247,8 @@ const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA,
               <button onClick={onClose}><X className="w-5 h-5 text-zinc-500 hover:text-white" /></button>
            </div>
 
+           {error !== null && error !== undefined && <ErrorNotice error={error} onDismiss={onDismissError} compact />}
+
            <div className="space-y-4">
               <label className="text-xs text-zinc-400 uppercase font-bold">Refine Instruction</label>
               <textarea 
@@ -243,15 +267,61 @@ const AssetEditor: React.FC<AssetEditorProps> = ({ imageUrl, subtype, brandDNA,
               </button>
            </div>
 
+           {versions.length > 1 && (
+             <div className="space-y-2">
+               <label className="text-xs text-zinc-400 uppercase font-bold flex items-center gap-1"><History className="w-3 h-3" /> History</label>
+               <div className="flex gap-2 overflow-x-auto pb-1">
+                 {versions.map((version, i) => {
+                   const isCurrent = version.id === currentVersionId;
+                   // A version whose parent isn't the one before it is a branch
+                   const isBranch = i > 0 && version.parentId !== versions[i - 1].id;
+                   return (
+                     <div key={version.id} className="relative shrink-0 group/version">
+                       <button
+                         onClick={() => onSelectVersion(version.id)}
+                         disabled={isProcessing}
+                         title={version.step.instruction || version.step.variation || 'Generated draft'}
+                         className={`block w-14 h-14 rounded overflow-hidden border-2 disabled:opacity-50 ${isCurrent ? 'border-orange-500' : 'border-zinc-700 hover:border-zinc-500'}`}
+                       >
+                         <img src={version.step.imageUrl} className="w-full h-full object-cover" />
+                       </button>
+                       <span className="flex items-center justify-center gap-0.5 text-[10px] text-zinc-500 mt-0.5">
+                         {isBranch && <GitBranch className="w-2.5 h-2.5" />}v{i + 1}
+                       </span>
+                       {!isCurrent && (
+                         <button
+                           onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                           className="absolute top-0.5 right-0.5 p-0.5 rounded bg-black/70 text-zinc-300 hover:text-white opacity-0 group-hover/version:opacity-100"
+                           title="Compare with current"
+                         >
+                           <Columns2 className="w-3 h-3" />
+                         </button>
+                       )}
+                     </div>
+                   );
+                 })}
+               </div>
+               <p className="text-xs text-zinc-600">Pick any version to edit or finalize it. Editing an earlier version starts a branch.</p>
+             </div>
+           )}
+
            <div className="mt-auto pt-6 border-t border-zinc-800 space-y-3">
               <button 
-                 onClick={handleRealWorldPreview}
+                 onClick={onGeneratePreview}
                  disabled={isGeneratingPreview}
                  className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white font-semibold rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
               >
                   {isGeneratingPreview ? <Loader2 className="animate-spin w-4 h-4" /> : <Video className="w-4 h-4" />}
-                  {isGeneratingPreview ? 'Generating Preview...' : 'Real-World Preview'}
+                  {isGeneratingPreview ? previewProgress : 'Real-World Preview'}
               </button>
+              {isGeneratingPreview && (
+                <button
+                  onClick={onCancelPreview}
+                  className="w-full text-xs text-zinc-400 hover:text-red-400"
+                >
+                  Cancel Preview
+                </button>
+              )}
               
               {previewVideoUrl && (
                 <div className="space-y-2">
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Check, GitMerge, Loader2, PackageOpen, Plus, X } from 'lucide-react';
+import { BrandWorkspace } from '../types';
+import { getBrandLabel } from '../services/workspaceService';
+import { BrandKit, KitDNAStrategy, KitImportSummary, importKitAsBrand, mergeBrandKit, readBrandKit } from '../services/brandKitService';
+
+interface BrandKitImportProps {
+  file: File;
+  brands: BrandWorkspace[];
+  onAddBrand: (brand: BrandWorkspace) => void;
+  onReplaceBrand: (brand: BrandWorkspace) => void;
+  onClose: () => void;
+}
+
+type ImportMode = 'new' | 'merge';
+
+// Reads a brand kit zip, then imports it as a new brand or merges it into an existing one
+const BrandKitImport: React.FC<BrandKitImportProps> = ({ file, brands, onAddBrand, onReplaceBrand, onClose }) => {
+  const [kit, setKit] = useState<BrandKit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('new');
+  const [targetId, setTargetId] = useState(brands.find(b => !b.archived)?.id || '');
+  const [strategy, setStrategy] = useState<KitDNAStrategy>('keep');
+  const [summary, setSummary] = useState<KitImportSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    readBrandKit(file)
+      .then(result => { if (!cancelled) setKit(result); })
+      .catch(e => {
+        console.error('📦 [BRAND KIT] Import failed', e);
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const target = brands.find(b => b.id === targetId);
+
+  const handleImport = () => {
+    if (!kit) return;
+    try {
+      if (mode === 'new') {
+        const result = importKitAsBrand(kit, brands);
+        onAddBrand(result.brand);
+        setSummary(result.summary);
+      } else if (target) {
+        const result = mergeBrandKit(target, kit, strategy);
+        onReplaceBrand(result.brand);
+        setSummary(result.summary);
+      }
+    } catch (e) {
+      console.error('📦 [BRAND KIT] Import failed', e);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const counts = kit?.manifest.counts;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden shadow-2xl">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <PackageOpen className="w-5 h-5 text-orange-500" /> Import Brand Kit
+          </h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {error && (
+            <div className="flex items-start gap-2 bg-red-950/40 border border-red-900/60 rounded-lg p-3 text-sm text-red-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-semibold">Could not import {file.name}</p>
+                <p className="text-xs text-red-400/70 break-words">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {!kit && !error && (
+            <div className="flex items-center gap-3 text-sm text-zinc-400">
+              <Loader2 className="w-4 h-4 animate-spin text-orange-500" /> Reading {file.name}...
+            </div>
+          )}
+
+          {kit && counts && (
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4">
+              <p className="text-white font-semibold">{kit.manifest.brand.name}</p>
+              <p className="text-xs text-zinc-500">Exported {new Date(kit.manifest.exportedAt).toLocaleString()}</p>
+              <p className="text-xs text-zinc-400 mt-2">
+                {counts.inspirations} inspirations · {counts.assets} assets · {counts.videos} videos · {counts.dnaVersions} DNA versions
+              </p>
+            </div>
+          )}
+
+          {kit && !summary && !error && (
+            <div className="space-y-3">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input type="radio" checked={mode === 'new'} onChange={() => setMode('new')} className="mt-1 accent-orange-500" />
+                <span>
+                  <span className="text-sm text-white flex items-center gap-1"><Plus className="w-3 h-3" /> Add as a new brand</span>
+                  <span className="text-xs text-zinc-500">Everything in the kit becomes a brand of its own.</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} disabled={brands.length === 0} className="mt-1 accent-orange-500" />
+                <span>
+                  <span className="text-sm text-white flex items-center gap-1"><GitMerge className="w-3 h-3" /> Merge into an existing brand</span>
+                  <span className="text-xs text-zinc-500">Adds the kit's inspirations, assets and DNA history. Items the brand already has are skipped.</span>
+                </span>
+              </label>
+
+              {mode === 'merge' && (
+                <div className="pl-7 space-y-3">
+                  <select
+                    value={targetId}
+                    onChange={e => setTargetId(e.target.value)}
+                    className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white"
+                  >
+                    {brands.map(b => <option key={b.id} value={b.id}>{getBrandLabel(b)}{b.archived ? ' (archived)' : ''}</option>)}
+                  </select>
+                  {target?.dna && kit.brand.dna && (
+                    <div className="flex gap-2">
+                      {(['keep', 'replace'] as KitDNAStrategy[]).map(s => (
+                        <button
+                          key={s}
+                          onClick={() => setStrategy(s)}
+                          className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold border ${strategy === s ? 'border-orange-500 text-white bg-orange-500/10' : 'border-zinc-800 text-zinc-400 hover:text-white'}`}
+                        >
+                          {s === 'keep' ? `Keep ${getBrandLabel(target)}'s DNA` : `Use ${kit.manifest.brand.name}'s DNA`}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {summary && (
+            <div className="space-y-2 text-sm">
+              <p className="text-green-400 flex items-center gap-2"><Check className="w-4 h-4" /> Imported</p>
+              <p className="text-zinc-400">
+                Added {summary.added.inspirations} inspirations, {summary.added.assets} assets and {summary.added.dnaVersions} DNA versions.
+                {summary.skipped > 0 && ` Skipped ${summary.skipped} already in the brand.`}
+                {summary.renamed > 0 && ` ${summary.renamed} got a new id to avoid a clash.`}
+              </p>
+            </div>
+          )}
+
+          {summary && summary.warnings.length > 0 && (
+            <ul className="text-xs text-yellow-400/80 list-disc pl-4 space-y-1">
+              {summary.warnings.map(w => <li key={w}>{w}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t border-zinc-800">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-zinc-400 hover:text-white">{summary ? 'Done' : 'Cancel'}</button>
+          {kit && !summary && !error && (
+            <button
+              onClick={handleImport}
+              disabled={mode === 'merge' && !target}
+              className="bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white text-sm font-bold px-4 py-2 rounded-lg"
+            >
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitImport;
@@ -1,14 +1,31 @@
-import React, { useState } from 'react';
-import { BrandDNA } from '../types';
-import { generateBrandDNA, fetchLogoFromUrl } from '../services/geminiService';
-import { Globe, Loader2, Save, Palette, Type, Fingerprint, Sparkles, CheckCircle, Upload, Image as ImageIcon, Trash2, AlertTriangle, RefreshCw } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { BrandDNA, DNAField, DNAVersion, GeneratedAsset } from '../types';
+import { generateBrandDNA, fetchLogoFromUrl, regenerateDNAField } from '../services/geminiService';
+import { BrandContext } from '../services/generationContext';
+import { getModelLabel } from '../services/modelRegistry';
+import { COLOR_ROLES, applyFieldEdit, applyFieldRegeneration, getCurrentDNAVersion, getDNAFieldLabel, isFieldEdited, keepEditedFields } from '../services/brandDnaService';
+import ErrorNotice from './ErrorNotice';
+import DNAFieldEditor from './DNAFieldEditor';
+import DNAHistory from './DNAHistory';
+import LogoPaletteSuggestions from './LogoPaletteSuggestions';
+import ContrastPanel from './ContrastPanel';
+import TokenExport from './TokenExport';
+import GuidelinesExport from './GuidelinesExport';
+import { PaletteSwatch, extractLogoPalette } from '../services/logoPalette';
+import { Globe, Loader2, Save, Palette, Tags, Type, Fingerprint, Sparkles, CheckCircle, Upload, Image as ImageIcon, Trash2, AlertTriangle, RefreshCw, Pencil } from 'lucide-react';
 
 interface BrandManagerProps {
+  context: BrandContext;
   dna: BrandDNA | null;
-  onSave: (dna: BrandDNA) => void;
+  versions: DNAVersion[];
+  assets: GeneratedAsset[]; // Candidates for the guidelines' example applications
+  // Every change is saved as a new DNA version with a note
+  onSave: (dna: BrandDNA, note: string) => void;   // A newly forged identity
+  onUpdate: (dna: BrandDNA, note: string) => void; // Field edits, regenerations and rollbacks
+  onUpdateVersionNote: (version: number, note: string) => void;
 }
 
-const LoadingView: React.FC<{ status: string }> = ({ status }) => (
+const LoadingView: React.FC<{ status: string; model: string }> = ({ status, model }) => (
   <div className="flex flex-col items-center justify-center p-12 space-y-8 bg-zinc-900/50 rounded-xl border border-zinc-800">
     <div className="relative w-32 h-32">
       {/* Pulsing rings */}
@@ -28,7 +45,7 @@ const LoadingView: React.FC<{ status: string }> = ({ status }) => (
       <div className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-red-600 animate-pulse">
         {status}
       </div>
-      <p className="text-zinc-500 text-sm">Gemini 3.0 Experimental...</p>
+      <p className="text-zinc-500 text-sm">{getModelLabel(model)}...</p>
     </div>
 
     {/* Pseudo-progress steps visualizer */}
@@ -42,12 +59,34 @@ const LoadingView: React.FC<{ status: string }> = ({ status }) => (
   </div>
 );
 
-const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
+const BrandManager: React.FC<BrandManagerProps> = ({ context, dna, versions, assets, onSave, onUpdate, onUpdateVersionNote }) => {
   const [isEditing, setIsEditing] = useState(!dna);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isFetchingLogo, setIsFetchingLogo] = useState(false);
   const [loadingStatus, setLoadingStatus] = useState("Initializing...");
   const [logoError, setLogoError] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<unknown>(null);
+  const [overwriteEdits, setOverwriteEdits] = useState(false);
+  const [versionNote, setVersionNote] = useState('');
+
+  // Field-level editing on the DNA view
+  const [editingField, setEditingField] = useState<DNAField | null>(null);
+  const [regeneratingField, setRegeneratingField] = useState<DNAField | null>(null);
+  const [fieldError, setFieldError] = useState<{ field: DNAField; error: unknown } | null>(null);
+  const editedFields = dna?.editedFields || [];
+
+  // Dominant logo colors, quantized locally
+  const [logoSwatches, setLogoSwatches] = useState<PaletteSwatch[]>([]);
+  const logoImage = dna?.logoImage;
+  useEffect(() => {
+    setLogoSwatches([]);
+    if (!logoImage) return;
+    let cancelled = false;
+    extractLogoPalette(logoImage)
+      .then(swatches => { if (!cancelled) setLogoSwatches(swatches); })
+      .catch(e => console.warn('🎨 [LOGO PALETTE] Extraction failed:', e));
+    return () => { cancelled = true; };
+  }, [logoImage]);
 
   const [formData, setFormData] = useState({
     name: dna?.name || '',
@@ -81,9 +120,14 @@ const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    forgeIdentity();
+  };
+
+  const forgeIdentity = async () => {
     setLogoError(null);
+    setGenerationError(null);
     setIsGenerating(true);
     setLoadingStatus("Initializing Agent...");
 
@@ -92,7 +136,8 @@ const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
         formData.name,
         formData.description,
         formData.url,
-        (status) => setLoadingStatus(status)
+        (status) => setLoadingStatus(status),
+        context
       );
 
       // Check for extraction failure:
@@ -103,28 +148,94 @@ const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
         return; // Stop execution to force user action
       }
 
-      // Merge: Prioritize manual upload (logoPreview), fallback to extracted (result.logoImage)
-      const finalDNA = {
+      // Merge: Prioritize manual upload (logoPreview), fallback to extracted (result.logoImage).
+      // Hand-edited fields survive unless the user chose to overwrite them.
+      const finalDNA = keepEditedFields(overwriteEdits ? null : dna, {
         ...result,
         logoImage: logoPreview || result.logoImage
-      };
+      });
 
-      onSave(finalDNA);
+      onSave(finalDNA, versionNote.trim() || (dna ? 'Regenerated identity' : 'Initial identity'));
+      setVersionNote('');
       // Update local preview in case it was extracted
       setLogoPreview(finalDNA.logoImage);
       setIsEditing(false);
     } catch (e) {
       console.error(e);
-      alert("Failed to create Brand DNA. Please try again.");
+      setGenerationError(e);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleRegenerateField = async (field: DNAField) => {
+    if (!dna) return;
+    setFieldError(null);
+    setRegeneratingField(field);
+    try {
+      const value = await regenerateDNAField(dna, field, context);
+      const next = applyFieldRegeneration(dna, field, value);
+      onUpdate(next, `Regenerated ${getDNAFieldLabel(field)}`);
+
+      // A new palette leaves the roles pointing at old colors; reassign them unless they were set by hand.
+      // The palette is already saved, so a failure here only affects the roles.
+      if (field === 'colors' && !isFieldEdited(dna, 'colorRoles')) {
+        setRegeneratingField('colorRoles');
+        try {
+          onUpdate(applyFieldRegeneration(next, 'colorRoles', await regenerateDNAField(next, 'colorRoles', context)), `Regenerated ${getDNAFieldLabel('colorRoles')}`);
+        } catch (e) {
+          console.error(e);
+          setFieldError({ field: 'colorRoles', error: e });
+        }
+      }
+    } catch (e) {
+      console.error(e);
+      setFieldError({ field, error: e });
+    } finally {
+      setRegeneratingField(null);
+    }
+  };
+
+  const renderFieldHeader = (field: DNAField, icon: React.ReactNode, className = "text-orange-500 font-medium") => (
+    <div className="flex items-center justify-between mb-3 relative z-10">
+      <div className={`flex items-center gap-2 ${className}`}>
+        {icon} <span>{getDNAFieldLabel(field)}</span>
+        {dna && isFieldEdited(dna, field) && (
+          <span className="px-1.5 py-0.5 bg-zinc-800 text-zinc-400 rounded text-[10px] font-bold uppercase" title="Kept when the whole DNA is regenerated">Edited</span>
+        )}
+      </div>
+      {editingField !== field && (
+        <div className="flex items-center gap-2">
+          <button onClick={() => setEditingField(field)} disabled={!!regeneratingField} className="text-zinc-500 hover:text-white disabled:opacity-40" title="Edit">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleRegenerateField(field)} disabled={!!regeneratingField} className="text-zinc-500 hover:text-white disabled:opacity-40" title="Regenerate just this field">
+            <RefreshCw className={`w-4 h-4 ${regeneratingField === field ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderFieldError = (field: DNAField) => fieldError?.field === field && (
+    <div className="mb-3">
+      <ErrorNotice error={fieldError.error} onRetry={() => handleRegenerateField(field)} onDismiss={() => setFieldError(null)} compact />
+    </div>
+  );
+
+  const renderFieldEditor = (field: DNAField) => dna && (
+    <DNAFieldEditor
+      field={field}
+      dna={dna}
+      onSave={(value) => { onUpdate(applyFieldEdit(dna, field, value), `Edited ${getDNAFieldLabel(field)}`); setEditingField(null); }}
+      onCancel={() => setEditingField(null)}
+    />
+  );
+
   if (isGenerating) {
     return (
       <div className="max-w-2xl mx-auto mt-10">
-        <LoadingView status={loadingStatus} />
+        <LoadingView status={loadingStatus} model={context.models.reasoning.model} />
       </div>
     );
   }
@@ -207,6 +318,29 @@ const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
               placeholder="Describe what you do and what you stand for. (e.g. 'A high-end sustainable coffee shop with a minimalist, earthy aesthetic.')"
             />
           </div>
+          {dna && (
+            <div>
+              <label className="block text-zinc-400 mb-2 text-sm font-medium">Version Note <span className="text-zinc-600">(Optional)</span></label>
+              <input
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-4 text-white focus:border-orange-500 outline-none transition-colors"
+                value={versionNote}
+                onChange={e => setVersionNote(e.target.value)}
+                placeholder="What's changing and why, e.g. 'Warmer palette for the autumn rebrand'"
+              />
+            </div>
+          )}
+          {editedFields.length > 0 && (
+            <label className="flex items-start gap-3 text-sm text-zinc-400 bg-zinc-950 border border-zinc-800 rounded-lg p-4 cursor-pointer">
+              <input type="checkbox" checked={overwriteEdits} onChange={(e) => setOverwriteEdits(e.target.checked)} className="mt-1 accent-orange-500" />
+              <span>
+                Overwrite my edits to {editedFields.map(getDNAFieldLabel).join(', ')}
+                <span className="block text-xs text-zinc-600">Left unchecked, these hand-edited fields are kept as they are.</span>
+              </span>
+            </label>
+          )}
+          {generationError !== null && (
+            <ErrorNotice error={generationError} onRetry={forgeIdentity} onDismiss={() => setGenerationError(null)} />
+          )}
           <button
             type="submit"
             className="w-full bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-500 hover:to-red-500 text-white font-bold py-4 rounded-lg flex items-center justify-center gap-2 transition-all shadow-lg hover:shadow-orange-500/20"
@@ -258,23 +392,58 @@ const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
           )}
 
           <div>
-            <div className="flex items-center gap-2 text-orange-500 mb-3 font-medium">
-              <Palette className="w-4 h-4" /> <span>Palette</span>
-            </div>
-            <div className="flex flex-wrap gap-3">
-              {dna?.colors.map(c => (
-                <div key={c} className="group relative">
-                  <div className="w-14 h-14 rounded-full border-2 border-zinc-800 shadow-xl transition-transform hover:scale-110 cursor-pointer" style={{ backgroundColor: c }} />
-                  <span className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs bg-black text-white px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity z-10 pointer-events-none">{c}</span>
-                </div>
-              ))}
-            </div>
+            {renderFieldHeader('colors', <Palette className="w-4 h-4" />)}
+            {renderFieldError('colors')}
+            {editingField === 'colors' ? renderFieldEditor('colors') : (
+              <div className="flex flex-wrap gap-3">
+                {dna?.colors.map(c => (
+                  <div key={c} className="group relative">
+                    <div className="w-14 h-14 rounded-full border-2 border-zinc-800 shadow-xl transition-transform hover:scale-110 cursor-pointer" style={{ backgroundColor: c }} />
+                    <span className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs bg-black text-white px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity z-10 pointer-events-none">{c}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {dna && logoSwatches.length > 0 && editingField !== 'colors' && (
+              <div className="mt-6 relative z-10">
+                <LogoPaletteSuggestions
+                  swatches={logoSwatches}
+                  palette={dna.colors}
+                  onAdd={(hex) => onUpdate(applyFieldEdit(dna, 'colors', [...dna.colors, hex]), `Added logo color ${hex}`)}
+                />
+              </div>
+            )}
           </div>
           <div>
-            <div className="flex items-center gap-2 text-orange-500 mb-3 font-medium">
-              <Type className="w-4 h-4" /> <span>Typography</span>
-            </div>
-            <p className="text-zinc-300 text-sm bg-zinc-950 p-4 rounded-lg border border-zinc-800 font-mono">{dna?.typography}</p>
+            {renderFieldHeader('colorRoles', <Tags className="w-4 h-4" />)}
+            {renderFieldError('colorRoles')}
+            {editingField === 'colorRoles' ? renderFieldEditor('colorRoles') : dna && (
+              <div className="space-y-2">
+                {COLOR_ROLES.filter(({ role }) => dna.colorRoles[role]).map(({ role, label, description }) => {
+                  const color = dna.colorRoles[role]!;
+                  const inPalette = dna.colors.includes(color.hex);
+                  return (
+                    <div key={role} className="flex items-center gap-3 text-sm" title={description}>
+                      <span className="w-5 h-5 rounded-full border border-zinc-700" style={{ backgroundColor: color.hex }} />
+                      <span className="w-24 text-white">{label}</span>
+                      <span className={`font-mono ${inPalette ? 'text-zinc-400' : 'text-yellow-400 line-through'}`}>{color.hex}</span>
+                      {color.usage !== undefined && <span className="text-zinc-500">{color.usage}%</span>}
+                      {!inPalette && <span className="text-xs text-yellow-400">No longer in the palette, prompts skip it</span>}
+                    </div>
+                  );
+                })}
+                {COLOR_ROLES.every(({ role }) => !dna.colorRoles[role]) && (
+                  <p className="text-sm text-zinc-500">No roles yet. Prompts list the palette without saying what each color is for.</p>
+                )}
+              </div>
+            )}
+          </div>
+          <div>
+            {renderFieldHeader('typography', <Type className="w-4 h-4" />)}
+            {renderFieldError('typography')}
+            {editingField === 'typography' ? renderFieldEditor('typography') : (
+              <p className="text-zinc-300 text-sm bg-zinc-950 p-4 rounded-lg border border-zinc-800 font-mono">{dna?.typography}</p>
+            )}
           </div>
         </div>
 
@@ -284,29 +453,54 @@ const BrandManager: React.FC<BrandManagerProps> = ({ dna, onSave }) => {
             <Fingerprint className="w-24 h-24" />
           </div>
           <div>
-            <div className="flex items-center gap-2 text-orange-500 mb-3 font-medium">
-              <Fingerprint className="w-4 h-4" /> <span>Visual Essence</span>
-            </div>
-            <p className="text-zinc-300 text-sm italic bg-zinc-950 p-4 rounded-lg border border-zinc-800 leading-relaxed">"{dna?.visualEssence}"</p>
+            {renderFieldHeader('visualEssence', <Fingerprint className="w-4 h-4" />)}
+            {renderFieldError('visualEssence')}
+            {editingField === 'visualEssence' ? renderFieldEditor('visualEssence') : (
+              <p className="text-zinc-300 text-sm italic bg-zinc-950 p-4 rounded-lg border border-zinc-800 leading-relaxed">"{dna?.visualEssence}"</p>
+            )}
           </div>
           <div>
-            <div className="flex items-center gap-2 text-orange-500 mb-3 font-medium">
-              <span>#</span> <span>Keywords</span>
-            </div>
-            <div className="flex flex-wrap gap-2">
-              {dna?.keywords.map(k => (
-                <span key={k} className="px-3 py-1 bg-zinc-800 text-zinc-300 text-xs font-bold uppercase tracking-wider rounded border border-zinc-700">{k}</span>
-              ))}
-            </div>
+            {renderFieldHeader('keywords', <span>#</span>)}
+            {renderFieldError('keywords')}
+            {editingField === 'keywords' ? renderFieldEditor('keywords') : (
+              <div className="flex flex-wrap gap-2">
+                {dna?.keywords.map(k => (
+                  <span key={k} className="px-3 py-1 bg-zinc-800 text-zinc-300 text-xs font-bold uppercase tracking-wider rounded border border-zinc-700">{k}</span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Design System */}
       <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
-        <h3 className="text-white font-medium mb-3 flex items-center gap-2"><Sparkles className="w-4 h-4 text-orange-500" /> Design System Rules</h3>
-        <p className="text-zinc-400 text-sm leading-relaxed">{dna?.designSystem}</p>
+        {renderFieldHeader('designSystem', <Sparkles className="w-4 h-4 text-orange-500" />, "text-white font-medium")}
+        {renderFieldError('designSystem')}
+        {editingField === 'designSystem' ? renderFieldEditor('designSystem') : (
+          <p className="text-zinc-400 text-sm leading-relaxed">{dna?.designSystem}</p>
+        )}
       </div>
+
+      {dna && dna.colors.length > 0 && (
+        <ContrastPanel
+          dna={dna}
+          onSetRoles={(colorRoles, colors) => onUpdate(
+            applyFieldEdit(colors === dna.colors ? dna : applyFieldEdit(dna, 'colors', colors), 'colorRoles', colorRoles),
+            colorRoles.text && colorRoles.background ? `Set text colors: ${colorRoles.text.hex} on ${colorRoles.background.hex}` : 'Changed text colors'
+          )}
+        />
+      )}
+
+      {dna && <TokenExport dna={dna} />}
+
+      {dna && <GuidelinesExport dna={dna} dnaVersion={getCurrentDNAVersion(versions)?.version} assets={assets} />}
+
+      <DNAHistory
+        versions={versions}
+        onRollback={(v) => onUpdate(v.dna, `Rolled back to v${v.version}`)}
+        onUpdateNote={onUpdateVersionNote}
+      />
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Accessibility, Check, X, Lightbulb } from 'lucide-react';
+import { BrandDNA, ColorRoles } from '../types';
+import { resolveColorRoles } from '../services/brandDnaService';
+import { WCAG_THRESHOLDS, WcagLevel, WcagRating, contrastRatio, formatRatio, paletteContrastPairs, rateContrast, suggestAccessibleColors } from '../services/contrast';
+
+interface ContrastPanelProps {
+  dna: BrandDNA;
+  onSetRoles: (roles: ColorRoles, colors: string[]) => void; // colors: the palette, with any suggestion added
+}
+
+const LEVELS: { level: WcagLevel; label: string }[] = [
+  { level: 'aaNormal', label: 'AA' },
+  { level: 'aaLarge', label: 'AA Large' },
+  { level: 'aaaNormal', label: 'AAA' },
+  { level: 'aaaLarge', label: 'AAA Large' }
+];
+
+const RatingBadges: React.FC<{ rating: WcagRating }> = ({ rating }) => (
+  <div className="flex gap-1">
+    {LEVELS.map(({ level, label }) => (
+      <span
+        key={level}
+        title={`${label}: ${WCAG_THRESHOLDS[level]}:1`}
+        className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-bold ${rating[level] ? 'bg-green-500/10 text-green-400' : 'bg-zinc-800 text-zinc-600'}`}
+      >
+        {rating[level] ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />} {label}
+      </span>
+    ))}
+  </div>
+);
+
+const Sample: React.FC<{ foreground: string; background: string; className?: string }> = ({ foreground, background, className = '' }) => (
+  <div className={`rounded border border-zinc-700 flex items-center justify-center font-bold ${className}`} style={{ color: foreground, backgroundColor: background }}>
+    Aa
+  </div>
+);
+
+const selectClass = "bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-white text-sm font-mono outline-none focus:border-orange-500";
+
+type TextRole = 'text' | 'background';
+
+// WCAG contrast of every palette pair, the text/background roles used in
+// generated designs, and tints or shades that would make a weak pair pass AA
+const ContrastPanel: React.FC<ContrastPanelProps> = ({ dna, onSetRoles }) => {
+  const roles = resolveColorRoles(dna);
+  const pairs = paletteContrastPairs(dna.colors);
+  const [suggestFor, setSuggestFor] = useState<string | null>(null); // "a|b"
+  const text = roles.text?.hex;
+  const background = roles.background?.hex;
+  const roleRatio = text && background ? contrastRatio(text, background) : null;
+
+  // Usage ratios stay with the role when its color changes
+  const withRole = (next: ColorRoles, role: TextRole, hex: string) => {
+    const { [role]: current, ...rest } = next;
+    return hex ? { ...rest, [role]: { ...current, hex } } : rest;
+  };
+
+  const setRole = (role: TextRole, hex: string) => onSetRoles(withRole(dna.colorRoles, role, hex), dna.colors);
+
+  const setPair = (foreground: string, back: string, colors = dna.colors) =>
+    onSetRoles(withRole(withRole(dna.colorRoles, 'text', foreground), 'background', back), colors);
+
+  const applySuggestion = (foreground: string, back: string) =>
+    setPair(foreground, back, dna.colors.includes(foreground) ? dna.colors : [...dna.colors, foreground]);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-6">
+      <h3 className="text-white font-medium flex items-center gap-2"><Accessibility className="w-4 h-4 text-orange-500" /> Accessibility</h3>
+
+      {/* Roles */}
+      <div className="flex flex-wrap items-center gap-4">
+        {text && background && <Sample foreground={text} background={background} className="w-16 h-16 text-2xl" />}
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            {(['text', 'background'] as const).map(role => (
+              <label key={role} className="flex items-center gap-2 text-xs uppercase font-bold text-zinc-500">
+                {role === 'text' ? 'Text' : 'Background'}
+                <select value={roles[role]?.hex || ''} onChange={(e) => setRole(role, e.target.value)} className={selectClass}>
+                  <option value="">Not set</option>
+                  {dna.colors.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          {roleRatio !== null ? (
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-white font-mono">{formatRatio(roleRatio)}</span>
+              <RatingBadges rating={rateContrast(roleRatio)} />
+            </div>
+          ) : (
+            <p className="text-xs text-zinc-600">Pick the text and background roles to check them and have generated designs use them.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Pairs */}
+      {pairs.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs uppercase font-bold text-zinc-500 mb-2">Palette pairs</h4>
+          {pairs.map(pair => {
+            const key = `${pair.a}|${pair.b}`;
+            // Lighten or darken the first color against the second
+            const suggestions = suggestFor === key ? suggestAccessibleColors(pair.a, pair.b) : [];
+            return (
+              <div key={key} className="rounded-lg hover:bg-zinc-950 px-2 py-1.5">
+                <div className="flex flex-wrap items-center gap-3">
+                  <Sample foreground={pair.a} background={pair.b} className="w-8 h-8 text-sm" />
+                  <Sample foreground={pair.b} background={pair.a} className="w-8 h-8 text-sm" />
+                  <span className="text-xs font-mono text-zinc-400 w-32">{pair.a} / {pair.b}</span>
+                  <span className="text-sm font-mono text-white w-16">{formatRatio(pair.ratio)}</span>
+                  <RatingBadges rating={pair.rating} />
+                  <div className="ml-auto flex items-center gap-3">
+                    {!pair.rating.aaNormal && (
+                      <button onClick={() => setSuggestFor(suggestFor === key ? null : key)} className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white">
+                        <Lightbulb className="w-3 h-3" /> Fix
+                      </button>
+                    )}
+                    <button onClick={() => setPair(pair.a, pair.b)} className="text-xs text-zinc-500 hover:text-white">
+                      Use as text/background
+                    </button>
+                  </div>
+                </div>
+                {suggestFor === key && (
+                  <div className="flex flex-wrap items-center gap-2 mt-2 ml-20">
+                    {suggestions.length === 0 && <span className="text-xs text-zinc-500">No tint or shade of {pair.a} reaches AA on {pair.b}.</span>}
+                    {suggestions.map(s => (
+                      <button
+                        key={s.kind}
+                        onClick={() => { applySuggestion(s.hex, pair.b); setSuggestFor(null); }}
+                        className="flex items-center gap-2 bg-zinc-950 border border-zinc-800 hover:border-orange-500 rounded-lg px-2 py-1"
+                        title={`Add ${s.hex} to the palette and use it for text on ${pair.b}`}
+                      >
+                        <Sample foreground={s.hex} background={pair.b} className="w-6 h-6 text-[10px]" />
+                        <span className="text-xs font-mono text-zinc-300">{s.hex}</span>
+                        <span className="text-xs text-zinc-500">{s.kind} · {formatRatio(s.ratio)}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContrastPanel;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Plus, X } from 'lucide-react';
+import { BrandDNA, ColorRoles, DNAField } from '../types';
+import { dedupeStrings, normalizeHex } from '../services/structuredOutput';
+import { COLOR_ROLES } from '../services/brandDnaService';
+
+interface DNAFieldEditorProps {
+  field: DNAField;
+  dna: BrandDNA;
+  onSave: (value: BrandDNA[DNAField]) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "bg-zinc-950 border border-zinc-800 rounded-lg p-3 text-white text-sm outline-none focus:border-orange-500";
+
+const ColorsEditor: React.FC<{ initial: string[]; onSave: (colors: string[]) => void; onCancel: () => void }> = ({ initial, onSave, onCancel }) => {
+  const [colors, setColors] = useState(initial);
+  const valid = dedupeStrings(colors.map(normalizeHex).filter((c): c is string => !!c));
+
+  const setColor = (i: number, value: string) => setColors(colors.map((c, j) => j === i ? value : c));
+  const move = (i: number, by: number) => {
+    const next = [...colors];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    setColors(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {colors.map((color, i) => {
+          const hex = normalizeHex(color);
+          return (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={hex || '#000000'}
+                onChange={(e) => setColor(i, e.target.value.toUpperCase())}
+                className="w-10 h-10 bg-transparent rounded cursor-pointer"
+              />
+              <input
+                value={color}
+                onChange={(e) => setColor(i, e.target.value)}
+                className={`${inputClass} flex-1 font-mono py-2 ${hex ? '' : 'border-red-500'}`}
+              />
+              <button onClick={() => move(i, -1)} disabled={i === 0} className="text-zinc-500 hover:text-white disabled:opacity-30" title="Move left">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button onClick={() => move(i, 1)} disabled={i === colors.length - 1} className="text-zinc-500 hover:text-white disabled:opacity-30" title="Move right">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <button onClick={() => setColors(colors.filter((_, j) => j !== i))} className="text-zinc-500 hover:text-red-400" title="Remove">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <button onClick={() => setColors([...colors, '#FFFFFF'])} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white">
+        <Plus className="w-3 h-3" /> Add color
+      </button>
+      {valid.length !== colors.length && <p className="text-xs text-yellow-400">Invalid and duplicate codes are dropped on save.</p>}
+      <EditorActions canSave={valid.length > 0} onSave={() => onSave(valid)} onCancel={onCancel} />
+    </div>
+  );
+};
+
+// A palette color (or none) and an optional usage percentage per role
+const ColorRolesEditor: React.FC<{ palette: string[]; initial: ColorRoles; onSave: (roles: ColorRoles) => void; onCancel: () => void }> = ({ palette, initial, onSave, onCancel }) => {
+  const [roles, setRoles] = useState(initial);
+
+  const setHex = (role: keyof ColorRoles, hex: string) => {
+    const { [role]: current, ...rest } = roles;
+    setRoles(hex ? { ...rest, [role]: { ...current, hex } } : rest);
+  };
+  const setUsage = (role: keyof ColorRoles, value: string) => {
+    const current = roles[role];
+    if (!current) return;
+    const usage = parseInt(value, 10);
+    setRoles({ ...roles, [role]: { hex: current.hex, ...(Number.isFinite(usage) && { usage: Math.min(100, Math.max(0, usage)) }) } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {COLOR_ROLES.map(({ role, label, description }) => {
+          const color = roles[role];
+          const inPalette = !!color && palette.includes(color.hex);
+          return (
+            <div key={role} className="flex items-center gap-2">
+              <span className="w-6 h-6 rounded-full border border-zinc-700 shrink-0" style={{ backgroundColor: inPalette ? color.hex : 'transparent' }} />
+              <span className="w-24 text-sm text-white" title={description}>{label}</span>
+              <select
+                value={inPalette ? color.hex : ''}
+                onChange={(e) => setHex(role, e.target.value)}
+                className={`${inputClass} flex-1 font-mono py-2`}
+              >
+                <option value="">Not set</option>
+                {palette.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={color?.usage ?? ''}
+                onChange={(e) => setUsage(role, e.target.value)}
+                disabled={!inPalette}
+                placeholder="%"
+                className={`${inputClass} w-20 py-2 disabled:opacity-40`}
+                title="Rough share of a design, in percent"
+              />
+            </div>
+          );
+        })}
+      </div>
+      <EditorActions
+        canSave={Object.values(roles).some(c => c && palette.includes(c.hex))}
+        onSave={() => onSave(Object.fromEntries(Object.entries(roles).filter(([, c]) => c && palette.includes(c.hex))))}
+        onCancel={onCancel}
+      />
+    </div>
+  );
+};
+
+const EditorActions: React.FC<{ canSave: boolean; onSave: () => void; onCancel: () => void }> = ({ canSave, onSave, onCancel }) => (
+  <div className="flex gap-3">
+    <button onClick={onSave} disabled={!canSave} className="bg-orange-600 hover:bg-orange-500 disabled:opacity-40 text-white text-sm font-bold px-4 py-2 rounded-lg">Save</button>
+    <button onClick={onCancel} className="text-sm text-zinc-500 hover:text-white">Cancel</button>
+  </div>
+);
+
+// Inline editor for one generated field of the DNA
+const DNAFieldEditor: React.FC<DNAFieldEditorProps> = ({ field, dna, onSave, onCancel }) => {
+  const [text, setText] = useState(field === 'keywords' ? dna.keywords.join(', ') : String(dna[field] ?? ''));
+
+  if (field === 'colors') return <ColorsEditor initial={dna.colors} onSave={onSave} onCancel={onCancel} />;
+  if (field === 'colorRoles') return <ColorRolesEditor palette={dna.colors} initial={dna.colorRoles} onSave={onSave} onCancel={onCancel} />;
+
+  if (field === 'keywords') {
+    const keywords = dedupeStrings(text.split(','));
+    return (
+      <div className="space-y-3">
+        <input value={text} onChange={(e) => setText(e.target.value)} className={`${inputClass} w-full`} placeholder="Comma-separated keywords" />
+        <EditorActions canSave={keywords.length > 0} onSave={() => onSave(keywords)} onCancel={onCancel} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className={`${inputClass} w-full resize-y ${field === 'designSystem' ? 'h-40' : 'h-24'}`}
+      />
+      <EditorActions canSave={!!text.trim()} onSave={() => onSave(text.trim())} onCancel={onCancel} />
+    </div>
+  );
+};
+
+export default DNAFieldEditor;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, Pencil, Check, GitCompare } from 'lucide-react';
+import { DNAVersion } from '../types';
+import { DNADiff, ListDiff, TextDiff, diffDNA, isEmptyDiff } from '../services/brandDnaService';
+
+interface DNAHistoryProps {
+  versions: DNAVersion[]; // Oldest first; the last is current
+  onRollback: (version: DNAVersion) => void;
+  onUpdateNote: (version: number, note: string) => void;
+}
+
+const ListChanges: React.FC<{ diff: ListDiff; render: (value: string, state: 'added' | 'removed' | 'kept') => React.ReactNode }> = ({ diff, render }) => (
+  <div className="flex flex-wrap gap-2">
+    {diff.kept.map(v => render(v, 'kept'))}
+    {diff.added.map(v => render(v, 'added'))}
+    {diff.removed.map(v => render(v, 'removed'))}
+  </div>
+);
+
+const STATE_CLASSES = {
+  added: 'border-green-500/60 text-green-300',
+  removed: 'border-red-500/60 text-red-300 line-through opacity-70',
+  kept: 'border-zinc-700 text-zinc-400'
+};
+
+const TextChange: React.FC<{ diff: TextDiff }> = ({ diff }) => (
+  <div className="space-y-1 text-sm">
+    <p className="text-red-300/80 line-through">{diff.before}</p>
+    <p className="text-green-300">{diff.after}</p>
+  </div>
+);
+
+const DiffSection: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <h5 className="text-xs uppercase font-bold text-zinc-500 mb-2">{label}</h5>
+    {children}
+  </div>
+);
+
+const DNADiffView: React.FC<{ diff: DNADiff }> = ({ diff }) => {
+  if (isEmptyDiff(diff)) return <p className="text-sm text-zinc-500">No design changes between these versions.</p>;
+  const listChanged = (d: ListDiff) => d.added.length > 0 || d.removed.length > 0;
+
+  return (
+    <div className="space-y-4">
+      {listChanged(diff.colors) && (
+        <DiffSection label="Palette">
+          <ListChanges diff={diff.colors} render={(c, state) => (
+            <div key={`${state}-${c}`} className={`flex items-center gap-2 px-2 py-1 rounded border text-xs font-mono ${STATE_CLASSES[state]}`}>
+              <span className="w-5 h-5 rounded-full border border-zinc-700" style={{ backgroundColor: c }} /> {c}
+            </div>
+          )} />
+        </DiffSection>
+      )}
+      {listChanged(diff.colorRoles) && (
+        <DiffSection label="Color Roles">
+          <ListChanges diff={diff.colorRoles} render={(entry, state) => (
+            <span key={`${state}-${entry}`} className={`px-2 py-0.5 rounded border text-xs font-mono ${STATE_CLASSES[state]}`}>{entry}</span>
+          )} />
+        </DiffSection>
+      )}
+      {diff.typography && <DiffSection label="Typography"><TextChange diff={diff.typography} /></DiffSection>}
+      {diff.visualEssence && <DiffSection label="Visual Essence"><TextChange diff={diff.visualEssence} /></DiffSection>}
+      {listChanged(diff.keywords) && (
+        <DiffSection label="Keywords">
+          <ListChanges diff={diff.keywords} render={(k, state) => (
+            <span key={`${state}-${k}`} className={`px-2 py-0.5 rounded border text-xs font-bold uppercase ${STATE_CLASSES[state]}`}>{k}</span>
+          )} />
+        </DiffSection>
+      )}
+      {listChanged(diff.designSystem) && (
+        <DiffSection label="Design System Rules">
+          <ul className="space-y-1 text-sm">
+            {diff.designSystem.added.map(r => <li key={`a-${r}`} className="text-green-300">+ {r}</li>)}
+            {diff.designSystem.removed.map(r => <li key={`r-${r}`} className="text-red-300/80 line-through">- {r}</li>)}
+          </ul>
+        </DiffSection>
+      )}
+    </div>
+  );
+};
+
+// Saved DNA versions with notes, a diff of any version against the current one, and rollback
+const DNAHistory: React.FC<DNAHistoryProps> = ({ versions, onRollback, onUpdateNote }) => {
+  const current = versions[versions.length - 1];
+  const [selected, setSelected] = useState<number | null>(null);
+  const [editingNote, setEditingNote] = useState<{ version: number; text: string } | null>(null);
+
+  if (!current) return null;
+
+  // Any older version is compared with the current one; the current one with its predecessor
+  const selectedVersion = versions.find(v => v.version === selected);
+  const base = selectedVersion && selectedVersion !== current ? selectedVersion : versions[versions.length - 2];
+  const diff = selectedVersion && base ? diffDNA(base.dna, current.dna) : null;
+
+  const saveNote = () => {
+    if (!editingNote) return;
+    onUpdateNote(editingNote.version, editingNote.text.trim());
+    setEditingNote(null);
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+      <h3 className="text-white font-medium flex items-center gap-2"><History className="w-4 h-4 text-orange-500" /> DNA History</h3>
+
+      <div className="space-y-1">
+        {[...versions].reverse().map(v => {
+          const isCurrent = v === current;
+          return (
+            <div key={v.version} className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm ${selected === v.version ? 'bg-zinc-800' : 'hover:bg-zinc-950'}`}>
+              <span className="font-bold text-white w-8">v{v.version}</span>
+              <div className="flex-1 min-w-0">
+                {editingNote?.version === v.version ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={editingNote.text}
+                      onChange={(e) => setEditingNote({ ...editingNote, text: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && saveNote()}
+                      className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-white text-sm outline-none focus:border-orange-500"
+                    />
+                    <button onClick={saveNote} className="text-zinc-400 hover:text-white"><Check className="w-4 h-4" /></button>
+                  </div>
+                ) : (
+                  <button onClick={() => setEditingNote({ version: v.version, text: v.note })} className="group flex items-center gap-2 text-left text-zinc-300 max-w-full">
+                    <span className="truncate">{v.note || <span className="text-zinc-600 italic">No note</span>}</span>
+                    <Pencil className="w-3 h-3 text-zinc-600 opacity-0 group-hover:opacity-100 shrink-0" />
+                  </button>
+                )}
+                <p className="text-xs text-zinc-600">{new Date(v.createdAt).toLocaleString()}</p>
+              </div>
+              {isCurrent && <span className="px-2 py-0.5 bg-green-500/10 text-green-500 border border-green-500/20 rounded text-[10px] font-bold uppercase">Current</span>}
+              {(!isCurrent || versions.length > 1) && (
+                <button
+                  onClick={() => setSelected(selected === v.version ? null : v.version)}
+                  className="text-zinc-500 hover:text-white"
+                  title={isCurrent ? 'Changes from the previous version' : 'Compare with current'}
+                >
+                  <GitCompare className="w-4 h-4" />
+                </button>
+              )}
+              {!isCurrent && (
+                <button
+                  onClick={() => {
+                    if (confirm(`Roll back to v${v.version}? The current DNA stays in the history.`)) onRollback(v);
+                  }}
+                  className="text-zinc-500 hover:text-orange-400"
+                  title="Roll back to this version"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {diff && base && (
+        <div className="border-t border-zinc-800 pt-4">
+          <h4 className="text-sm text-zinc-400 mb-3">Changes from v{base.version} to v{current.version} (current)</h4>
+          <DNADiffView diff={diff} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DNAHistory;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { describeError, toGenerationError } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  compact?: boolean;
+}
+
+// Inline, actionable replacement for alert(): what went wrong and what to do about it
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss, compact }) => {
+  const { title, action, message } = describeError(error);
+  const details = toGenerationError(error).details;
+
+  return (
+    <div className={`relative bg-red-950/40 border border-red-900/60 rounded-lg text-red-300 ${compact ? 'p-2 text-xs' : 'p-3 text-sm'}`}>
+      <div className="flex items-start gap-2 pr-5">
+        <AlertTriangle className={`${compact ? 'w-3 h-3' : 'w-4 h-4'} mt-0.5 shrink-0`} />
+        <div className="space-y-1 min-w-0">
+          <p className="font-semibold">{title}</p>
+          {!compact && <p className="text-red-300/80">{action}</p>}
+          {message !== title && <p className="text-xs text-red-400/70 break-words">{message}</p>}
+          {details.length > 1 && (
+            <ul className="text-xs text-red-400/70 list-disc pl-4">
+              {details.map(d => <li key={d}>{d}</li>)}
+            </ul>
+          )}
+          {onRetry && (
+            <button onClick={onRetry} className="flex items-center gap-1 text-xs font-bold text-red-200 hover:text-white">
+              <RefreshCw className="w-3 h-3" /> Try again
+            </button>
+          )}
+        </div>
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="absolute top-2 right-2 text-red-400/70 hover:text-white" title="Dismiss">
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
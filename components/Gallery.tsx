@@ -1,32 +1,103 @@
 import React, { useState } from 'react';
-import { GeneratedAsset, AssetType } from '../types';
-import { generateVisualizationVideo } from '../services/geminiService';
-import { Download, ExternalLink, Play, Video, Loader2 } from 'lucide-react';
+import { BrandDNA, DNAVersion, GeneratedAsset, Inspiration, StudioDraft, StudioSession } from '../types';
+import { generateVisualizationVideo, regenerateStep } from '../services/geminiService';
+import { cancelJob, findRunningJob, runJob, useJobs } from '../services/jobQueue';
+import { isAbortError } from '../services/errors';
+import { BrandContext } from '../services/generationContext';
+import { branchFromStep, branchReplacesStudioDrafts } from '../services/provenanceService';
+import { isAssetOffBrand } from '../services/brandDnaService';
+import { NEAR_DUPLICATE_DISTANCE, findSimilar } from '../services/imageHash';
+import { findSubtype } from '../services/assetCatalog';
+import { Download, Play, Video, Loader2, X, Info, AlertTriangle, ScanSearch } from 'lucide-react';
+import ErrorNotice from './ErrorNotice';
+import ProvenanceView from './ProvenanceView';
 
 interface GalleryProps {
+  context: BrandContext;
   assets: GeneratedAsset[];
+  inspirations: Inspiration[];
+  dna: BrandDNA | null;      // Current DNA, to flag assets drafted under a different design
+  dnaVersions: DNAVersion[];
+  studio: StudioSession;     // Checked so a branch doesn't silently replace drafts in progress
+  onUpdateAsset: (assetId: string, updater: (asset: GeneratedAsset) => GeneratedAsset) => void;
+  // Where "regenerate from here" lands: a finalize step makes a new asset,
+  // a draft or edit step a new Studio draft
+  onAssetCreated: (asset: GeneratedAsset) => void;
+  onDraftCreated: (draft: StudioDraft) => void;
 }
 
-const Gallery: React.FC<GalleryProps> = ({ assets }) => {
-  const [visualizingId, setVisualizingId] = useState<string | null>(null);
+const Gallery: React.FC<GalleryProps> = ({ context, assets, inspirations, dna, dnaVersions, studio, onUpdateAsset, onAssetCreated, onDraftCreated }) => {
+  const { brandId } = context;
+  const jobs = useJobs();
+  const [errors, setErrors] = useState<Record<string, unknown>>({}); // Keyed by asset id
+
+  const [inspectingId, setInspectingId] = useState<string | null>(null);
+  const inspecting = assets.find(a => a.id === inspectingId) || null;
+  const [regenerateError, setRegenerateError] = useState<unknown>(null);
+
+  const offBrandIds = new Set(assets.filter(a => isAssetOffBrand(a, dnaVersions, dna)).map(a => a.id));
+  const [showOffBrandOnly, setShowOffBrandOnly] = useState(false);
+  const isFiltered = showOffBrandOnly && offBrandIds.size > 0; // e.g. a rollback can clear them all
+
+  // "Show similar": the chosen asset first, then everything that looks like it
+  const [similarToId, setSimilarToId] = useState<string | null>(null);
+  const similarTo = assets.find(a => a.id === similarToId && a.imageHash) || null;
+  const similar = similarTo ? findSimilar(similarTo.imageHash!, assets.filter(a => a.id !== similarTo.id)) : [];
+  const similarDistance = new Map(similar.map(m => [m.item.id, m.distance]));
+
+  const visibleAssets = similarTo
+    ? [similarTo, ...similar.map(m => m.item)]
+    : isFiltered ? assets.filter(a => offBrandIds.has(a.id)) : assets;
   
+  const clearError = (assetId: string) => setErrors(prev => {
+    const { [assetId]: _, ...rest } = prev;
+    return rest;
+  });
+
   const handleVisualize = async (asset: GeneratedAsset) => {
-    setVisualizingId(asset.id);
+    clearError(asset.id);
     try {
        const hasKey = await window.aistudio.hasSelectedApiKey();
        if (!hasKey) {
            await window.aistudio.openSelectKey();
        }
-       const videoUrl = await generateVisualizationVideo(asset.url, asset.subtype);
-       // Simple hack: We replace the asset URL with video or open in new tab?
-       // Let's open the video in a new tab for now or we need to update state in parent. 
-       // For this demo, I will just open it.
-       window.open(videoUrl, '_blank');
+       const videoUrl = await runJob(
+         { kind: 'visualization', label: `${asset.subtype} visualization`, brandId, targetId: asset.id },
+         ({ signal, setProgress }) => generateVisualizationVideo(asset.url, findSubtype(context, asset).name, {
+           ...context,
+           signal,
+           onProgress: (progress) => setProgress(progress.message),
+           meta: { targetId: asset.id }
+         })
+       );
+       // Stored on the asset, so the video is there even if the gallery was closed meanwhile
+       onUpdateAsset(asset.id, a => ({ ...a, videoUrl }));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      setErrors(prev => ({ ...prev, [asset.id]: e }));
+    }
+  };
+
+  const handleRegenerate = async (asset: GeneratedAsset, index: number) => {
+    const provenance = asset.provenance;
+    if (!provenance) return;
+    if (branchReplacesStudioDrafts(studio, provenance, index) &&
+        !confirm(`The Studio has ${studio.drafts.length} ${studio.subtype} draft(s) in progress. A ${findSubtype(context, provenance).name} draft will replace them. Continue?`)) return;
+    setRegenerateError(null);
+    try {
+      const step = await runJob(
+        { kind: 'regenerate', label: `${asset.subtype} step ${index + 1}`, brandId, targetId: asset.id },
+        () => regenerateStep(provenance, index, context)
+      );
+      const result = branchFromStep(provenance, index, step);
+      if (result.kind === 'asset') onAssetCreated(result.asset);
+      else onDraftCreated(result.draft);
+      setInspectingId(null);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Visualization failed. " + (e as Error).message);
-    } finally {
-      setVisualizingId(null);
+      setRegenerateError(e);
     }
   };
 
@@ -39,48 +110,139 @@ const Gallery: React.FC<GalleryProps> = ({ assets }) => {
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {assets.map((asset) => (
-        <div key={asset.id} className="group relative bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden shadow-lg">
-          {/* Badge */}
-          <div className="absolute top-3 left-3 z-10 flex gap-2">
-            <span className="px-2 py-1 text-xs font-bold bg-black/70 backdrop-blur-md text-white rounded border border-zinc-700 uppercase tracking-wide">
-              {asset.subtype}
-            </span>
-            {!asset.isDraft && <span className="px-2 py-1 text-xs font-bold bg-green-500/20 text-green-300 rounded border border-green-500/30 uppercase">Final</span>}
-          </div>
+    <div className="space-y-4">
+      {similarTo ? (
+        <button
+          onClick={() => setSimilarToId(null)}
+          className="flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg border bg-orange-500/10 border-orange-500/30 text-orange-300"
+        >
+          <ScanSearch className="w-4 h-4" />
+          {similar.length === 0 ? 'Nothing else' : `${similar.length} asset${similar.length === 1 ? '' : 's'}`} similar to this {similarTo.subtype}
+          <X className="w-4 h-4" />
+        </button>
+      ) : offBrandIds.size > 0 && (
+        <button
+          onClick={() => setShowOffBrandOnly(!isFiltered)}
+          className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg border ${isFiltered ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300' : 'border-zinc-800 text-zinc-400 hover:text-white'}`}
+        >
+          <AlertTriangle className="w-4 h-4" />
+          {isFiltered ? 'Showing' : 'Show'} {offBrandIds.size} off-brand asset{offBrandIds.size === 1 ? '' : 's'}
+        </button>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {inspecting && (
+          <ProvenanceView
+            asset={inspecting}
+            inspirations={inspirations}
+            isRegenerating={!!findRunningJob(jobs, brandId, 'regenerate', inspecting.id)}
+            error={regenerateError}
+            onRegenerate={(index) => handleRegenerate(inspecting, index)}
+            onDismissError={() => setRegenerateError(null)}
+            onClose={() => { setInspectingId(null); setRegenerateError(null); }}
+          />
+        )}
+        {visibleAssets.map((asset) => {
+          const visualizeJob = findRunningJob(jobs, brandId, 'visualization', asset.id);
+          return (
+          <div key={asset.id} className="group relative bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden shadow-lg">
+            {/* Badge */}
+            <div className="absolute top-3 left-3 z-10 flex gap-2">
+              <span className="px-2 py-1 text-xs font-bold bg-black/70 backdrop-blur-md text-white rounded border border-zinc-700 uppercase tracking-wide">
+                {asset.subtype}
+              </span>
+              {!asset.isDraft && <span className="px-2 py-1 text-xs font-bold bg-green-500/20 text-green-300 rounded border border-green-500/30 uppercase">Final</span>}
+              {similarDistance.has(asset.id) && (
+                <span className="px-2 py-1 text-xs font-bold bg-orange-500/20 text-orange-300 rounded border border-orange-500/30 uppercase">
+                  {similarDistance.get(asset.id)! <= NEAR_DUPLICATE_DISTANCE ? 'Near-duplicate' : 'Similar'}
+                </span>
+              )}
+              {asset.dnaVersion && (
+                <span
+                  className={`px-2 py-1 text-xs font-bold rounded border uppercase ${offBrandIds.has(asset.id) ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' : 'bg-black/70 text-zinc-400 border-zinc-700'}`}
+                  title={offBrandIds.has(asset.id) ? 'Made under a DNA version whose design has since changed' : 'Made under the current design'}
+                >
+                  DNA v{asset.dnaVersion}
+                </span>
+              )}
+            </div>
 
-          {/* Content */}
-          <div className="aspect-square bg-zinc-950 flex items-center justify-center overflow-hidden">
-             <img src={asset.url} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" />
-          </div>
+            {/* Content */}
+            <div className="aspect-square bg-zinc-950 flex items-center justify-center overflow-hidden">
+               <img src={asset.url} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" />
+            </div>
+
+            {errors[asset.id] !== undefined && (
+              <div className="absolute top-12 left-3 right-3 z-10">
+                <ErrorNotice error={errors[asset.id]} onRetry={() => handleVisualize(asset)} onDismiss={() => clearError(asset.id)} compact />
+              </div>
+            )}
 
-          {/* Actions */}
-          <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black via-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-between items-end">
-             <div className="flex gap-2">
-                 <a 
-                    href={asset.url} 
-                    download={`brand-forge-${asset.subtype}.png`}
-                    className="p-2 bg-white text-black rounded-full hover:bg-zinc-200"
-                    title="Download High Res"
-                 >
-                     <Download className="w-4 h-4" />
-                 </a>
-                 
-                 {(asset.subtype.toLowerCase().includes('hoodie') || asset.subtype.toLowerCase().includes('billboard')) && (
-                   <button 
-                      onClick={() => handleVisualize(asset)}
-                      disabled={visualizingId === asset.id}
-                      className="p-2 bg-purple-600 text-white rounded-full hover:bg-purple-500 disabled:opacity-50"
-                      title="Visualize with Veo"
+            {/* Actions */}
+            <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black via-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-between items-end">
+               <div className="flex gap-2">
+                   <a 
+                      href={asset.url} 
+                      download={`brand-forge-${asset.subtype}.png`}
+                      className="p-2 bg-white text-black rounded-full hover:bg-zinc-200"
+                      title="Download High Res"
                    >
-                       {visualizingId === asset.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Video className="w-4 h-4" />}
+                       <Download className="w-4 h-4" />
+                   </a>
+
+                   <button
+                      onClick={() => setInspectingId(asset.id)}
+                      className="p-2 bg-zinc-800 text-white rounded-full hover:bg-zinc-700"
+                      title="How this was made"
+                   >
+                       <Info className="w-4 h-4" />
                    </button>
-                 )}
-             </div>
+
+                   {asset.imageHash && !similarTo && (
+                     <button
+                        onClick={() => setSimilarToId(asset.id)}
+                        className="p-2 bg-zinc-800 text-white rounded-full hover:bg-zinc-700"
+                        title="Show similar assets"
+                     >
+                         <ScanSearch className="w-4 h-4" />
+                     </button>
+                   )}
+                   
+                   {['apparel', 'billboard'].includes(findSubtype(context, asset).previewScene) && (
+                     <button 
+                        onClick={() => handleVisualize(asset)}
+                        disabled={!!visualizeJob}
+                        className="p-2 bg-purple-600 text-white rounded-full hover:bg-purple-500 disabled:opacity-50"
+                        title="Visualize with Veo"
+                     >
+                         {visualizeJob ? <Loader2 className="w-4 h-4 animate-spin" /> : <Video className="w-4 h-4" />}
+                     </button>
+                   )}
+                   {visualizeJob && (
+                     <button
+                        onClick={() => cancelJob(visualizeJob.id)}
+                        className="p-2 bg-zinc-800 text-zinc-300 rounded-full hover:text-red-400"
+                        title="Cancel visualization"
+                     >
+                         <X className="w-4 h-4" />
+                     </button>
+                   )}
+                   {asset.videoUrl && (
+                     <a
+                        href={asset.videoUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="p-2 bg-zinc-800 text-white rounded-full hover:bg-zinc-700"
+                        title="Play visualization"
+                     >
+                         <Play className="w-4 h-4" />
+                     </a>
+                   )}
+               </div>
+            </div>
           </div>
-        </div>
-      ))}
+          );
+        })}
+      </div>
     </div>
   );
 };
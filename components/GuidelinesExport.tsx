@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { BookOpen, Check, Download, Printer } from 'lucide-react';
+import { BrandDNA, GeneratedAsset } from '../types';
+import { buildGuidelinesHtml, guidelinesFileName } from '../services/brandGuidelines';
+import { downloadText, printHtml } from '../services/download';
+
+interface GuidelinesExportProps {
+  dna: BrandDNA;
+  dnaVersion?: number;
+  assets: GeneratedAsset[];
+}
+
+// Brand book from the DNA plus a hand-picked set of finished assets as
+// example applications. Built in the browser; PDF goes through the print dialog.
+const GuidelinesExport: React.FC<GuidelinesExportProps> = ({ dna, dnaVersion, assets }) => {
+  const finished = assets.filter(a => !a.isDraft);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggle = (id: string) =>
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+  const build = () => buildGuidelinesHtml(dna, {
+    assets: finished.filter(a => selectedIds.includes(a.id)),
+    dnaVersion
+  });
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-white font-medium flex items-center gap-2"><BookOpen className="w-4 h-4 text-orange-500" /> Brand Guidelines</h3>
+        <div className="flex items-center gap-3">
+          <button onClick={() => printHtml(build())} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white">
+            <Printer className="w-3 h-3" /> Print / Save as PDF
+          </button>
+          <button
+            onClick={() => downloadText(build(), guidelinesFileName(dna), 'text/html')}
+            className="flex items-center gap-1 bg-orange-600 hover:bg-orange-500 text-white text-xs font-bold px-3 py-1.5 rounded-lg"
+          >
+            <Download className="w-3 h-3" /> HTML
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-zinc-400">
+        Logo usage, palette with HEX/RGB/CMYK, typography, design system rules and voice, one page each.
+        {finished.length > 0 ? ' Pick finished assets to show as example applications.' : ' Finish assets in the Studio to add example applications.'}
+      </p>
+
+      {finished.length > 0 && (
+        <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+          {finished.map(asset => {
+            const selected = selectedIds.includes(asset.id);
+            return (
+              <button
+                key={asset.id}
+                onClick={() => toggle(asset.id)}
+                className={`relative aspect-square rounded-lg overflow-hidden border-2 ${selected ? 'border-orange-500' : 'border-zinc-800 hover:border-zinc-600'}`}
+                title={asset.subtype}
+              >
+                <img src={asset.url} alt={asset.subtype} className="w-full h-full object-cover" />
+                {selected && (
+                  <span className="absolute top-1 right-1 bg-orange-500 text-white rounded-full p-0.5"><Check className="w-3 h-3" /></span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuidelinesExport;
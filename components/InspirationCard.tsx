@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Pin, Plus, Trash2, X } from 'lucide-react';
+import { Inspiration, MoodBoard } from '../types';
+import { normalizeTag, orderedCues, removeCue, setCue, togglePinnedCue } from '../services/inspirationService';
+
+interface InspirationCardProps {
+  inspiration: Inspiration;
+  moodBoards: MoodBoard[];
+  duplicateOf: Inspiration | null; // An earlier, near-identical inspiration
+  onMergeDuplicate: (keep: Inspiration) => void;
+  onUpdate: (updater: (insp: Inspiration) => Inspiration) => void;
+  onRemove: () => void;
+  onToggleBoard: (boardId: string) => void;
+}
+
+// One inspiration with editable cues, tags and board membership
+const InspirationCard: React.FC<InspirationCardProps> = ({ inspiration: insp, moodBoards, duplicateOf, onMergeDuplicate, onUpdate, onRemove, onToggleBoard }) => {
+  const [editingCue, setEditingCue] = useState<number | null>(null);
+  const [cueDraft, setCueDraft] = useState('');
+  const [newCue, setNewCue] = useState('');
+  const [newTag, setNewTag] = useState('');
+
+  const startEdit = (index: number) => {
+    setEditingCue(index);
+    setCueDraft(insp.extractedCues[index]);
+  };
+
+  const commitEdit = () => {
+    if (editingCue === null) return;
+    const index = editingCue;
+    setEditingCue(null);
+    onUpdate(i => setCue(i, index, cueDraft));
+  };
+
+  const addCue = () => {
+    const cue = newCue.trim();
+    setNewCue('');
+    if (cue && !insp.extractedCues.includes(cue)) onUpdate(i => ({ ...i, extractedCues: [...i.extractedCues, cue] }));
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    setNewTag('');
+    if (tag && !insp.tags.includes(tag)) onUpdate(i => ({ ...i, tags: [...i.tags, tag] }));
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 flex flex-col gap-3 group">
+      <div className="aspect-video rounded-lg overflow-hidden bg-zinc-950 relative">
+        <img src={insp.imageUrl} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+        <button onClick={onRemove} className="absolute top-2 right-2 bg-red-500/80 p-1.5 rounded text-white opacity-0 group-hover:opacity-100 transition-opacity">
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      {duplicateOf && (
+        <div className="flex items-center gap-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-2 text-xs text-yellow-200">
+          <img src={duplicateOf.imageUrl} className="w-8 h-8 rounded object-cover shrink-0" />
+          <span className="flex-1">Near-duplicate: its cues count twice</span>
+          <button onClick={() => onMergeDuplicate(duplicateOf)} className="font-bold hover:text-white" title="Fold this one into the earlier copy">Merge</button>
+        </div>
+      )}
+
+      {insp.description && <p className="text-zinc-500 text-xs italic">"{insp.description}"</p>}
+
+      {/* Cues: click to edit, pin to always send first */}
+      <div className="flex flex-wrap gap-1">
+        {orderedCues(insp).map(cue => {
+          const index = insp.extractedCues.indexOf(cue);
+          const pinned = insp.pinnedCues.includes(cue);
+          return editingCue === index ? (
+            <input
+              key={cue}
+              autoFocus
+              value={cueDraft}
+              onChange={(e) => setCueDraft(e.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitEdit();
+                if (e.key === 'Escape') setEditingCue(null);
+              }}
+              className="text-[10px] uppercase font-bold bg-zinc-950 border border-orange-500 text-orange-300 px-1.5 py-0.5 rounded outline-none w-28"
+            />
+          ) : (
+            <span key={cue} className={`group/cue flex items-center gap-1 text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${pinned ? 'text-white bg-orange-600' : 'text-orange-400 bg-orange-900/20'}`}>
+              <button onClick={() => onUpdate(i => togglePinnedCue(i, cue))} title={pinned ? 'Unpin' : 'Pin: always sent first'}>
+                <Pin className={`w-2.5 h-2.5 ${pinned ? '' : 'opacity-40 hover:opacity-100'}`} />
+              </button>
+              <button onClick={() => startEdit(index)} title="Edit cue">{cue}</button>
+              <button onClick={() => onUpdate(i => removeCue(i, index))} title="Remove cue" className="opacity-0 group-hover/cue:opacity-100">
+                <X className="w-2.5 h-2.5" />
+              </button>
+            </span>
+          );
+        })}
+        <span className="flex items-center gap-1 text-[10px] text-zinc-500">
+          <Plus className="w-2.5 h-2.5" />
+          <input
+            value={newCue}
+            onChange={(e) => setNewCue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addCue()}
+            onBlur={addCue}
+            placeholder="cue"
+            className="bg-transparent outline-none w-16 placeholder:text-zinc-600 text-zinc-300"
+          />
+        </span>
+      </div>
+
+      {/* Tags */}
+      <div className="flex flex-wrap gap-1 items-center">
+        {insp.tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 text-[10px] text-zinc-300 bg-zinc-800 px-1.5 py-0.5 rounded-full">
+            #{tag}
+            <button onClick={() => onUpdate(i => ({ ...i, tags: i.tags.filter(t => t !== tag) }))} className="text-zinc-500 hover:text-white">
+              <X className="w-2.5 h-2.5" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTag()}
+          onBlur={addTag}
+          placeholder="#tag"
+          className="bg-transparent outline-none w-16 text-[10px] placeholder:text-zinc-600 text-zinc-300"
+        />
+      </div>
+
+      {moodBoards.length > 0 && (
+        <div className="flex flex-wrap gap-1 border-t border-zinc-800 pt-2">
+          {moodBoards.map(board => {
+            const member = board.inspirationIds.includes(insp.id);
+            return (
+              <button
+                key={board.id}
+                onClick={() => onToggleBoard(board.id)}
+                className={`text-[10px] px-1.5 py-0.5 rounded border ${member ? 'border-orange-500 text-white bg-orange-500/10' : 'border-zinc-800 text-zinc-500 hover:text-white'}`}
+              >
+                {board.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspirationCard;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { Inspiration, InspirationWeight } from '../types';
+import { INSPIRATION_WEIGHTS, getInspirationWeight, weighInspirations } from '../services/inspirationService';
+
+interface InspirationPickerProps {
+  inspirations: Inspiration[];
+  weights: Record<string, InspirationWeight>;
+  onChange: (weights: Record<string, InspirationWeight>) => void;
+}
+
+const WEIGHT_STYLES: Record<InspirationWeight, string> = {
+  strong: 'bg-orange-600 text-white',
+  subtle: 'bg-zinc-700 text-white',
+  off: 'bg-zinc-800 text-zinc-500'
+};
+
+// Which inspirations feed the next Studio run, and how strongly
+const InspirationPicker: React.FC<InspirationPickerProps> = ({ inspirations, weights, onChange }) => {
+  if (inspirations.length === 0) return null;
+
+  const { strong, subtle } = weighInspirations(inspirations, weights);
+  const setWeight = (id: string, weight: InspirationWeight) => onChange({ ...weights, [id]: weight });
+  const setAll = (weight: InspirationWeight) => onChange(Object.fromEntries(inspirations.map(i => [i.id, weight])));
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 mb-6 text-left space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-medium text-white flex items-center gap-2">
+          <Lightbulb className="w-4 h-4 text-orange-500" /> Inspirations for this run
+          <span className="text-xs text-zinc-500 font-normal">{strong.length} strong · {subtle.length} subtle</span>
+        </h3>
+        <div className="flex gap-2 text-xs">
+          {INSPIRATION_WEIGHTS.map(({ weight, label }) => (
+            <button key={weight} onClick={() => setAll(weight)} className="text-zinc-500 hover:text-white">All {label.toLowerCase()}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+        {inspirations.map(insp => {
+          const current = getInspirationWeight(weights, insp.id);
+          return (
+            <div key={insp.id} className="space-y-1">
+              <img
+                src={insp.imageUrl}
+                title={insp.extractedCues.join(', ')}
+                className={`w-full aspect-square object-cover rounded-lg border border-zinc-800 transition-opacity ${current === 'off' ? 'opacity-30' : ''}`}
+              />
+              <div className="flex rounded-md overflow-hidden border border-zinc-800">
+                {INSPIRATION_WEIGHTS.map(({ weight, label, description }) => (
+                  <button
+                    key={weight}
+                    onClick={() => setWeight(insp.id, weight)}
+                    title={description}
+                    className={`flex-1 py-0.5 text-[10px] font-bold uppercase ${current === weight ? WEIGHT_STYLES[weight] : 'text-zinc-500 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default InspirationPicker;
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Upload, Loader2, Link, Check, Clock, Copy } from 'lucide-react';
+import { Inspiration, MoodBoard } from '../types';
+import { BrandContext } from '../services/generationContext';
+import {
+  ImportItem, ImportSource, addDuplicateAnyway, clearFinishedImports, dismissImport, imageFileSources, importInspirations, mergeImport,
+  retryImport, urlSources, useImports
+} from '../services/inspirationImport';
+import ErrorNotice from './ErrorNotice';
+
+interface InspirationUploaderProps {
+  context: BrandContext;
+  board: MoodBoard | null;
+  inspirations: Inspiration[];
+  onAddInspiration: (insp: Inspiration, boardId: string | null) => void;
+  // A near-duplicate the user chose to merge: the existing one takes its note and board
+  onMergeDuplicate: (existingId: string, note: string, boardId: string | null) => void;
+}
+
+const STATUS_LABELS: Record<ImportItem['status'], string> = {
+  queued: 'Waiting',
+  loading: 'Loading',
+  analyzing: 'Extracting cues',
+  duplicate: 'Duplicate',
+  done: 'Added',
+  failed: 'Failed'
+};
+
+// Don't hijack a paste meant for a text field
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Drop, paste, pick or link any number of images; each is downscaled and analysed in the background
+const InspirationUploader: React.FC<InspirationUploaderProps> = ({ context, board, inspirations, onAddInspiration, onMergeDuplicate }) => {
+  const [note, setNote] = useState('');
+  const [urls, setUrls] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const imports = useImports().filter(i => i.brandId === context.brandId);
+  const pending = imports.filter(i => i.status === 'queued' || i.status === 'loading' || i.status === 'analyzing').length;
+
+  const start = (sources: ImportSource[]) => {
+    if (sources.length === 0) return;
+    importInspirations(sources, {
+      brandId: context.brandId,
+      context,
+      note,
+      boardId: board?.id || null,
+      existing: inspirations,
+      onAdd: onAddInspiration,
+      onMerge: onMergeDuplicate
+    });
+    setNote('');
+  };
+
+  // Paste an image (or image URLs) anywhere on the page
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = imageFileSources(e.clipboardData?.files);
+      const links = isTextField(e.target) ? [] : urlSources(e.clipboardData?.getData('text') || '');
+      if (files.length === 0 && links.length === 0) return;
+      e.preventDefault();
+      start([...files, ...links]);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = imageFileSources(e.dataTransfer.files);
+    // Images dragged from another browser tab arrive as links
+    start(files.length > 0 ? files : urlSources(e.dataTransfer.getData('text/uri-list') || e.dataTransfer.getData('text')));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    start(imageFileSources(e.target.files));
+    e.target.value = '';
+  };
+
+  const handleImportUrls = () => {
+    start(urlSources(urls));
+    setUrls('');
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-dashed border-zinc-700 rounded-xl p-6 flex flex-col gap-4">
+      <h3 className="text-white font-medium flex items-center gap-2">
+        <Plus className="w-4 h-4 text-orange-500" /> New Inspirations
+        {board && <span className="text-xs text-zinc-500 font-normal truncate">in {board.name}</span>}
+      </h3>
+
+      <label
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex-1 flex flex-col items-center justify-center gap-1 bg-zinc-950 border rounded-lg cursor-pointer hover:bg-zinc-900 transition-colors min-h-[140px] text-center px-4 ${isDragging ? 'border-orange-500' : 'border-zinc-800'}`}
+      >
+        <Upload className="w-8 h-8 text-zinc-600 mb-1" />
+        <span className="text-xs text-zinc-500">Drop images, paste, or click to choose</span>
+        <span className="text-[10px] text-zinc-600">Large images are downscaled before upload</span>
+        <input type="file" accept="image/*" multiple onChange={handleFileChange} className="hidden" />
+      </label>
+
+      <div className="flex gap-2">
+        <textarea
+          value={urls}
+          onChange={(e) => setUrls(e.target.value)}
+          placeholder="Image URLs, one per line"
+          className="flex-1 bg-zinc-950 border border-zinc-800 rounded p-2 text-xs text-white resize-none h-14 outline-none focus:border-orange-500"
+        />
+        <button
+          onClick={handleImportUrls}
+          disabled={urlSources(urls).length === 0}
+          title="Import from URL"
+          className="px-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded text-white"
+        >
+          <Link className="w-4 h-4" />
+        </button>
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Why do you like these? (e.g. 'Love the neon glow') Applies to the next images you add."
+        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-sm text-white resize-none h-16 outline-none focus:border-orange-500"
+      />
+
+      {imports.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-zinc-500">
+            <span>{pending > 0 ? `${pending} in progress` : 'Import finished'}</span>
+            {imports.some(i => i.status === 'done') && (
+              <button onClick={() => clearFinishedImports(context.brandId)} className="hover:text-white">Clear finished</button>
+            )}
+          </div>
+          {imports.map(item => item.status === 'failed' ? (
+            <div key={item.id} className="space-y-1">
+              <p className="text-[10px] text-zinc-500 truncate" title={item.label}>{item.label}</p>
+              <ErrorNotice error={item.error} onRetry={() => retryImport(item.id)} onDismiss={() => dismissImport(item.id)} compact />
+            </div>
+          ) : item.status === 'duplicate' && item.duplicateOf ? (
+            <div key={item.id} className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-2 space-y-2 text-xs">
+              <div className="flex items-center gap-2">
+                <img src={item.preview} className="w-8 h-8 rounded object-cover shrink-0" />
+                <Copy className="w-3 h-3 text-yellow-300 shrink-0" />
+                <img src={item.duplicateOf.imageUrl} className="w-8 h-8 rounded object-cover shrink-0" />
+                <span className="flex-1 min-w-0 text-yellow-200">Looks like an inspiration you already have</span>
+              </div>
+              <div className="flex gap-3 font-bold">
+                <button onClick={() => mergeImport(item.id)} className="text-yellow-200 hover:text-white" title="Keep the existing one, with this note and board">Merge</button>
+                <button onClick={() => addDuplicateAnyway(item.id)} className="text-zinc-400 hover:text-white">Add anyway</button>
+                <button onClick={() => dismissImport(item.id)} className="text-zinc-400 hover:text-white">Skip</button>
+              </div>
+            </div>
+          ) : (
+            <div key={item.id} className="flex items-center gap-2 text-xs">
+              <div className="w-8 h-8 rounded bg-zinc-950 border border-zinc-800 overflow-hidden shrink-0">
+                {item.preview && <img src={item.preview} className="w-full h-full object-cover" />}
+              </div>
+              <span className="flex-1 min-w-0 truncate text-zinc-300" title={item.label}>{item.label}</span>
+              <span className={`flex items-center gap-1 shrink-0 ${item.status === 'done' ? 'text-green-500' : 'text-zinc-500'}`}>
+                {item.status === 'queued' && <Clock className="w-3 h-3" />}
+                {(item.status === 'loading' || item.status === 'analyzing') && <Loader2 className="w-3 h-3 animate-spin" />}
+                {item.status === 'done' && <Check className="w-3 h-3" />}
+                {STATUS_LABELS[item.status]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspirationUploader;
@@ -1,112 +1,189 @@
 import React, { useState } from 'react';
-import { Inspiration } from '../types';
-import { analyzeInspiration } from '../services/geminiService';
-import { Plus, Upload, Loader2, Trash2 } from 'lucide-react';
+import { Inspiration, MoodBoard } from '../types';
+import {
+  addNote, allTags, createMoodBoard, getBoardInspirations, mergeInspirations, replaceInBoards, searchInspirations, toggleBoardInspiration
+} from '../services/inspirationService';
+import { findNearDuplicate } from '../services/imageHash';
+import { Trash2, Search, FolderPlus, Pencil, Palette, Film, Check } from 'lucide-react';
+import { BrandContext } from '../services/generationContext';
+import InspirationCard from './InspirationCard';
+import InspirationUploader from './InspirationUploader';
 
 interface InspirationsProps {
+  context: BrandContext;
   inspirations: Inspiration[];
-  onAddInspiration: (insp: Inspiration) => void;
+  moodBoards: MoodBoard[];
+  onAddInspiration: (insp: Inspiration, boardId: string | null) => void;
+  onUpdateInspiration: (id: string, updater: (insp: Inspiration) => Inspiration) => void;
   onRemoveInspiration: (id: string) => void;
+  onUpdateBoards: (updater: (boards: MoodBoard[]) => MoodBoard[]) => void;
+  onStartStudio: (boardId: string) => void;
+  onStartAds: (boardId: string) => void;
 }
 
-const Inspirations: React.FC<InspirationsProps> = ({ inspirations, onAddInspiration, onRemoveInspiration }) => {
-  const [isUploading, setIsUploading] = useState(false);
-  const [preview, setPreview] = useState<string | null>(null);
-  const [note, setNote] = useState('');
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => setPreview(reader.result as string);
-      reader.readAsDataURL(file);
-    }
+const Inspirations: React.FC<InspirationsProps> = ({
+  context, inspirations, moodBoards, onAddInspiration, onUpdateInspiration, onRemoveInspiration, onUpdateBoards, onStartStudio, onStartAds
+}) => {
+  // Browsing
+  const [activeBoardId, setActiveBoardId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [boardName, setBoardName] = useState<string | null>(null); // Naming a new board, or renaming the active one
+
+  const activeBoard = moodBoards.find(b => b.id === activeBoardId) || null;
+  const onBoard = activeBoard ? getBoardInspirations(activeBoard, inspirations) : inspirations;
+  const tags = allTags(inspirations);
+  const shown = searchInspirations(onBoard, query).filter(i => !activeTag || i.tags.includes(activeTag));
+
+  // Flagged on the later copy, so merging keeps the original
+  const duplicateOf = (insp: Inspiration) =>
+    insp.imageHash ? findNearDuplicate(insp.imageHash, inspirations.slice(0, inspirations.indexOf(insp))) : null;
+
+  const handleMergeDuplicate = (existingId: string, note: string, boardId: string | null) => {
+    onUpdateInspiration(existingId, i => addNote(i, note));
+    if (boardId) onUpdateBoards(boards => boards.map(b => b.id === boardId && !b.inspirationIds.includes(existingId) ? toggleBoardInspiration(b, existingId) : b));
+  };
+
+  // Keeps the older of two near-identical inspirations, with the cues, tags and boards of both
+  const handleMergeInspirations = (keep: Inspiration, duplicate: Inspiration) => {
+    onUpdateInspiration(keep.id, i => mergeInspirations(i, duplicate));
+    onUpdateBoards(boards => replaceInBoards(boards, duplicate.id, keep.id));
+    onRemoveInspiration(duplicate.id);
   };
 
-  const handleAnalyze = async () => {
-    if (!preview) return;
-    setIsUploading(true);
-    try {
-      const cues = await analyzeInspiration(preview, note);
-      const newInsp: Inspiration = {
-        id: crypto.randomUUID(),
-        imageUrl: preview,
-        description: note,
-        extractedCues: cues
-      };
-      onAddInspiration(newInsp);
-      setPreview(null);
-      setNote('');
-    } catch (e) {
-      console.error(e);
-      alert("Failed to analyze image");
-    } finally {
-      setIsUploading(false);
+  const handleSaveBoardName = () => {
+    if (boardName === null) return;
+    if (activeBoard) {
+      const name = boardName.trim() || activeBoard.name;
+      onUpdateBoards(boards => boards.map(b => b.id === activeBoard.id ? { ...b, name } : b));
+    } else if (boardName.trim()) {
+      const board = createMoodBoard(boardName);
+      onUpdateBoards(boards => [...boards, board]);
+      setActiveBoardId(board.id);
     }
+    setBoardName(null);
   };
 
+  const handleDeleteBoard = (board: MoodBoard) => {
+    if (!confirm(`Delete the board "${board.name}"? Its inspirations stay in the brand.`)) return;
+    onUpdateBoards(boards => boards.filter(b => b.id !== board.id));
+    setActiveBoardId(null);
+  };
+
+  const boardTab = (id: string | null, label: string, count: number) => (
+    <button
+      key={id || 'all'}
+      onClick={() => { setActiveBoardId(id); setBoardName(null); }}
+      className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${activeBoardId === id ? 'border-orange-500 text-white bg-orange-500/10' : 'border-zinc-800 text-zinc-400 hover:text-white'}`}
+    >
+      {label} <span className="text-zinc-500 font-normal">{count}</span>
+    </button>
+  );
+
   return (
-    <div className="max-w-6xl mx-auto h-full flex flex-col gap-8">
-      <div className="flex items-center justify-between">
+    <div className="max-w-6xl mx-auto h-full flex flex-col gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
          <div>
             <h2 className="text-2xl font-bold text-white">Inspiration Board</h2>
-            <p className="text-zinc-400 text-sm">Upload images to extract style cues for your assets.</p>
+            <p className="text-zinc-400 text-sm">Drop, paste or link images to extract style cues for your assets. Group them into mood boards to steer a Studio run or an ad.</p>
          </div>
+         <label className="flex items-center gap-2 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 w-64 focus-within:border-orange-500">
+           <Search className="w-4 h-4 text-zinc-500" />
+           <input
+             value={query}
+             onChange={(e) => setQuery(e.target.value)}
+             placeholder="Search notes, cues and tags"
+             className="bg-transparent outline-none text-sm text-white flex-1 min-w-0"
+           />
+         </label>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {/* Upload Card */}
-        <div className="bg-zinc-900 border border-dashed border-zinc-700 rounded-xl p-6 flex flex-col gap-4">
-          <h3 className="text-white font-medium flex items-center gap-2"><Plus className="w-4 h-4 text-orange-500" /> New Inspiration</h3>
-          
-          {!preview ? (
-            <label className="flex-1 flex flex-col items-center justify-center bg-zinc-950 border border-zinc-800 rounded-lg cursor-pointer hover:bg-zinc-900 transition-colors min-h-[200px]">
-              <Upload className="w-8 h-8 text-zinc-600 mb-2" />
-              <span className="text-xs text-zinc-500">Click to upload image</span>
-              <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
-            </label>
+      {/* Mood boards */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {boardTab(null, 'All', inspirations.length)}
+          {moodBoards.map(b => boardTab(b.id, b.name, getBoardInspirations(b, inspirations).length))}
+          {boardName !== null ? (
+            <span className="flex items-center gap-1">
+              <input
+                autoFocus
+                value={boardName}
+                onChange={(e) => setBoardName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveBoardName();
+                  if (e.key === 'Escape') setBoardName(null);
+                }}
+                placeholder={activeBoard ? 'Board name' : 'e.g. Summer drop'}
+                className="bg-zinc-950 border border-orange-500 rounded-lg px-2 py-1 text-xs text-white outline-none w-40"
+              />
+              <button onClick={handleSaveBoardName} className="p-1 text-orange-500 hover:text-orange-400"><Check className="w-4 h-4" /></button>
+            </span>
           ) : (
-            <div className="relative aspect-square rounded-lg overflow-hidden border border-zinc-700">
-               <img src={preview} className="w-full h-full object-cover" />
-               <button onClick={() => setPreview(null)} className="absolute top-2 right-2 bg-black/50 p-1 rounded-full text-white"><Trash2 className="w-4 h-4" /></button>
-            </div>
+            <button onClick={() => { setActiveBoardId(null); setBoardName(''); }} className="flex items-center gap-1 px-2 py-1.5 text-xs text-orange-500 hover:text-orange-400">
+              <FolderPlus className="w-4 h-4" /> New board
+            </button>
           )}
+        </div>
 
-          <textarea 
-            value={note}
-            onChange={(e) => setNote(e.target.value)}
-            placeholder="Why do you like this? (e.g. 'Love the neon glow')"
-            className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-sm text-white resize-none h-20 outline-none focus:border-orange-500"
-          />
+        {activeBoard && boardName === null && (
+          <div className="flex flex-wrap items-center gap-4 text-xs">
+            <button onClick={() => onStartStudio(activeBoard.id)} disabled={onBoard.length === 0} className="flex items-center gap-1 bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white font-bold px-3 py-1.5 rounded-lg">
+              <Palette className="w-3 h-3" /> Start in Studio
+            </button>
+            <button onClick={() => onStartAds(activeBoard.id)} disabled={onBoard.length === 0} className="flex items-center gap-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white font-bold px-3 py-1.5 rounded-lg">
+              <Film className="w-3 h-3" /> Start an Ad
+            </button>
+            <button onClick={() => setBoardName(activeBoard.name)} className="flex items-center gap-1 text-zinc-400 hover:text-white">
+              <Pencil className="w-3 h-3" /> Rename
+            </button>
+            <button onClick={() => handleDeleteBoard(activeBoard)} className="flex items-center gap-1 text-zinc-400 hover:text-red-400">
+              <Trash2 className="w-3 h-3" /> Delete board
+            </button>
+          </div>
+        )}
 
-          <button 
-            onClick={handleAnalyze}
-            disabled={!preview || isUploading}
-            className="w-full bg-white text-black font-bold py-2 rounded hover:bg-zinc-200 disabled:opacity-50 flex justify-center"
-          >
-            {isUploading ? <Loader2 className="animate-spin w-4 h-4" /> : "Extract Cues"}
-          </button>
-        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`text-[10px] px-2 py-0.5 rounded-full ${activeTag === tag ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Upload Card */}
+        <InspirationUploader
+          context={context}
+          board={activeBoard}
+          inspirations={inspirations}
+          onAddInspiration={onAddInspiration}
+          onMergeDuplicate={handleMergeDuplicate}
+        />
 
         {/* List */}
-        {inspirations.map((insp) => (
-           <div key={insp.id} className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 flex flex-col gap-3 group">
-              <div className="aspect-video rounded-lg overflow-hidden bg-zinc-950 relative">
-                 <img src={insp.imageUrl} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
-                 <button onClick={() => onRemoveInspiration(insp.id)} className="absolute top-2 right-2 bg-red-500/80 p-1.5 rounded text-white opacity-0 group-hover:opacity-100 transition-opacity">
-                    <Trash2 className="w-3 h-3" />
-                 </button>
-              </div>
-              <div>
-                  <div className="flex flex-wrap gap-1 mb-2">
-                     {insp.extractedCues.map((cue, i) => (
-                        <span key={i} className="text-[10px] uppercase font-bold text-orange-400 bg-orange-900/20 px-1.5 py-0.5 rounded">{cue}</span>
-                     ))}
-                  </div>
-                  <p className="text-zinc-500 text-xs italic">"{insp.description}"</p>
-              </div>
-           </div>
+        {shown.map((insp) => (
+          <InspirationCard
+            key={insp.id}
+            inspiration={insp}
+            moodBoards={moodBoards}
+            duplicateOf={duplicateOf(insp)}
+            onMergeDuplicate={(keep) => handleMergeInspirations(keep, insp)}
+            onUpdate={(updater) => onUpdateInspiration(insp.id, updater)}
+            onRemove={() => onRemoveInspiration(insp.id)}
+            onToggleBoard={(boardId) => onUpdateBoards(boards => boards.map(b => b.id === boardId ? toggleBoardInspiration(b, insp.id) : b))}
+          />
         ))}
+
+        {shown.length === 0 && onBoard.length > 0 && (
+          <p className="md:col-span-2 self-center text-sm text-zinc-500">Nothing matches {query ? `"${query}"` : ''}{activeTag ? ` #${activeTag}` : ''}.</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { ListTodo, Loader2, CheckCircle2, AlertCircle, XCircle, X, ChevronDown, Image as ImageIcon, Wand2, Sparkles, Video, Film, RefreshCw } from 'lucide-react';
+import { BrandWorkspace } from '../types';
+import { getBrandLabel } from '../services/workspaceService';
+import { cancelJob, clearFinishedJobs, dismissJob, Job, JobKind, useJobs } from '../services/jobQueue';
+
+interface JobQueuePanelProps {
+  brands: BrandWorkspace[];
+  onOpenJob: (job: Job) => void;
+}
+
+const KIND_ICONS: Record<JobKind, React.ElementType> = {
+  'draft': ImageIcon,
+  'edit': Wand2,
+  'finalize': Sparkles,
+  'preview': Video,
+  'visualization': Video,
+  'regenerate': RefreshCw,
+  'ad-video': Film
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const StatusIcon: React.FC<{ job: Job }> = ({ job }) => {
+  switch (job.status) {
+    case 'running': return <Loader2 className="w-4 h-4 text-orange-500 animate-spin shrink-0" />;
+    case 'succeeded': return <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />;
+    case 'failed': return <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />;
+    case 'cancelled': return <XCircle className="w-4 h-4 text-zinc-500 shrink-0" />;
+  }
+};
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ brands, onOpenJob }) => {
+  const jobs = useJobs();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const runningCount = jobs.filter(j => j.status === 'running').length;
+  const failedCount = jobs.filter(j => j.status === 'failed').length;
+
+  // Tick the elapsed timers while anything is running
+  useEffect(() => {
+    if (runningCount === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [runningCount]);
+
+  if (jobs.length === 0) return null;
+
+  const brandName = (brandId: string) => {
+    const brand = brands.find(b => b.id === brandId);
+    return brand ? getBrandLabel(brand) : 'Deleted brand';
+  };
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80">
+      {isOpen && (
+        <div className="mb-2 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+            <span className="text-sm font-bold text-white">Jobs</span>
+            {jobs.length > runningCount && (
+              <button onClick={clearFinishedJobs} className="text-xs text-zinc-500 hover:text-white">Clear finished</button>
+            )}
+          </div>
+          <div className="max-h-80 overflow-y-auto divide-y divide-zinc-800">
+            {jobs.map(job => {
+              const KindIcon = KIND_ICONS[job.kind];
+              const elapsed = (job.finishedAt ?? now) - job.startedAt;
+              return (
+                <div key={job.id} className="group px-4 py-3 flex gap-3 hover:bg-zinc-800/50">
+                  <StatusIcon job={job} />
+                  <button onClick={() => onOpenJob(job)} className="flex-1 min-w-0 text-left">
+                    <div className="flex items-center gap-1.5">
+                      <KindIcon className="w-3 h-3 text-zinc-500 shrink-0" />
+                      <span className="text-sm text-zinc-200 truncate">{job.label}</span>
+                    </div>
+                    <p className="text-xs text-zinc-500 truncate">
+                      {brandName(job.brandId)} · {formatDuration(elapsed)}
+                      {job.status === 'running' && job.progress && ` · ${job.progress}`}
+                      {job.status === 'cancelled' && ' · Cancelled'}
+                    </p>
+                    {job.error && <p className="text-xs text-red-400 mt-1 line-clamp-2">{job.error}</p>}
+                  </button>
+                  {job.status === 'running' ? (
+                    <button onClick={() => cancelJob(job.id)} title="Cancel" className="p-1 text-zinc-500 hover:text-red-400 self-start">
+                      <XCircle className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => dismissJob(job.id)} title="Dismiss" className="p-1 text-zinc-600 hover:text-white self-start opacity-0 group-hover:opacity-100">
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="ml-auto flex items-center gap-2 px-4 py-2 bg-zinc-900 border border-zinc-700 rounded-full shadow-lg text-sm text-zinc-300 hover:text-white hover:border-zinc-600"
+      >
+        {runningCount > 0 ? <Loader2 className="w-4 h-4 text-orange-500 animate-spin" /> : <ListTodo className="w-4 h-4" />}
+        {runningCount > 0 ? `${runningCount} running` : `${jobs.length} job${jobs.length === 1 ? '' : 's'}`}
+        {failedCount > 0 && <span className="px-1.5 rounded bg-red-500/20 text-red-400 text-xs font-bold">{failedCount} failed</span>}
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? '' : 'rotate-180'}`} />
+      </button>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
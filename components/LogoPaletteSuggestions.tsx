@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle, Plus } from 'lucide-react';
+import { PaletteSwatch, findPaletteConflicts } from '../services/logoPalette';
+
+interface LogoPaletteSuggestionsProps {
+  swatches: PaletteSwatch[];
+  palette: string[];
+  onAdd: (hex: string) => void;
+}
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+// The logo's own colors next to the DNA palette, with a warning for prominent
+// logo colors the palette has nothing close to
+const LogoPaletteSuggestions: React.FC<LogoPaletteSuggestionsProps> = ({ swatches, palette, onAdd }) => {
+  const conflicts = findPaletteConflicts(palette, swatches);
+  const inPalette = (hex: string) => palette.includes(hex);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs uppercase font-bold text-zinc-500">From your logo</p>
+      <div className="flex flex-wrap gap-2">
+        {swatches.map(s => (
+          <div key={s.hex} className="flex items-center gap-2 bg-zinc-950 border border-zinc-800 rounded-lg pl-1 pr-2 py-1">
+            <span className="w-6 h-6 rounded border border-zinc-700" style={{ backgroundColor: s.hex }} />
+            <span className="text-xs font-mono text-zinc-300">{s.hex}</span>
+            <span className="text-xs text-zinc-500">{formatShare(s.share)}{s.isBackground && ' · background'}</span>
+            {!inPalette(s.hex) && (
+              <button onClick={() => onAdd(s.hex)} className="text-zinc-500 hover:text-white" title="Add to palette">
+                <Plus className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {conflicts.length > 0 && (
+        <div className="flex items-start gap-2 text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <div className="space-y-1">
+            <p className="font-semibold">The palette doesn't match the logo</p>
+            {conflicts.map(({ swatch, nearest }) => (
+              <p key={swatch.hex}>
+                {swatch.hex} covers {formatShare(swatch.share)} of the logo
+                {nearest ? `, and the closest palette color (${nearest}) is noticeably different.` : ', but the palette is empty.'}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogoPaletteSuggestions;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Cpu, FlaskConical, RotateCcw } from 'lucide-react';
+import { ModelRole, ModelRoleConfig, WorkspaceSettings } from '../types';
+import { DEFAULT_MODELS, KNOWN_MODELS, MODEL_ROLES, ModelDefaultField, getModelLabel, resolveModels } from '../services/modelRegistry';
+import { summarizeUsage, useUsage } from '../services/usageService';
+
+interface ModelSettingsProps {
+  brandId: string;
+  settings: WorkspaceSettings;
+  onUpdateSettings: (updater: (settings: WorkspaceSettings) => WorkspaceSettings) => void;
+}
+
+const FIELD_LABELS: Record<ModelDefaultField, string> = {
+  imageSize: 'Image size',
+  aspectRatio: 'Aspect ratio',
+  resolution: 'Resolution'
+};
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-white text-sm outline-none focus:border-orange-500";
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ brandId, settings, onUpdateSettings }) => {
+  const { records } = useUsage();
+  const resolved = resolveModels(settings.models);
+  const test = settings.modelTest;
+
+  const setOverride = (role: ModelRole, field: keyof ModelRoleConfig, value: string) => {
+    onUpdateSettings(s => ({ ...s, models: { ...s.models, [role]: { ...s.models[role], [field]: value || undefined } } }));
+  };
+
+  const resetRole = (role: ModelRole) => {
+    onUpdateSettings(s => {
+      const { [role]: _, ...models } = s.models;
+      return { ...s, models };
+    });
+  };
+
+  // A/B comparison from this brand's usage ledger
+  const testActions = MODEL_ROLES.find(r => r.role === test?.role)?.actions || [];
+  const testRecords = test
+    ? records.filter(r => r.brandId === brandId && testActions.includes(r.action) && [resolved[test.role].model, test.candidate].includes(r.model))
+    : [];
+  const testRows = summarizeUsage(testRecords, r => r.model);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Cpu className="w-6 h-6 text-orange-500" /> Models</h2>
+        <p className="text-zinc-400 text-sm">Which model this brand uses for each job. Empty fields fall back to the defaults.</p>
+      </div>
+
+      <datalist id="known-models">
+        {Object.entries(KNOWN_MODELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+      </datalist>
+
+      <div className="space-y-4">
+        {MODEL_ROLES.map(({ role, label, description, fields }) => {
+          const overrides = settings.models[role] || {};
+          const isOverridden = Object.values(overrides).some(Boolean);
+          return (
+            <section key={role} className="bg-zinc-900 border border-zinc-800 rounded-xl p-5">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-white font-semibold">{label}</h3>
+                  <p className="text-xs text-zinc-500">{description}</p>
+                </div>
+                {isOverridden && (
+                  <button onClick={() => resetRole(role)} className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white">
+                    <RotateCcw className="w-3 h-3" /> Use defaults
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="block">
+                  <span className="text-xs uppercase font-bold text-zinc-500">Model</span>
+                  <input
+                    list="known-models"
+                    value={overrides.model || ''}
+                    onChange={(e) => setOverride(role, 'model', e.target.value)}
+                    placeholder={DEFAULT_MODELS[role].model}
+                    className={`${inputClass} mt-1 font-mono`}
+                  />
+                  <span className="text-xs text-zinc-600">{getModelLabel(resolved[role].model)}</span>
+                </label>
+                {fields.map(field => (
+                  <label key={field} className="block">
+                    <span className="text-xs uppercase font-bold text-zinc-500">{FIELD_LABELS[field]}</span>
+                    <input
+                      value={overrides[field] || ''}
+                      onChange={(e) => setOverride(role, field, e.target.value)}
+                      placeholder={DEFAULT_MODELS[role][field]}
+                      className={`${inputClass} mt-1`}
+                    />
+                  </label>
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+
+      {/* A/B test */}
+      <section className="bg-zinc-900 border border-zinc-800 rounded-xl p-5">
+        <h3 className="text-white font-semibold flex items-center gap-2"><FlaskConical className="w-4 h-4 text-orange-500" /> A/B comparison</h3>
+        <p className="text-xs text-zinc-500 mb-4">
+          Split one role between its model (A) and a candidate (B). Drafts alternate variations between A and B; other jobs alternate call by call.
+          Drafts and finalized assets are labelled with the model that made them.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-xs uppercase font-bold text-zinc-500">Role</span>
+            <select
+              value={test?.role || ''}
+              onChange={(e) => onUpdateSettings(s => ({
+                ...s,
+                modelTest: e.target.value ? { role: e.target.value as ModelRole, candidate: s.modelTest?.candidate || '' } : null
+              }))}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="">Off</option>
+              {MODEL_ROLES.map(r => <option key={r.role} value={r.role}>{r.label}</option>)}
+            </select>
+          </label>
+          {test && (
+            <label className="block">
+              <span className="text-xs uppercase font-bold text-zinc-500">Candidate (B)</span>
+              <input
+                list="known-models"
+                value={test.candidate}
+                onChange={(e) => onUpdateSettings(s => ({ ...s, modelTest: s.modelTest && { ...s.modelTest, candidate: e.target.value.trim() } }))}
+                placeholder="Model id"
+                className={`${inputClass} mt-1 font-mono`}
+              />
+              <span className="text-xs text-zinc-600">A is {getModelLabel(resolved[test.role].model)}</span>
+            </label>
+          )}
+        </div>
+
+        {test && testRows.length > 0 && (
+          <table className="w-full text-sm text-zinc-300 mt-6">
+            <thead>
+              <tr className="text-xs uppercase text-zinc-500 border-b border-zinc-800">
+                <th className="py-2 px-3 text-left">Model</th>
+                <th className="py-2 px-3 text-right">Calls</th>
+                <th className="py-2 px-3 text-right">Est. cost</th>
+                <th className="py-2 px-3 text-right">Per call</th>
+              </tr>
+            </thead>
+            <tbody>
+              {testRows.map(row => (
+                <tr key={row.key} className="border-b border-zinc-800/50">
+                  <td className="py-2 px-3">
+                    <span className="text-orange-400 font-bold mr-2">{row.key === test.candidate ? 'B' : 'A'}</span>
+                    {getModelLabel(row.key)}
+                  </td>
+                  <td className="py-2 px-3 text-right">{row.calls}</td>
+                  <td className="py-2 px-3 text-right">{formatCost(row.cost)}</td>
+                  <td className="py-2 px-3 text-right">{formatCost(row.cost / row.calls)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ModelSettings;
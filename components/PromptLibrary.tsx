@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ScrollText, Save, RotateCcw, History, AlertTriangle } from 'lucide-react';
+import { PromptTemplateOverride } from '../types';
+import {
+  PROMPT_TEMPLATES, PROMPT_TEMPLATE_GROUPS, PromptTemplate,
+  saveTemplateVersion, setTemplateOverrideActive
+} from '../services/promptTemplates';
+
+type TemplateOverrides = Record<string, PromptTemplateOverride>;
+
+interface PromptLibraryProps {
+  templates: TemplateOverrides;
+  onUpdateTemplates: (updater: (templates: TemplateOverrides) => TemplateOverrides) => void;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const latestVersion = (override?: PromptTemplateOverride) => override?.versions[override.versions.length - 1];
+
+interface TemplateEditorProps {
+  template: PromptTemplate;
+  override?: PromptTemplateOverride;
+  onUpdateTemplates: PromptLibraryProps['onUpdateTemplates'];
+}
+
+// Keyed by template id in PromptLibrary, so the draft text resets on selection
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, override, onUpdateTemplates }) => {
+  const latest = latestVersion(override);
+  const inUse = override?.active && latest ? latest.body : template.body;
+  const [text, setText] = useState(inUse);
+
+  const isDirty = text !== inUse;
+  const unknownVariables = [...new Set([...text.matchAll(PLACEHOLDER)].map(m => m[1]))].filter(v => !template.variables.includes(v));
+  const nextVersion = (latest?.version || 0) + 1;
+
+  const handleSave = () => onUpdateTemplates(t => saveTemplateVersion(t, template.id, text));
+
+  const handleUseDefault = () => {
+    onUpdateTemplates(t => setTemplateOverrideActive(t, template.id, false));
+    setText(template.body);
+  };
+
+  const handleUseBrandVersion = () => {
+    if (!latest) return;
+    onUpdateTemplates(t => setTemplateOverrideActive(t, template.id, true));
+    setText(latest.body);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">{template.label}</h3>
+          <p className="text-sm text-zinc-500">{template.description}</p>
+          <p className="text-xs text-zinc-600 font-mono mt-1">{template.id}</p>
+        </div>
+        <span className={`shrink-0 px-2 py-1 rounded text-xs font-bold ${override?.active ? 'bg-orange-500/10 text-orange-400 border border-orange-500/20' : 'bg-zinc-800 text-zinc-400'}`}>
+          {override?.active && latest ? `Brand v${latest.version}` : `Default v${template.version}`}
+        </span>
+      </div>
+
+      {template.variables.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {template.variables.map(v => (
+            <code key={v} className="px-2 py-0.5 rounded bg-zinc-800 text-zinc-300 text-xs">{`{{${v}}}`}</code>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        className="w-full h-96 bg-zinc-950 border border-zinc-800 rounded-lg p-4 text-sm text-zinc-200 font-mono outline-none focus:border-orange-500 resize-y"
+      />
+
+      {unknownVariables.length > 0 && (
+        <p className="flex items-center gap-2 text-xs text-yellow-400">
+          <AlertTriangle className="w-4 h-4" />
+          Not filled in by this template: {unknownVariables.map(v => `{{${v}}}`).join(', ')}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || !text.trim()}
+          className="flex items-center gap-2 bg-orange-600 hover:bg-orange-500 disabled:opacity-40 disabled:cursor-not-allowed text-white text-sm font-bold px-4 py-2 rounded-lg"
+        >
+          <Save className="w-4 h-4" /> Save as v{nextVersion}
+        </button>
+        {isDirty && (
+          <button onClick={() => setText(inUse)} className="text-sm text-zinc-500 hover:text-white">Discard changes</button>
+        )}
+        {override?.active ? (
+          <button onClick={handleUseDefault} className="flex items-center gap-1 text-sm text-zinc-500 hover:text-white ml-auto">
+            <RotateCcw className="w-4 h-4" /> Use default
+          </button>
+        ) : latest && (
+          <button onClick={handleUseBrandVersion} className="flex items-center gap-1 text-sm text-zinc-500 hover:text-white ml-auto">
+            <RotateCcw className="w-4 h-4" /> Use brand v{latest.version}
+          </button>
+        )}
+      </div>
+
+      {override && override.versions.length > 0 && (
+        <div className="border-t border-zinc-800 pt-4">
+          <h4 className="flex items-center gap-2 text-xs uppercase font-bold text-zinc-500 mb-2"><History className="w-4 h-4" /> Versions</h4>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm px-3 py-2 rounded hover:bg-zinc-900">
+              <span className="text-zinc-400">Default v{template.version}</span>
+              <button onClick={() => setText(template.body)} className="text-xs text-zinc-500 hover:text-white">Load</button>
+            </div>
+            {[...override.versions].reverse().map(v => (
+              <div key={v.version} className="flex items-center justify-between text-sm px-3 py-2 rounded hover:bg-zinc-900">
+                <span className="text-zinc-300">
+                  Brand v{v.version} <span className="text-zinc-600 text-xs ml-2">{new Date(v.createdAt).toLocaleString()}</span>
+                </span>
+                <button onClick={() => setText(v.body)} className="text-xs text-zinc-500 hover:text-white">Load</button>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-600 mt-2">Loading a version puts it in the editor; save it to make it the newest version.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ templates, onUpdateTemplates }) => {
+  const [selectedId, setSelectedId] = useState(PROMPT_TEMPLATES[0].id);
+  const selected = PROMPT_TEMPLATES.find(t => t.id === selectedId) || PROMPT_TEMPLATES[0];
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2"><ScrollText className="w-6 h-6 text-orange-500" /> Prompts</h2>
+        <p className="text-zinc-400 text-sm">Tune the prompts behind this brand's generations. Every save is a new version; drafts and assets record the versions they were made with.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-8">
+        <nav className="space-y-6">
+          {PROMPT_TEMPLATE_GROUPS.map(group => (
+            <div key={group}>
+              <h3 className="text-xs uppercase font-bold text-zinc-500 mb-2">{group}</h3>
+              <div className="space-y-1">
+                {PROMPT_TEMPLATES.filter(t => t.group === group).map(t => {
+                  const override = templates[t.id];
+                  return (
+                    <button
+                      key={t.id}
+                      onClick={() => setSelectedId(t.id)}
+                      className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+                        t.id === selected.id ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-900'
+                      }`}
+                    >
+                      <span className="truncate">{t.label}</span>
+                      {override?.active && (
+                        <span className="text-[10px] font-bold text-orange-400">v{latestVersion(override)?.version}</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </nav>
+
+        <TemplateEditor
+          key={selected.id}
+          template={selected}
+          override={templates[selected.id]}
+          onUpdateTemplates={onUpdateTemplates}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, Loader2, ChevronDown, ChevronUp, Info } from 'lucide-react';
+import { GeneratedAsset, Inspiration, ProvenanceStepKind } from '../types';
+import { getModelLabel } from '../services/modelRegistry';
+import { formatTemplateRef } from '../services/promptTemplates';
+import ErrorNotice from './ErrorNotice';
+
+interface ProvenanceViewProps {
+  asset: GeneratedAsset;
+  inspirations: Inspiration[];
+  isRegenerating: boolean;
+  error: unknown;
+  onRegenerate: (stepIndex: number) => void;
+  onDismissError: () => void;
+  onClose: () => void;
+}
+
+const STEP_LABELS: Record<ProvenanceStepKind, string> = {
+  draft: 'Draft',
+  edit: 'Edit',
+  finalize: 'Finalize'
+};
+
+// How an asset was made: the DNA and inspirations it was drawn from and every
+// step from the first draft to the final image, each one regenerable.
+const ProvenanceView: React.FC<ProvenanceViewProps> = ({ asset, inspirations, isRegenerating, error, onRegenerate, onDismissError, onClose }) => {
+  const [openPrompt, setOpenPrompt] = useState<number | null>(null);
+  const provenance = asset.provenance;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden shadow-2xl">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Info className="w-5 h-5 text-orange-500" /> {asset.subtype} provenance
+          </h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {!provenance ? (
+            <p className="text-sm text-zinc-500">This asset was created before generation history was recorded.</p>
+          ) : (
+            <>
+              <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4">
+                  <h4 className="text-xs uppercase font-bold text-zinc-500 mb-2">Brand DNA</h4>
+                  <p className="text-white font-semibold">{provenance.dna.name}</p>
+                  <p className="text-xs text-zinc-500 mb-3 line-clamp-2">{provenance.dna.visualEssence}</p>
+                  <div className="flex gap-1">
+                    {provenance.dna.colors.map(c => (
+                      <div key={c} className="w-6 h-6 rounded border border-zinc-700" style={{ backgroundColor: c }} title={c} />
+                    ))}
+                  </div>
+                </div>
+                <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4">
+                  <h4 className="text-xs uppercase font-bold text-zinc-500 mb-2">Inspirations</h4>
+                  {provenance.inspirationIds.length === 0 ? (
+                    <p className="text-xs text-zinc-600">None</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {provenance.inspirationIds.map(id => {
+                        const insp = inspirations.find(i => i.id === id);
+                        const weight = provenance.inspirationWeights?.[id];
+                        return insp ? (
+                          <div key={id} className="relative">
+                            <img src={insp.imageUrl} className="w-12 h-12 object-cover rounded border border-zinc-700" title={insp.description} />
+                            {weight && (
+                              <span className={`absolute bottom-0 inset-x-0 text-center text-[8px] font-bold uppercase rounded-b ${weight === 'strong' ? 'bg-orange-600 text-white' : 'bg-black/70 text-zinc-300'}`}>{weight}</span>
+                            )}
+                          </div>
+                        ) : (
+                          <div key={id} className="w-12 h-12 rounded border border-dashed border-zinc-700 flex items-center justify-center text-[10px] text-zinc-600">Removed</div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </section>
+
+              {error !== null && <ErrorNotice error={error} onDismiss={onDismissError} />}
+
+              <ol className="space-y-3">
+                {provenance.steps.map((step, i) => (
+                  <li key={i} className="bg-zinc-950 border border-zinc-800 rounded-lg p-4">
+                    <div className="flex gap-4">
+                      <img src={step.imageUrl} className="w-20 h-20 object-cover rounded border border-zinc-800 shrink-0" />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-bold text-white">
+                            {i + 1}. {STEP_LABELS[step.kind]}
+                            {step.variation && <span className="text-zinc-500 font-normal ml-2">{step.variation}</span>}
+                          </p>
+                          <button
+                            onClick={() => onRegenerate(i)}
+                            disabled={isRegenerating}
+                            className="flex items-center gap-1 text-xs text-zinc-400 hover:text-orange-400 disabled:opacity-40 shrink-0"
+                            title={step.kind === 'finalize' ? 'Regenerate as a new asset' : 'Regenerate as a new Studio draft'}
+                          >
+                            {isRegenerating ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                            Regenerate from here
+                          </button>
+                        </div>
+                        <p className="text-xs text-zinc-500">
+                          {getModelLabel(step.model)} · {new Date(step.createdAt).toLocaleString()}
+                        </p>
+                        {step.templates && step.templates.length > 0 && (
+                          <p className="text-xs text-zinc-600 font-mono truncate">{step.templates.map(formatTemplateRef).join(', ')}</p>
+                        )}
+                        {step.instruction && <p className="text-sm text-zinc-300">"{step.instruction}"</p>}
+                        {step.maskUrl && (
+                          <div className="flex items-center gap-2 text-xs text-zinc-500">
+                            <img src={step.maskUrl} className="w-10 h-10 object-cover rounded border border-zinc-800" /> Annotated image sent with the edit
+                          </div>
+                        )}
+                        <button
+                          onClick={() => setOpenPrompt(openPrompt === i ? null : i)}
+                          className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white"
+                        >
+                          {openPrompt === i ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />} Prompt
+                        </button>
+                        {openPrompt === i && (
+                          <pre className="text-xs text-zinc-400 bg-zinc-900 rounded p-3 whitespace-pre-wrap break-words max-h-64 overflow-y-auto">{step.prompt}</pre>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProvenanceView;
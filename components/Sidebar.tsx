@@ -1,13 +1,145 @@
-import React, { useState } from 'react';
-import { LayoutDashboard, Fingerprint, Lightbulb, Palette, Film, ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { LayoutDashboard, Fingerprint, Lightbulb, Palette, Film, BarChart3, Cpu, ScrollText, ChevronLeft, ChevronRight, ChevronsUpDown, Plus, Copy, Archive, ArchiveRestore, Trash2, Check, Package, PackageOpen, Loader2 } from 'lucide-react';
+import { BrandWorkspace } from '../types';
+import { getBrandLabel } from '../services/workspaceService';
+import { resolveColorRoles } from '../services/brandDnaService';
+import { getProvider } from '../services/providers';
 
 interface SidebarProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
   hasDNA: boolean;
+  brands: BrandWorkspace[];
+  activeBrandId: string | null;
+  onSelectBrand: (brandId: string) => void;
+  onCreateBrand: () => void;
+  onDuplicateBrand: (brandId: string) => void;
+  onArchiveBrand: (brandId: string, archived: boolean) => void;
+  onDeleteBrand: (brandId: string) => void;
+  onExportBrand: (brandId: string) => Promise<void>;
+  onImportKit: (file: File) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, hasDNA }) => {
+type BrandSwitcherProps = Omit<SidebarProps, 'activeTab' | 'onTabChange' | 'hasDNA'>;
+
+const BrandAvatar: React.FC<{ brand?: BrandWorkspace }> = ({ brand }) => {
+  const primary = brand?.dna && resolveColorRoles(brand.dna).primary?.hex;
+  return (
+    <div
+      className="w-8 h-8 rounded-lg flex items-center justify-center shrink-0 border border-zinc-700 overflow-hidden bg-zinc-900"
+      style={!brand?.dna?.logoImage && primary ? { backgroundColor: primary } : undefined}
+    >
+      {brand?.dna?.logoImage
+        ? <img src={brand.dna.logoImage} className="w-full h-full object-contain" />
+        : <span className="text-xs font-bold text-white mix-blend-difference">{brand ? getBrandLabel(brand).charAt(0).toUpperCase() : '?'}</span>}
+    </div>
+  );
+};
+
+const BrandSwitcher: React.FC<BrandSwitcherProps> = ({
+  brands, activeBrandId, onSelectBrand, onCreateBrand, onDuplicateBrand, onArchiveBrand, onDeleteBrand, onExportBrand, onImportKit
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const kitInputRef = useRef<HTMLInputElement>(null);
+
+  const activeBrand = brands.find(b => b.id === activeBrandId);
+  const visibleBrands = brands.filter(b => showArchived || !b.archived);
+  const archivedCount = brands.filter(b => b.archived).length;
+
+  const handleDelete = (brand: BrandWorkspace) => {
+    if (confirm(`Delete "${getBrandLabel(brand)}" and all of its inspirations, assets and ads? This cannot be undone.`)) {
+      onDeleteBrand(brand.id);
+    }
+  };
+
+  const handleExport = async (brandId: string) => {
+    setExportingId(brandId);
+    try {
+      await onExportBrand(brandId);
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleKitFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onImportKit(file);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors"
+      >
+        <BrandAvatar brand={activeBrand} />
+        <span className="flex-1 text-left text-sm font-medium text-white truncate">
+          {activeBrand ? getBrandLabel(activeBrand) : 'No brand selected'}
+        </span>
+        <ChevronsUpDown className="w-4 h-4 text-zinc-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 left-0 right-0 mt-2 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl p-2 space-y-1">
+          {visibleBrands.map(brand => (
+            <div key={brand.id} className="group flex items-center gap-2 rounded-md hover:bg-zinc-800 px-2 py-1.5">
+              <button
+                onClick={() => { onSelectBrand(brand.id); setIsOpen(false); }}
+                disabled={brand.archived}
+                className="flex-1 flex items-center gap-2 min-w-0 text-left disabled:cursor-not-allowed"
+              >
+                <span className={`text-sm truncate ${brand.archived ? 'text-zinc-600 italic' : 'text-zinc-300'}`}>{getBrandLabel(brand)}</span>
+                {brand.id === activeBrandId && <Check className="w-3 h-3 text-orange-500 shrink-0" />}
+              </button>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => handleExport(brand.id)} disabled={!!exportingId} title="Export brand kit" className="p-1 text-zinc-500 hover:text-white disabled:opacity-50">
+                  {exportingId === brand.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Package className="w-3 h-3" />}
+                </button>
+                <button onClick={() => onDuplicateBrand(brand.id)} title="Duplicate" className="p-1 text-zinc-500 hover:text-white">
+                  <Copy className="w-3 h-3" />
+                </button>
+                <button onClick={() => onArchiveBrand(brand.id, !brand.archived)} title={brand.archived ? 'Restore' : 'Archive'} className="p-1 text-zinc-500 hover:text-white">
+                  {brand.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                </button>
+                <button onClick={() => handleDelete(brand)} title="Delete" className="p-1 text-zinc-500 hover:text-red-400">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="border-t border-zinc-800 pt-1 mt-1 space-y-1">
+            {archivedCount > 0 && (
+              <button onClick={() => setShowArchived(!showArchived)} className="w-full text-left px-2 py-1.5 text-xs text-zinc-500 hover:text-white">
+                {showArchived ? 'Hide' : 'Show'} archived ({archivedCount})
+              </button>
+            )}
+            <button
+              onClick={() => { onCreateBrand(); setIsOpen(false); }}
+              className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-orange-500 hover:text-orange-400 rounded-md hover:bg-zinc-800"
+            >
+              <Plus className="w-4 h-4" /> New Brand
+            </button>
+            <button
+              onClick={() => kitInputRef.current?.click()}
+              className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-zinc-400 hover:text-white rounded-md hover:bg-zinc-800"
+            >
+              <PackageOpen className="w-4 h-4" /> Import Brand Kit
+            </button>
+            <input ref={kitInputRef} type="file" accept=".zip,application/zip" onChange={handleKitFile} className="hidden" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, hasDNA, ...switcherProps }) => {
   const [collapsed, setCollapsed] = useState(false);
 
   const items = [
@@ -15,6 +147,9 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, hasDNA }) =>
     { id: 'inspirations', label: 'Inspirations', icon: Lightbulb, disabled: !hasDNA },
     { id: 'studio', label: 'Studio', icon: Palette, disabled: !hasDNA },
     { id: 'ads', label: 'Ads', icon: Film, disabled: !hasDNA },
+    { id: 'models', label: 'Models', icon: Cpu, disabled: !switcherProps.activeBrandId },
+    { id: 'prompts', label: 'Prompts', icon: ScrollText, disabled: !switcherProps.activeBrandId },
+    { id: 'usage', label: 'Usage', icon: BarChart3 },
   ];
 
   return (
@@ -24,6 +159,20 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, hasDNA }) =>
              <LayoutDashboard className="w-5 h-5 text-white" />
         </div>
         {!collapsed && <span className="ml-3 font-bold text-xl text-white tracking-tight">Brand Forge</span>}
+        {!collapsed && getProvider().id === 'mock' && (
+          <span className="ml-2 px-1.5 py-0.5 text-[10px] font-bold uppercase rounded bg-yellow-500/10 text-yellow-400 border border-yellow-500/20" title="Using the offline mock provider">Mock</span>
+        )}
+      </div>
+
+      {/* Brand Switcher */}
+      <div className="p-4 border-b border-zinc-800">
+        {collapsed ? (
+          <button onClick={() => setCollapsed(false)} className="flex justify-center w-full" title="Switch brand">
+            <BrandAvatar brand={switcherProps.brands.find(b => b.id === switcherProps.activeBrandId)} />
+          </button>
+        ) : (
+          <BrandSwitcher {...switcherProps} />
+        )}
       </div>
 
       <nav className="flex-1 p-4 space-y-2">
@@ -33,10 +182,10 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, hasDNA }) =>
             onClick={() => !item.disabled && onTabChange(item.id)}
             disabled={item.disabled}
             className={`w-full flex items-center gap-3 px-3 py-3 rounded-lg transition-colors ${
-              activeTab === item.id 
-                ? 'bg-zinc-800 text-white' 
-                : item.disabled 
-                  ? 'opacity-40 cursor-not-allowed text-zinc-500' 
+              activeTab === item.id
+                ? 'bg-zinc-800 text-white'
+                : item.disabled
+                  ? 'opacity-40 cursor-not-allowed text-zinc-500'
                   : 'text-zinc-400 hover:text-white hover:bg-zinc-900'
             }`}
           >
@@ -46,7 +195,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, hasDNA }) =>
         ))}
       </nav>
 
-      <button 
+      <button
         onClick={() => setCollapsed(!collapsed)}
         className="p-4 border-t border-zinc-800 text-zinc-500 hover:text-white flex justify-center"
       >
@@ -1,72 +1,133 @@
 import React, { useState } from 'react';
-import { BrandDNA, Inspiration, AssetType, GeneratedAsset } from '../types';
-import { generateDrafts, editAsset, finalizeAsset, generateVisualizationVideo } from '../services/geminiService';
-import { Shirt, Image as ImageIcon, Monitor, Video, Loader2, Sparkles, ArrowRight, Box } from 'lucide-react';
+import { BrandDNA, Inspiration, AssetType, AssetSubtype, GeneratedAsset, StudioSession } from '../types';
+import { generateDrafts, editAsset, finalizeAsset, generateRealWorldPreview } from '../services/geminiService';
+import { cancelJob, findRunningJob, runJob, useJobs } from '../services/jobQueue';
+import { isAbortError } from '../services/errors';
+import { BrandContext, pinModel } from '../services/generationContext';
+import { getModelLabel } from '../services/modelRegistry';
+import { applyEditStep, createAssetFromDraft, createDraftFromStep, getDraftVersions, selectDraftVersion } from '../services/provenanceService';
+import { usedInspirations, weighInspirations } from '../services/inspirationService';
+import { ASSET_CATEGORIES, createSubtype, findSubtype, getCatalog, isBuiltInSubtype } from '../services/assetCatalog';
+import { Shirt, Image as ImageIcon, Monitor, Loader2, Sparkles, Plus, Pencil, LucideIcon } from 'lucide-react';
 import AssetEditor from './AssetEditor';
+import ErrorNotice from './ErrorNotice';
+import InspirationPicker from './InspirationPicker';
+import SubtypeEditor from './SubtypeEditor';
 
 interface StudioProps {
+  context: BrandContext;
   dna: BrandDNA;
+  dnaVersion?: number; // Recorded on drafts and the assets finalized from them
   inspirations: Inspiration[];
+  // Drafts live on the brand workspace so jobs that finish after a tab
+  // switch still land in the right brand.
+  session: StudioSession;
+  onUpdateSession: (updater: (session: StudioSession) => StudioSession) => void;
   onAssetCreated: (asset: GeneratedAsset) => void;
+  onUpdateSubtypes: (updater: (subtypes: AssetSubtype[]) => AssetSubtype[]) => void; // The brand's own items
 }
 
-const Studio: React.FC<StudioProps> = ({ dna, inspirations, onAssetCreated }) => {
-  // Steps: 0 = Category, 1 = Subtype, 2 = Drafting, 3 = Selection/Editing
+const CATEGORY_ICONS: Partial<Record<AssetType, LucideIcon>> = {
+  [AssetType.MERCHANDISE]: Shirt,
+  [AssetType.MARKETING]: ImageIcon,
+  [AssetType.DIGITAL]: Monitor
+};
+
+const Studio: React.FC<StudioProps> = ({ context, dna, dnaVersion, inspirations, session, onUpdateSession, onAssetCreated, onUpdateSubtypes }) => {
+  const { brandId } = context;
+  // Steps: 0 = Category, 1 = Subtype. Drafting and selection follow the session and job queue.
   const [step, setStep] = useState(0);
   const [selectedType, setSelectedType] = useState<AssetType>(AssetType.MERCHANDISE);
   const [selectedSubtype, setSelectedSubtype] = useState('');
-  const [currentSubtype, setCurrentSubtype] = useState(''); // Store the actual subtype used for current drafts
-  
-  const [drafts, setDrafts] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  
+  const { drafts, assetType: draftType } = session; // The type/subtype actually used for current drafts
+  const currentSubtype = session.subtype && findSubtype(context, session).name; // Follows a rename of the item
+
+  const jobs = useJobs();
+  const draftJob = findRunningJob(jobs, brandId, 'draft');
+
   // Editor State
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
-  const [isProcessingEdit, setIsProcessingEdit] = useState(false);
-
-  // Categories
-  const categories = [
-    { id: AssetType.MERCHANDISE, icon: Shirt, label: 'Merch', items: ['Hoodie', 'T-Shirt', 'Cap', 'Tote Bag'] },
-    { id: AssetType.MARKETING, icon: ImageIcon, label: 'Print', items: ['Poster', 'Flyer', 'Billboard', 'Business Card'] },
-    { id: AssetType.DIGITAL, icon: Monitor, label: 'Digital', items: ['Social Post', 'Banner', 'App Icon'] },
-  ];
-
-  const handleGenerateDrafts = async (subtype: string) => {
-    setIsLoading(true);
-    setStep(2);
-    setCurrentSubtype(subtype); // Store the subtype being used for these drafts
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingDraft = drafts.find(d => d.id === editingId) || null;
+  const isProcessingEdit = !!editingDraft && (
+    !!findRunningJob(jobs, brandId, 'edit', editingDraft.id) || !!findRunningJob(jobs, brandId, 'finalize', editingDraft.id)
+  );
+  const previewJob = editingDraft ? findRunningJob(jobs, brandId, 'preview', editingDraft.id) : undefined;
+
+  // Inline errors (the job panel keeps a record too)
+  const [draftError, setDraftError] = useState<{ error: unknown; subtype: AssetSubtype } | null>(null);
+  const [editorError, setEditorError] = useState<unknown>(null);
+
+  // Categories from the asset catalog, the brand's own items after the built-in ones
+  const customSubtypes = context.subtypes || [];
+  const catalog = getCatalog(customSubtypes);
+  const categories = ASSET_CATEGORIES.map(({ type, label }) => ({
+    id: type,
+    icon: CATEGORY_ICONS[type] || Sparkles,
+    label,
+    items: catalog.filter(s => s.category === type)
+  }));
+  const [editingSubtype, setEditingSubtype] = useState<AssetSubtype | null>(null);
+  const isNewSubtype = !!editingSubtype && !customSubtypes.some(s => s.id === editingSubtype.id);
+
+  const handleSaveSubtype = (subtype: AssetSubtype) => {
+    onUpdateSubtypes(list => list.some(s => s.id === subtype.id) ? list.map(s => s.id === subtype.id ? subtype : s) : [...list, subtype]);
+    setSelectedType(subtype.category);
+    setEditingSubtype(null);
+  };
+
+  const handleDeleteSubtype = (subtype: AssetSubtype) => {
+    if (!confirm(`Delete "${subtype.name}"? Assets already made keep their name.`)) return;
+    onUpdateSubtypes(list => list.filter(s => s.id !== subtype.id));
+    setEditingSubtype(null);
+  };
+
+  const handleGenerateDrafts = async (item: AssetSubtype) => {
+    const subtype = item.name;
+    onUpdateSession(s => ({ ...s, assetType: selectedType, subtype, subtypeId: item.id, drafts: [] }));
+    setDraftError(null);
     try {
-      const results = await generateDrafts(dna, inspirations, selectedType, subtype);
-      setDrafts(results);
-      setStep(3);
+      const weighted = weighInspirations(inspirations, session.inspirationWeights);
+      const origin = { assetType: selectedType, subtype, subtypeId: item.id, dna, dnaVersion, ...usedInspirations(weighted) };
+      const steps = await runJob(
+        { kind: 'draft', label: `${subtype} drafts`, brandId },
+        () => generateDrafts(dna, weighted, selectedType, subtype, context)
+      );
+      onUpdateSession(s => ({ ...s, drafts: steps.map(step => createDraftFromStep(origin, step)) }));
     } catch (e) {
-      console.error(e);
-      alert("Failed to generate drafts.");
       setStep(1);
-    } finally {
-      setIsLoading(false);
+      if (isAbortError(e)) return;
+      console.error(e);
+      setDraftError({ error: e, subtype: item });
     }
   };
 
   const handleUpdateDraft = async (mask: string | null, instruction: string) => {
-    if (editingIndex === null) return;
-    setIsProcessingEdit(true);
+    if (!editingDraft) return;
+    const draftId = editingDraft.id;
+    const parentVersionId = editingDraft.currentVersionId; // The version may change while the edit runs
+    setEditorError(null);
     try {
-      const newImage = await editAsset(drafts[editingIndex], mask, instruction);
-      const newDrafts = [...drafts];
-      newDrafts[editingIndex] = newImage;
-      setDrafts(newDrafts);
+      const step = await runJob(
+        { kind: 'edit', label: `${currentSubtype} edit`, brandId, targetId: draftId },
+        () => editAsset(editingDraft.url, mask, instruction, pinModel(context, 'draftImage', editingDraft.model))
+      );
+      // An edit invalidates any preview rendered from the old image
+      onUpdateSession(s => ({
+        ...s,
+        drafts: s.drafts.map(d => d.id === draftId ? applyEditStep(d, step, parentVersionId) : d)
+      }));
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Edit failed");
-    } finally {
-      setIsProcessingEdit(false);
+      setEditorError(e);
     }
   };
 
   const handleFinalize = async () => {
-    if (editingIndex === null) return;
-    setIsProcessingEdit(true); // Re-using this loader state for finalizing
+    if (!editingDraft) return;
+    const draft = editingDraft;
+    const type = draftType;
+    const subtype = currentSubtype;
     
     // Check Key for Pro model
     try {
@@ -76,33 +137,130 @@ const Studio: React.FC<StudioProps> = ({ dna, inspirations, onAssetCreated }) =>
        }
     } catch(e) { console.warn("Key check skipped", e)}
 
+    setEditorError(null);
     try {
-      const highResUrl = await finalizeAsset(dna, drafts[editingIndex], currentSubtype);
-      
-      const newAsset: GeneratedAsset = {
-          id: crypto.randomUUID(),
-          type: selectedType,
-          subtype: currentSubtype,
-          url: highResUrl,
-          promptUsed: 'Finalized from draft',
-          createdAt: Date.now(),
-          isDraft: false
-      };
-      
-      onAssetCreated(newAsset);
-      // Reset
+      const step = await runJob(
+        { kind: 'finalize', label: `${subtype} finalize`, brandId, targetId: draft.id },
+        () => finalizeAsset(dna, draft.url, subtype, context)
+      );
+
+      onAssetCreated(createAssetFromDraft(draft, type, subtype, step));
+      // Reset, unless a new set of drafts was started in the meantime
+      onUpdateSession(s => s.drafts.some(d => d.id === draft.id) ? { ...s, subtype: '', subtypeId: undefined, drafts: [] } : s);
       setStep(0);
-      setDrafts([]);
-      setEditingIndex(null);
-      setCurrentSubtype('');
+      setEditingId(null);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Finalization failed");
-    } finally {
-      setIsProcessingEdit(false);
+      setEditorError(e);
     }
   };
 
+  const handleSelectVersion = (versionId: string) => {
+    if (!editingDraft) return;
+    const draftId = editingDraft.id;
+    onUpdateSession(s => ({ ...s, drafts: s.drafts.map(d => d.id === draftId ? selectDraftVersion(d, versionId) : d) }));
+  };
+
+  const handleRealWorldPreview = async () => {
+    if (!editingDraft) return;
+    const draftId = editingDraft.id;
+    setEditorError(null);
+    try {
+      const videoUrl = await runJob(
+        { kind: 'preview', label: `${currentSubtype} preview`, brandId, targetId: draftId },
+        ({ signal, setProgress }) => generateRealWorldPreview(editingDraft.url, currentSubtype, dna, {
+          ...context,
+          signal,
+          onProgress: (progress) => setProgress(progress.message),
+          meta: { targetId: draftId }
+        })
+      );
+      onUpdateSession(s => ({
+        ...s,
+        drafts: s.drafts.map(d => d.id === draftId ? { ...d, previewVideoUrl: videoUrl } : d)
+      }));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      setEditorError(e);
+    }
+  };
+
+  // Drafting: shown while the draft job runs, even after leaving and coming back
+  if (draftJob) {
+    const candidate = context.modelTest?.role === 'draftImage' ? context.modelTest.candidate : null;
+    return (
+      <div className="flex flex-col items-center justify-center h-full py-20">
+        <Loader2 className="w-12 h-12 text-orange-500 animate-spin mb-4" />
+        <h3 className="text-xl font-bold text-white">Forging Concepts...</h3>
+        <p className="text-zinc-500 mt-2">
+          Generating low-latency drafts using {getModelLabel(context.models.draftImage.model)}
+          {candidate && ` vs ${getModelLabel(candidate)}`}
+        </p>
+        <button onClick={() => cancelJob(draftJob.id)} className="mt-6 text-sm text-zinc-500 hover:text-red-400">Cancel</button>
+      </div>
+    );
+  }
+
+  // Selection: drafts are waiting in the session
+  if (drafts.length > 0) {
+    return (
+      <div className="max-w-6xl mx-auto h-full flex flex-col">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+             <h2 className="text-2xl font-bold text-white">Select a Draft</h2>
+             <p className="text-zinc-400 text-sm">Click to edit and finalize. These are low-res previews.</p>
+          </div>
+          <button onClick={() => { onUpdateSession(s => ({ ...s, subtype: '', subtypeId: undefined, drafts: [] })); setStep(0); }} className="text-sm text-zinc-500">Cancel</button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          {drafts.map((draft) => (
+            <div 
+              key={draft.id} 
+              onClick={() => setEditingId(draft.id)}
+              className="group relative aspect-square bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden cursor-pointer hover:border-orange-500 transition-all"
+            >
+              <img src={draft.url} className="w-full h-full object-cover" />
+              {(draft.variation || draft.model) && (
+                <div className="absolute bottom-2 left-2 right-2 flex gap-1 flex-wrap text-[10px] font-bold uppercase">
+                  {draft.variation && <span className="px-1.5 py-0.5 rounded bg-black/70 text-zinc-300">{draft.variation}</span>}
+                  {draft.model && <span className="px-1.5 py-0.5 rounded bg-black/70 text-orange-400">{getModelLabel(draft.model)}</span>}
+                </div>
+              )}
+              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                 <span className="flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full font-bold text-sm">
+                   <Sparkles className="w-4 h-4" /> Edit / Finalize
+                 </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editingDraft && (
+          <AssetEditor 
+            context={context}
+            imageUrl={editingDraft.url}
+            versions={getDraftVersions(editingDraft)}
+            currentVersionId={editingDraft.currentVersionId}
+            onSelectVersion={handleSelectVersion}
+            onClose={() => { setEditingId(null); setEditorError(null); }}
+            onUpdate={handleUpdateDraft}
+            onFinalize={handleFinalize}
+            isProcessing={isProcessingEdit}
+            previewVideoUrl={editingDraft.previewVideoUrl || null}
+            previewProgress={previewJob ? (previewJob.progress || 'Generating Preview...') : null}
+            onGeneratePreview={handleRealWorldPreview}
+            onCancelPreview={() => previewJob && cancelJob(previewJob.id)}
+            error={editorError}
+            onDismissError={() => setEditorError(null)}
+          />
+        )}
+      </div>
+    );
+  }
+
   // Step 0: Category Selection
   if (step === 0) {
     return (
@@ -119,7 +277,7 @@ const Studio: React.FC<StudioProps> = ({ dna, inspirations, onAssetCreated }) =>
                 <cat.icon className="w-6 h-6 text-orange-500" />
               </div>
               <h3 className="text-xl font-bold text-white mb-1">{cat.label}</h3>
-              <p className="text-sm text-zinc-500">Create {cat.items.join(', ')}...</p>
+              <p className="text-sm text-zinc-500">Create {cat.items.map(s => s.name).join(', ')}...</p>
             </button>
           ))}
         </div>
@@ -133,74 +291,66 @@ const Studio: React.FC<StudioProps> = ({ dna, inspirations, onAssetCreated }) =>
     return (
       <div className="max-w-2xl mx-auto text-center">
         <h2 className="text-2xl font-bold text-white mb-8">Select Item Type</h2>
+        {draftError && (
+          <div className="mb-6 text-left">
+            <ErrorNotice
+              error={draftError.error}
+              onRetry={() => handleGenerateDrafts(draftError.subtype)}
+              onDismiss={() => setDraftError(null)}
+            />
+          </div>
+        )}
+        <InspirationPicker
+          inspirations={inspirations}
+          weights={session.inspirationWeights}
+          onChange={inspirationWeights => onUpdateSession(s => ({ ...s, inspirationWeights }))}
+        />
+        {editingSubtype && (
+          <SubtypeEditor
+            key={editingSubtype.id}
+            subtype={editingSubtype}
+            customSubtypes={customSubtypes}
+            isNew={isNewSubtype}
+            onSave={handleSaveSubtype}
+            onDelete={() => handleDeleteSubtype(editingSubtype)}
+            onCancel={() => setEditingSubtype(null)}
+          />
+        )}
         <div className="grid grid-cols-2 gap-4">
           {category?.items.map((item) => (
-            <button
-              key={item}
-              onClick={() => { setSelectedSubtype(item); handleGenerateDrafts(item); }}
-              className="p-4 bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 hover:bg-white hover:text-black hover:font-bold transition-all"
-            >
-              {item}
-            </button>
+            <div key={item.id} className="relative group">
+              <button
+                onClick={() => { setSelectedSubtype(item.name); handleGenerateDrafts(item); }}
+                title={item.description}
+                className="w-full p-4 bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 hover:bg-white hover:text-black hover:font-bold transition-all"
+              >
+                {item.name}
+                {item.aspectRatio && <span className="block text-[10px] text-zinc-500 font-normal">{item.aspectRatio}{item.imageSize ? ` · ${item.imageSize}` : ''}</span>}
+              </button>
+              {!isBuiltInSubtype(item) && (
+                <button
+                  onClick={() => setEditingSubtype(item)}
+                  title="Edit item"
+                  className="absolute top-2 right-2 p-1 text-zinc-500 hover:text-orange-500 opacity-0 group-hover:opacity-100"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+              )}
+            </div>
           ))}
+          <button
+            onClick={() => setEditingSubtype(createSubtype(selectedType))}
+            className="flex items-center justify-center gap-2 p-4 border border-dashed border-zinc-700 rounded-lg text-zinc-500 hover:text-white hover:border-orange-500/50"
+          >
+            <Plus className="w-4 h-4" /> New item type
+          </button>
         </div>
-        <button onClick={() => setStep(0)} className="mt-8 text-zinc-500 hover:text-white text-sm">Back</button>
+        <button onClick={() => { setStep(0); setEditingSubtype(null); }} className="mt-8 text-zinc-500 hover:text-white text-sm">Back</button>
       </div>
     );
   }
 
-  // Step 2: Loading Drafts
-  if (step === 2) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full py-20">
-        <Loader2 className="w-12 h-12 text-orange-500 animate-spin mb-4" />
-        <h3 className="text-xl font-bold text-white">Forging Concepts...</h3>
-        <p className="text-zinc-500 mt-2">Generating low-latency drafts using Gemini 3 pro</p>
-      </div>
-    );
-  }
-
-  // Step 3: Selection
-  return (
-    <div className="max-w-6xl mx-auto h-full flex flex-col">
-      <div className="flex items-center justify-between mb-6">
-        <div>
-           <h2 className="text-2xl font-bold text-white">Select a Draft</h2>
-           <p className="text-zinc-400 text-sm">Click to edit and finalize. These are low-res previews.</p>
-        </div>
-        <button onClick={() => setStep(0)} className="text-sm text-zinc-500">Cancel</button>
-      </div>
-
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
-        {drafts.map((src, i) => (
-          <div 
-            key={i} 
-            onClick={() => setEditingIndex(i)}
-            className="group relative aspect-square bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden cursor-pointer hover:border-orange-500 transition-all"
-          >
-            <img src={src} className="w-full h-full object-cover" />
-            <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
-               <span className="flex items-center gap-2 bg-white text-black px-4 py-2 rounded-full font-bold text-sm">
-                 <Sparkles className="w-4 h-4" /> Edit / Finalize
-               </span>
-            </div>
-          </div>
-        ))}
-      </div>
-
-      {editingIndex !== null && (
-        <AssetEditor 
-          imageUrl={drafts[editingIndex]}
-          subtype={currentSubtype}
-          brandDNA={dna}
-          onClose={() => setEditingIndex(null)}
-          onUpdate={handleUpdateDraft}
-          onFinalize={handleFinalize}
-          isProcessing={isProcessingEdit}
-        />
-      )}
-    </div>
-  );
+  return null;
 };
 
 export default Studio;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { AssetSubtype } from '../types';
+import { ASPECT_RATIOS, ASSET_CATEGORIES, IMAGE_SIZES, PREVIEW_SCENES, validateSubtype } from '../services/assetCatalog';
+
+interface SubtypeEditorProps {
+  subtype: AssetSubtype;
+  customSubtypes: AssetSubtype[]; // To keep names unique
+  isNew: boolean;
+  onSave: (subtype: AssetSubtype) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-sm text-white outline-none focus:border-orange-500';
+const labelClass = 'block space-y-1 text-xs uppercase font-bold text-zinc-500';
+
+// Define or edit one of the brand's own Studio items
+const SubtypeEditor: React.FC<SubtypeEditorProps> = ({ subtype, customSubtypes, isNew, onSave, onDelete, onCancel }) => {
+  const [draft, setDraft] = useState(subtype);
+  const [error, setError] = useState<string | null>(null);
+  const set = (patch: Partial<AssetSubtype>) => setDraft(d => ({ ...d, ...patch }));
+
+  const handleSave = () => {
+    const problem = validateSubtype(draft, customSubtypes);
+    if (problem) return setError(problem);
+    onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() });
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-orange-500/40 rounded-xl p-4 mb-6 text-left space-y-3">
+      <h3 className="text-sm font-medium text-white">{isNew ? 'New item type' : `Edit ${subtype.name}`}</h3>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className={labelClass}>
+          <span>Name</span>
+          <input value={draft.name} onChange={(e) => set({ name: e.target.value })} placeholder="e.g. Water Bottle" className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          <span>Category</span>
+          <select value={draft.category} onChange={(e) => set({ category: e.target.value as AssetSubtype['category'] })} className={inputClass}>
+            {ASSET_CATEGORIES.map(c => <option key={c.type} value={c.type}>{c.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <label className={labelClass}>
+        <span>Product description</span>
+        <textarea
+          value={draft.description}
+          onChange={(e) => set({ description: e.target.value })}
+          placeholder="e.g. A stainless steel insulated water bottle with a screw-top lid. This is specifically a BOTTLE, NOT a mug."
+          className={`${inputClass} resize-none h-20 normal-case font-normal`}
+        />
+      </label>
+
+      <div className="grid grid-cols-3 gap-3">
+        <label className={labelClass}>
+          <span>Aspect ratio</span>
+          <select value={draft.aspectRatio || ''} onChange={(e) => set({ aspectRatio: e.target.value || undefined })} className={inputClass}>
+            <option value="">Settings default</option>
+            {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          <span>Output size</span>
+          <select value={draft.imageSize || ''} onChange={(e) => set({ imageSize: e.target.value || undefined })} className={inputClass}>
+            <option value="">Settings default</option>
+            {IMAGE_SIZES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          <span>Preview scene</span>
+          <select value={draft.previewScene} onChange={(e) => set({ previewScene: e.target.value as AssetSubtype['previewScene'] })} className={inputClass}>
+            {PREVIEW_SCENES.map(p => <option key={p.scene} value={p.scene}>{p.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <button onClick={handleSave} className="bg-orange-600 hover:bg-orange-500 text-white font-bold text-sm px-4 py-1.5 rounded-lg">
+          {isNew ? 'Add item' : 'Save'}
+        </button>
+        <button onClick={onCancel} className="text-sm text-zinc-500 hover:text-white">Cancel</button>
+        {!isNew && (
+          <button onClick={onDelete} className="ml-auto flex items-center gap-1 text-xs text-zinc-500 hover:text-red-400">
+            <Trash2 className="w-3 h-3" /> Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SubtypeEditor;
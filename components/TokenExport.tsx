@@ -0,0 +1,69 @@
+import React, { useMemo, useState } from 'react';
+import { Braces, Check, Copy, Download } from 'lucide-react';
+import { BrandDNA } from '../types';
+import { TOKEN_FORMATS, TokenFormat, buildDesignTokens, tokenFileName } from '../services/designTokens';
+import { downloadText } from '../services/download';
+
+interface TokenExportProps {
+  dna: BrandDNA;
+}
+
+// The DNA as design tokens for developers, previewed per format
+const TokenExport: React.FC<TokenExportProps> = ({ dna }) => {
+  const [format, setFormat] = useState<TokenFormat>('css');
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => buildDesignTokens(dna), [dna]);
+  const current = TOKEN_FORMATS.find(f => f.format === format)!;
+  const output = current.render(tokens);
+
+  const defaults = [
+    !tokens.inferred.spacing && 'spacing',
+    !tokens.inferred.radius && 'corner radius'
+  ].filter(Boolean);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(output);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-white font-medium flex items-center gap-2"><Braces className="w-4 h-4 text-orange-500" /> Design Tokens</h3>
+        <div className="flex items-center gap-3">
+          <button onClick={handleCopy} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white">
+            {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />} {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={() => downloadText(output, tokenFileName(dna, format), current.mimeType)}
+            className="flex items-center gap-1 bg-orange-600 hover:bg-orange-500 text-white text-xs font-bold px-3 py-1.5 rounded-lg"
+          >
+            <Download className="w-3 h-3" /> {tokenFileName(dna, format)}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {TOKEN_FORMATS.map(f => (
+          <button
+            key={f.format}
+            onClick={() => setFormat(f.format)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${format === f.format ? 'border-orange-500 text-white bg-orange-500/10' : 'border-zinc-800 text-zinc-400 hover:text-white'}`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      <pre className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 text-xs text-zinc-300 font-mono max-h-80 overflow-auto">{output}</pre>
+
+      <p className="text-xs text-zinc-600">
+        Fonts are read from the typography notes{tokens.fonts.heading.family ? '' : ' (none named, so generic families are used)'}.
+        {defaults.length > 0 && ` The design system rules don't state a ${defaults.join(' or ')} size, so a default scale is used.`}
+      </p>
+    </div>
+  );
+};
+
+export default TokenExport;
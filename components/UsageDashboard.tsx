@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { BarChart3, Coins, Image as ImageIcon, Film, Hash, RotateCcw, Trash2 } from 'lucide-react';
+import { BrandWorkspace } from '../types';
+import { getBrandLabel } from '../services/workspaceService';
+import {
+  ACTION_FEATURES, ModelPrice, UsageSummary,
+  clearUsage, getBrandSpend, resetPrices, setBudgetCap, setModelPrice, summarizeUsage, useUsage
+} from '../services/usageService';
+
+interface UsageDashboardProps {
+  brands: BrandWorkspace[];
+}
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatCount = (n: number) => n.toLocaleString();
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input $/1M tok' },
+  { key: 'outputPerMillion', label: 'Output $/1M tok' },
+  { key: 'perImage', label: '$/image' },
+  { key: 'perVideoSecond', label: '$/video sec' }
+];
+
+const StatCard: React.FC<{ icon: React.ElementType; label: string; value: string }> = ({ icon: Icon, label, value }) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+    <div className="flex items-center gap-2 text-zinc-500 text-xs uppercase font-bold mb-2">
+      <Icon className="w-4 h-4 text-orange-500" /> {label}
+    </div>
+    <div className="text-2xl font-bold text-white">{value}</div>
+  </div>
+);
+
+const SummaryCells: React.FC<{ row?: UsageSummary }> = ({ row }) => (
+  <>
+    <td className="py-2 px-3 text-right">{formatCount(row?.calls || 0)}</td>
+    <td className="py-2 px-3 text-right">{formatCount(row?.images || 0)}</td>
+    <td className="py-2 px-3 text-right">{formatCount(row?.videoSeconds || 0)}</td>
+    <td className="py-2 px-3 text-right">{formatCount((row?.inputTokens || 0) + (row?.outputTokens || 0))}</td>
+    <td className="py-2 px-3 text-right font-medium text-white">{formatCost(row?.cost || 0)}</td>
+  </>
+);
+
+const TableHead: React.FC<{ first: string; extra?: string[] }> = ({ first, extra = [] }) => (
+  <thead>
+    <tr className="text-xs uppercase text-zinc-500 border-b border-zinc-800">
+      <th className="py-2 px-3 text-left">{first}</th>
+      <th className="py-2 px-3 text-right">Calls</th>
+      <th className="py-2 px-3 text-right">Images</th>
+      <th className="py-2 px-3 text-right">Video s</th>
+      <th className="py-2 px-3 text-right">Tokens</th>
+      <th className="py-2 px-3 text-right">Est. cost</th>
+      {extra.map(h => <th key={h} className="py-2 px-3 text-left">{h}</th>)}
+    </tr>
+  </thead>
+);
+
+const BudgetInput: React.FC<{ brandId: string; cap?: number; spent: number }> = ({ brandId, cap, spent }) => {
+  const [draft, setDraft] = useState(cap !== undefined ? String(cap) : '');
+  const ratio = cap ? Math.min(spent / cap, 1) : 0;
+
+  const commit = () => {
+    const value = parseFloat(draft);
+    setBudgetCap(brandId, Number.isFinite(value) && value > 0 ? value : null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 min-w-[180px]">
+      <span className="text-zinc-500">$</span>
+      <input
+        type="number"
+        min="0"
+        step="0.5"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        placeholder="No cap"
+        className="w-20 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-xs outline-none focus:border-orange-500"
+      />
+      {cap !== undefined && (
+        <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden" title={`${Math.round(ratio * 100)}% of cap used`}>
+          <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${ratio * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ brands }) => {
+  const { records, budgets, prices } = useUsage();
+  const [featureBrandId, setFeatureBrandId] = useState<string>('all');
+
+  const totals = summarizeUsage(records, () => 'all')[0];
+  const byBrand = new Map(summarizeUsage(records, r => r.brandId || 'unassigned').map(row => [row.key, row]));
+  const otherBrandKeys = [...byBrand.keys()].filter(key => !brands.some(b => b.id === key));
+  const featureRecords = featureBrandId === 'all' ? records : records.filter(r => r.brandId === featureBrandId);
+  const byFeature = summarizeUsage(featureRecords, r => ACTION_FEATURES[r.action] || r.action);
+  const byModel = summarizeUsage(records, r => r.model);
+  const models = [...new Set([...Object.keys(prices), ...byModel.map(row => row.key)])];
+
+  const handleClear = () => {
+    if (confirm('Clear the whole usage history? Budget caps and prices are kept.')) clearUsage();
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2"><BarChart3 className="w-6 h-6 text-orange-500" /> Usage & Costs</h2>
+          <p className="text-zinc-400 text-sm">Estimated from the price table below. Your actual bill may differ.</p>
+        </div>
+        {records.length > 0 && (
+          <button onClick={handleClear} className="flex items-center gap-2 text-sm text-zinc-500 hover:text-red-400">
+            <Trash2 className="w-4 h-4" /> Clear history
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard icon={Coins} label="Est. cost" value={formatCost(totals?.cost || 0)} />
+        <StatCard icon={Hash} label="Calls" value={formatCount(totals?.calls || 0)} />
+        <StatCard icon={ImageIcon} label="Images" value={formatCount(totals?.images || 0)} />
+        <StatCard icon={Film} label="Video seconds" value={formatCount(totals?.videoSeconds || 0)} />
+      </div>
+
+      {/* By brand */}
+      <section className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+        <h3 className="text-white font-semibold mb-1">By brand</h3>
+        <p className="text-xs text-zinc-500 mb-4">A budget cap blocks further generation for that brand once its estimated spend reaches the cap.</p>
+        <table className="w-full text-sm text-zinc-300">
+          <TableHead first="Brand" extra={['Budget cap']} />
+          <tbody>
+            {brands.map(brand => (
+              <tr key={brand.id} className="border-b border-zinc-800/50">
+                <td className={`py-2 px-3 ${brand.archived ? 'text-zinc-500 italic' : ''}`}>{getBrandLabel(brand)}</td>
+                <SummaryCells row={byBrand.get(brand.id)} />
+                <td className="py-2 px-3">
+                  <BudgetInput brandId={brand.id} cap={budgets[brand.id]} spent={getBrandSpend(brand.id, records)} />
+                </td>
+              </tr>
+            ))}
+            {otherBrandKeys.map(key => (
+              <tr key={key} className="border-b border-zinc-800/50 text-zinc-500">
+                <td className="py-2 px-3 italic">{key === 'unassigned' ? 'Unassigned' : 'Deleted brand'}</td>
+                <SummaryCells row={byBrand.get(key)} />
+                <td />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {/* By feature */}
+      <section className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white font-semibold">By feature</h3>
+          <select
+            value={featureBrandId}
+            onChange={(e) => setFeatureBrandId(e.target.value)}
+            className="bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-sm text-zinc-300 outline-none focus:border-orange-500"
+          >
+            <option value="all">All brands</option>
+            {brands.map(b => <option key={b.id} value={b.id}>{getBrandLabel(b)}</option>)}
+          </select>
+        </div>
+        {byFeature.length === 0 ? (
+          <p className="text-sm text-zinc-600">No generations recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm text-zinc-300">
+            <TableHead first="Feature" />
+            <tbody>
+              {byFeature.map(row => (
+                <tr key={row.key} className="border-b border-zinc-800/50">
+                  <td className="py-2 px-3">{row.key}</td>
+                  <SummaryCells row={row} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Price table */}
+      <section className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-white font-semibold">Price table</h3>
+            <p className="text-xs text-zinc-500">USD. Changes apply to calls made from now on.</p>
+          </div>
+          <button onClick={resetPrices} className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white">
+            <RotateCcw className="w-3 h-3" /> Reset to defaults
+          </button>
+        </div>
+        <table className="w-full text-sm text-zinc-300">
+          <thead>
+            <tr className="text-xs uppercase text-zinc-500 border-b border-zinc-800">
+              <th className="py-2 px-3 text-left">Model</th>
+              {PRICE_FIELDS.map(f => <th key={f.key} className="py-2 px-3 text-left">{f.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(model => (
+              <tr key={model} className="border-b border-zinc-800/50">
+                <td className="py-2 px-3 font-mono text-xs">{model}</td>
+                {PRICE_FIELDS.map(f => (
+                  <td key={f.key} className="py-2 px-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={prices[model]?.[f.key] ?? ''}
+                      onChange={(e) => setModelPrice(model, {
+                        ...prices[model],
+                        [f.key]: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)
+                      })}
+                      placeholder="-"
+                      className="w-24 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-xs outline-none focus:border-orange-500"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default UsageDashboard;
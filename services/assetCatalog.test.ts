@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AssetSubtype, AssetType } from '../types';
+import { findSubtype, mergeSubtypes, mergedSubtypeIds } from './assetCatalog';
+
+const item = (id: string, name: string): AssetSubtype => ({
+  id, name, category: AssetType.MERCHANDISE, description: `A ${name.toLowerCase()}`, previewScene: 'generic'
+});
+
+describe('findSubtype', () => {
+  const subtypes = [item('bottle', 'Insulated Bottle')];
+
+  it('finds a renamed custom item by id', () => {
+    expect(findSubtype({ subtypes }, { subtype: 'Water Bottle', subtypeId: 'bottle' }).name).toBe('Insulated Bottle');
+  });
+
+  it('falls back to the name for records without an id', () => {
+    expect(findSubtype({ subtypes }, { subtype: 'insulated bottle' }).id).toBe('bottle');
+    expect(findSubtype({ subtypes }, 'Hoodie').id).toBe('builtin.hoodie');
+  });
+
+  it('describes items no longer in the catalog plainly', () => {
+    expect(findSubtype({ subtypes }, { subtype: 'Mug', subtypeId: 'deleted' })).toMatchObject({ name: 'Mug', description: 'A Mug', previewScene: 'generic' });
+  });
+});
+
+describe('mergeSubtypes', () => {
+  it('adds items with new names only, the first of each name', () => {
+    const merged = mergeSubtypes([item('a', 'Mug')], [item('b', 'mug'), item('c', 'Lanyard'), item('d', 'Lanyard '), item('e', 'Hoodie')]);
+    expect(merged.map(s => s.name)).toEqual(['Mug', 'Lanyard']);
+  });
+
+  it('gives items whose id is taken a new one, and maps the incoming ids', () => {
+    const incoming = [item('a', 'Lanyard'), item('x', 'Mug')];
+    const merged = mergeSubtypes([item('a', 'Mug')], incoming);
+    const lanyard = merged.find(s => s.name === 'Lanyard')!;
+
+    expect(lanyard.id).not.toBe('a');
+    const ids = mergedSubtypeIds(merged, incoming);
+    expect(ids.get('a')).toBe(lanyard.id);
+    expect(ids.get('x')).toBe('a');
+    expect(ids.get('builtin.hoodie')).toBe('builtin.hoodie');
+  });
+});
@@ -0,0 +1,133 @@
+import { AssetSubtype, AssetType, GeneratedAsset, PreviewScene } from "../types";
+import { GenerationContext } from "./generationContext";
+
+// --- ASSET CATALOG ---
+//
+// Every item the Studio can make: its category, the product description sent
+// with the prompt, its shape and size, and where its real-world preview is
+// set. Brands add their own items (a water bottle, a trade-show booth...) in
+// settings.subtypes; assets record the item's id and the name it had then.
+
+export const ASSET_CATEGORIES: { type: AssetType; label: string }[] = [
+  { type: AssetType.MERCHANDISE, label: 'Merch' },
+  { type: AssetType.MARKETING, label: 'Print' },
+  { type: AssetType.DIGITAL, label: 'Digital' }
+];
+
+export const BUILT_IN_SUBTYPES: AssetSubtype[] = [
+  {
+    id: 'builtin.hoodie', name: 'Hoodie', category: AssetType.MERCHANDISE, aspectRatio: '1:1', previewScene: 'apparel',
+    description: 'A pullover hoodie with a drawstring hood, kangaroo front pocket, and ribbed cuffs and hem. This is specifically a HOODIE with long sleeves and a hood, NOT a t-shirt.'
+  },
+  {
+    id: 'builtin.t-shirt', name: 'T-Shirt', category: AssetType.MERCHANDISE, aspectRatio: '1:1', previewScene: 'apparel',
+    description: 'A short-sleeved t-shirt with a crew neck. This is specifically a T-SHIRT with short sleeves and no hood, NOT a hoodie.'
+  },
+  {
+    id: 'builtin.cap', name: 'Cap', category: AssetType.MERCHANDISE, aspectRatio: '1:1', previewScene: 'headwear',
+    description: 'A baseball cap with curved brim and adjustable back strap.'
+  },
+  {
+    id: 'builtin.tote-bag', name: 'Tote Bag', category: AssetType.MERCHANDISE, aspectRatio: '1:1', previewScene: 'bag',
+    description: 'A canvas tote bag with sturdy handles.'
+  },
+  {
+    id: 'builtin.poster', name: 'Poster', category: AssetType.MARKETING, aspectRatio: '2:3', imageSize: '4K', previewScene: 'poster',
+    description: 'A portrait wall poster with one hero visual and a short, bold headline.'
+  },
+  {
+    id: 'builtin.flyer', name: 'Flyer', category: AssetType.MARKETING, aspectRatio: '3:4', previewScene: 'generic',
+    description: 'A single-sided portrait flyer with a headline, a few lines of copy and a clear call to action.'
+  },
+  {
+    id: 'builtin.billboard', name: 'Billboard', category: AssetType.MARKETING, aspectRatio: '16:9', imageSize: '4K', previewScene: 'billboard',
+    description: 'A roadside billboard: very few words, huge type and one image readable from a moving car.'
+  },
+  {
+    id: 'builtin.business-card', name: 'Business Card', category: AssetType.MARKETING, aspectRatio: '3:2', previewScene: 'generic',
+    description: 'The front of a landscape business card with the logo, a name, a title and contact details.'
+  },
+  {
+    id: 'builtin.social-post', name: 'Social Post', category: AssetType.DIGITAL, aspectRatio: '4:5', previewScene: 'generic',
+    description: 'A portrait feed post that stops the scroll, with little or no text.'
+  },
+  {
+    id: 'builtin.banner', name: 'Banner', category: AssetType.DIGITAL, aspectRatio: '21:9', previewScene: 'poster',
+    description: 'A wide website header or display banner with a short headline and a call to action.'
+  },
+  {
+    id: 'builtin.app-icon', name: 'App Icon', category: AssetType.DIGITAL, aspectRatio: '1:1', imageSize: '1K', previewScene: 'generic',
+    description: 'A square app icon with rounded corners: one simple, bold symbol and no text, legible at small sizes.'
+  }
+];
+
+export const PREVIEW_SCENES: { scene: PreviewScene; label: string }[] = [
+  { scene: 'apparel', label: 'Worn in an office' },
+  { scene: 'headwear', label: 'Worn outdoors' },
+  { scene: 'bag', label: 'Carried in the street' },
+  { scene: 'poster', label: 'On a wall' },
+  { scene: 'billboard', label: 'Beside a highway' },
+  { scene: 'generic', label: 'Studio showcase' }
+];
+
+// What the image models accept
+export const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+export const IMAGE_SIZES = ['1K', '2K', '4K'];
+
+export const getCatalog = (custom: AssetSubtype[] = []): AssetSubtype[] => [...BUILT_IN_SUBTYPES, ...custom];
+
+export const isBuiltInSubtype = (subtype: AssetSubtype) => BUILT_IN_SUBTYPES.some(s => s.id === subtype.id);
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// What assets, provenance and the Studio session record about their item
+export type SubtypeRef = Pick<GeneratedAsset, 'subtype' | 'subtypeId'>;
+
+// The catalog entry for a recorded item: by id, then by name for records from
+// before ids were kept. Items no longer in the catalog (a deleted custom item)
+// get a plain description and studio scene.
+export const findSubtype = (context: GenerationContext, ref: string | SubtypeRef): AssetSubtype => {
+  const { subtype: name, subtypeId } = typeof ref === 'string' ? { subtype: ref, subtypeId: undefined } : ref;
+  const catalog = getCatalog(context.subtypes);
+  return (subtypeId && catalog.find(s => s.id === subtypeId)) || catalog.find(s => sameName(s.name, name)) || {
+    id: `unknown.${name}`,
+    name,
+    category: AssetType.MERCHANDISE,
+    description: `A ${name}`,
+    previewScene: 'generic'
+  };
+};
+
+export const createSubtype = (category: AssetType): AssetSubtype => ({
+  id: crypto.randomUUID(),
+  name: '',
+  category,
+  description: '',
+  previewScene: 'generic'
+});
+
+// Why the subtype can't be saved, or null
+export const validateSubtype = (subtype: AssetSubtype, custom: AssetSubtype[]): string | null => {
+  if (!subtype.name.trim()) return 'Give the item a name';
+  if (!subtype.description.trim()) return 'Describe the item so the model draws the right thing';
+  if (getCatalog(custom).some(s => s.id !== subtype.id && sameName(s.name, subtype.name))) return `There is already an item called "${subtype.name.trim()}"`;
+  return null;
+};
+
+// Custom items of `incoming` whose names aren't taken yet, e.g. from an imported
+// brand kit; of several with the same name, the first wins
+export const mergeSubtypes = (current: AssetSubtype[], incoming: AssetSubtype[]): AssetSubtype[] =>
+  incoming.reduce((merged, s) => {
+    if (getCatalog(merged).some(c => sameName(c.name, s.name))) return merged;
+    return [...merged, merged.some(c => c.id === s.id) ? { ...s, id: crypto.randomUUID() } : s];
+  }, current);
+
+// Ids of `incoming` items (and the built-in ones) as they ended up after
+// mergeSubtypes, matched by name
+export const mergedSubtypeIds = (merged: AssetSubtype[], incoming: AssetSubtype[]): Map<string, string> => {
+  const catalog = getCatalog(merged);
+  return new Map(getCatalog(incoming).flatMap(s => {
+    const match = catalog.find(c => sameName(c.name, s.name));
+    return match ? [[s.id, match.id] as [string, string]] : [];
+  }));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BrandDNA } from '../types';
+import { applyFieldEdit, keepEditedFields, resolveColorRoles } from './brandDnaService';
+
+const dna: BrandDNA = {
+  name: 'Acme Coffee Co.',
+  description: 'Small-batch roaster',
+  colors: ['#1A1A1A', '#F4E9D8'],
+  typography: 'Inter',
+  visualEssence: 'Warm and crafted',
+  designSystem: '8px grid',
+  keywords: ['warm'],
+  colorRoles: { primary: { hex: '#1A1A1A' }, background: { hex: '#F4E9D8' } }
+};
+
+const regenerated: BrandDNA = {
+  ...dna,
+  typography: 'Roboto',
+  colors: ['#004488', '#FFFFFF'],
+  colorRoles: { primary: { hex: '#004488' }, background: { hex: '#FFFFFF' } }
+};
+
+describe('keepEditedFields', () => {
+  it('takes the regenerated DNA when nothing was edited', () => {
+    expect(keepEditedFields(dna, regenerated)).toBe(regenerated);
+  });
+
+  it('keeps hand-edited fields', () => {
+    const edited = applyFieldEdit(dna, 'typography', 'Our own words');
+    expect(keepEditedFields(edited, regenerated)).toMatchObject({ typography: 'Our own words', colors: regenerated.colors });
+  });
+
+  it('keeps the roles of a hand-edited palette', () => {
+    const edited = applyFieldEdit(dna, 'colors', ['#1A1A1A', '#F4E9D8', '#D9480F']);
+    const kept = keepEditedFields(edited, regenerated);
+
+    expect(kept.colors).toEqual(edited.colors);
+    expect(resolveColorRoles(kept)).toEqual(dna.colorRoles);
+    expect(kept.editedFields).toEqual(['colors']);
+  });
+});
@@ -0,0 +1,160 @@
+import { BrandDNA, ColorRole, ColorRoles, DNAField, DNAVersion, GeneratedAsset, RoleColor } from "../types";
+
+// --- BRAND DNA FIELDS ---
+//
+// The generated part of a BrandDNA, field by field. Hand edits are flagged in
+// `editedFields` so regenerating the whole DNA keeps them unless asked not to.
+// Every change is saved as a DNAVersion on the workspace.
+
+export const DNA_FIELDS: { field: DNAField; label: string }[] = [
+  { field: 'colors', label: 'Palette' },
+  { field: 'colorRoles', label: 'Color Roles' },
+  { field: 'typography', label: 'Typography' },
+  { field: 'visualEssence', label: 'Visual Essence' },
+  { field: 'keywords', label: 'Keywords' },
+  { field: 'designSystem', label: 'Design System Rules' }
+];
+
+export const getDNAFieldLabel = (field: DNAField) => DNA_FIELDS.find(f => f.field === field)?.label || field;
+
+export const isFieldEdited = (dna: BrandDNA, field: DNAField) => !!dna.editedFields?.includes(field);
+
+// A value typed in by the user
+export const applyFieldEdit = <F extends DNAField>(dna: BrandDNA, field: F, value: BrandDNA[F]): BrandDNA => ({
+  ...dna,
+  [field]: value,
+  editedFields: isFieldEdited(dna, field) ? dna.editedFields : [...(dna.editedFields || []), field]
+});
+
+// A value the model produced on request, so no longer a hand edit
+export const applyFieldRegeneration = <F extends DNAField>(dna: BrandDNA, field: F, value: BrandDNA[F]): BrandDNA => ({
+  ...dna,
+  [field]: value,
+  editedFields: dna.editedFields?.filter(f => f !== field)
+});
+
+// A full regeneration, with the previous DNA's hand-edited fields carried over.
+// New roles point at the new palette, so a kept palette keeps its roles too.
+export const keepEditedFields = (previous: BrandDNA | null, next: BrandDNA): BrandDNA => {
+  const edited = previous?.editedFields || [];
+  if (!previous || edited.length === 0) return next;
+  const kept = edited.includes('colors') && !edited.includes('colorRoles') ? [...edited, 'colorRoles' as const] : edited;
+  return { ...next, ...Object.fromEntries(kept.map(field => [field, previous[field]])), editedFields: edited };
+};
+
+// --- COLOR ROLES ---
+//
+// Prompts refer to palette colors by role, so reordering the palette changes
+// nothing. Roles point at palette colors by hex; a role whose color was
+// removed from the palette counts as unset.
+
+export const COLOR_ROLES: { role: ColorRole; label: string; description: string }[] = [
+  { role: 'primary', label: 'Primary', description: 'Main brand color, large surfaces' },
+  { role: 'secondary', label: 'Secondary', description: 'Supporting color' },
+  { role: 'accent', label: 'Accent', description: 'Highlights and calls to action' },
+  { role: 'background', label: 'Background', description: 'Behind text and content' },
+  { role: 'text', label: 'Text', description: 'Type and key graphics' },
+  { role: 'neutral', label: 'Neutral', description: 'Borders, dividers, muted areas' }
+];
+
+// The roles whose color is still in the palette
+export const resolveColorRoles = (dna: BrandDNA): ColorRoles =>
+  Object.fromEntries(Object.entries(dna.colorRoles).filter(([, c]) => c && dna.colors.includes(c.hex)));
+
+// What the palette's order used to mean: first color primary, second accent.
+// Only for DNA that comes without roles.
+export const positionalColorRoles = (colors: string[]): ColorRoles => ({
+  ...(colors[0] && { primary: { hex: colors[0] } }),
+  ...(colors[1] && { accent: { hex: colors[1] } })
+});
+
+export const formatRoleColor = (role: ColorRole, color: RoleColor) =>
+  `${role} ${color.hex}${color.usage !== undefined ? ` (${color.usage}%)` : ''}`;
+
+// "primary #1A2B3C (60%), accent #FF8800 (10%), also #EEEEEE" for prompts
+export const describePalette = (dna: BrandDNA) => {
+  const roles = resolveColorRoles(dna);
+  const assigned = COLOR_ROLES.filter(({ role }) => roles[role]).map(({ role }) => formatRoleColor(role, roles[role]!));
+  const used = new Set(Object.values(roles).map(c => c!.hex));
+  const others = dna.colors.filter(c => !used.has(c));
+  return [...assigned, ...(others.length > 0 ? [`also ${others.join(', ')}`] : [])].join(', ');
+};
+
+// --- VERSIONS ---
+
+export const getCurrentDNAVersion = (versions: DNAVersion[]): DNAVersion | undefined => versions[versions.length - 1];
+
+export const addDNAVersion = (versions: DNAVersion[], dna: BrandDNA, note: string): DNAVersion[] => [
+  ...versions,
+  { version: (getCurrentDNAVersion(versions)?.version || 0) + 1, dna, note, createdAt: Date.now() }
+];
+
+export const setDNAVersionNote = (versions: DNAVersion[], version: number, note: string): DNAVersion[] =>
+  versions.map(v => v.version === version ? { ...v, note } : v);
+
+// Same generated fields, i.e. assets made under one still match the other
+export const isSameDesign = (a: BrandDNA, b: BrandDNA) =>
+  DNA_FIELDS.every(({ field }) => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+
+// Drafted under a DNA version whose design differs from the current one.
+// Assets from before version history have no version and are never flagged.
+export const isAssetOffBrand = (asset: GeneratedAsset, versions: DNAVersion[], current: BrandDNA | null) => {
+  const version = versions.find(v => v.version === asset.dnaVersion);
+  return !!version && !!current && !isSameDesign(version.dna, current);
+};
+
+// --- DIFF ---
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+export interface TextDiff {
+  before: string;
+  after: string;
+}
+
+export interface DNADiff {
+  colors: ListDiff;
+  colorRoles: ListDiff; // By "role #hex (usage%)"
+  keywords: ListDiff;
+  designSystem: ListDiff; // By rule (line)
+  typography: TextDiff | null; // null when unchanged
+  visualEssence: TextDiff | null;
+}
+
+// Case-insensitive, in the order of `after` (removed ones in the order of `before`)
+const diffList = (before: string[], after: string[]): ListDiff => {
+  const beforeKeys = new Set(before.map(v => v.toLowerCase()));
+  const afterKeys = new Set(after.map(v => v.toLowerCase()));
+  return {
+    added: after.filter(v => !beforeKeys.has(v.toLowerCase())),
+    removed: before.filter(v => !afterKeys.has(v.toLowerCase())),
+    kept: after.filter(v => beforeKeys.has(v.toLowerCase()))
+  };
+};
+
+// Design system rules are bullet points, one per line
+export const ruleLines = (rules: string) =>
+  rules.split('\n').map(line => line.replace(/^\s*[-*•]\s*/, '').trim()).filter(Boolean);
+
+const diffText = (before: string, after: string): TextDiff | null =>
+  before.trim() === after.trim() ? null : { before, after };
+
+const roleEntries = (dna: BrandDNA) =>
+  COLOR_ROLES.filter(({ role }) => dna.colorRoles[role]).map(({ role }) => formatRoleColor(role, dna.colorRoles[role]!));
+
+export const diffDNA = (before: BrandDNA, after: BrandDNA): DNADiff => ({
+  colors: diffList(before.colors, after.colors),
+  colorRoles: diffList(roleEntries(before), roleEntries(after)),
+  keywords: diffList(before.keywords, after.keywords),
+  designSystem: diffList(ruleLines(before.designSystem), ruleLines(after.designSystem)),
+  typography: diffText(before.typography, after.typography),
+  visualEssence: diffText(before.visualEssence, after.visualEssence)
+});
+
+export const isEmptyDiff = (diff: DNADiff) =>
+  !diff.typography && !diff.visualEssence &&
+  [diff.colors, diff.colorRoles, diff.keywords, diff.designSystem].every(d => d.added.length === 0 && d.removed.length === 0);
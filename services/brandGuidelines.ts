@@ -0,0 +1,253 @@
+import { BrandDNA, GeneratedAsset } from "../types";
+import { COLOR_ROLES, resolveColorRoles, ruleLines } from "./brandDnaService";
+import { hexToRgb, rgbToCmyk } from "./color";
+import { contrastRatio, formatRatio, paletteContrastPairs } from "./contrast";
+import { FontToken, fileSlug, inferFonts } from "./designTokens";
+
+// --- BRAND GUIDELINES ---
+//
+// A multi-page brand book as one self-contained HTML document: styles inline
+// and images as data URLs, so it can be saved, mailed or printed to PDF
+// without the app. Each section is an A4 page when printed.
+
+export interface GuidelinesOptions {
+  assets: GeneratedAsset[]; // Example applications, in order
+  dnaVersion?: number;
+  createdAt?: number;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const fontStack = (font: FontToken) => font.family ? `"${font.family}", ${font.fallback}` : font.fallback;
+
+// Black or white, whichever reads better on `hex`
+const inkFor = (hex: string) => contrastRatio(hex, '#000000') >= contrastRatio(hex, '#FFFFFF') ? '#000000' : '#FFFFFF';
+
+// Keep-clear margin around the logo, as a share of its height
+const CLEAR_SPACE = 0.25;
+
+const styles = (fonts: { heading: FontToken; body: FontToken }) => `
+  @page { size: A4; margin: 0; }
+  * { box-sizing: border-box; }
+  html { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { margin: 0; background: #E4E4E7; color: #18181B; font-family: ${fontStack(fonts.body)}; font-size: 11pt; line-height: 1.5; }
+  h1, h2, h3 { font-family: ${fontStack(fonts.heading)}; font-weight: ${fonts.heading.weight}; margin: 0 0 8mm; line-height: 1.15; }
+  h1 { font-size: 40pt; }
+  h2 { font-size: 24pt; }
+  h3 { font-size: 12pt; margin-bottom: 3mm; text-transform: uppercase; letter-spacing: 0.08em; color: #52525B; }
+  p { margin: 0 0 4mm; }
+  .page { position: relative; width: 210mm; min-height: 297mm; margin: 10mm auto; padding: 20mm 18mm 24mm; background: #FFFFFF; box-shadow: 0 2px 12px rgba(0,0,0,0.15); break-after: page; }
+  .page:last-child { break-after: auto; }
+  .page footer { position: absolute; left: 18mm; right: 18mm; bottom: 10mm; display: flex; justify-content: space-between; font-size: 8pt; color: #A1A1AA; }
+  .cover { display: flex; flex-direction: column; justify-content: center; }
+  .cover .logo { max-width: 60mm; max-height: 40mm; margin-bottom: 12mm; }
+  .muted { color: #71717A; }
+  .section { margin-bottom: 10mm; }
+  .grid { display: grid; gap: 6mm; }
+  .grid-2 { grid-template-columns: 1fr 1fr; }
+  .grid-3 { grid-template-columns: 1fr 1fr 1fr; }
+  .clear-space { display: inline-block; border: 1px dashed #F97316; background: repeating-linear-gradient(45deg, #FFF7ED, #FFF7ED 4px, #FFFFFF 4px, #FFFFFF 8px); }
+  .clear-space .inner { background: #FFFFFF; display: flex; align-items: center; justify-content: center; }
+  .logo-tile { height: 35mm; border-radius: 3mm; display: flex; align-items: center; justify-content: center; border: 1px solid #E4E4E7; }
+  .logo-tile img { max-width: 70%; max-height: 60%; }
+  .wordmark { font-family: ${fontStack(fonts.heading)}; font-weight: ${fonts.heading.weight}; font-size: 22pt; }
+  .swatch { border-radius: 3mm; overflow: hidden; border: 1px solid #E4E4E7; break-inside: avoid; }
+  .swatch .chip { height: 28mm; padding: 4mm; display: flex; align-items: flex-end; font-weight: 700; }
+  .swatch dl { margin: 0; padding: 3mm 4mm; display: grid; grid-template-columns: auto 1fr; gap: 1mm 4mm; font-size: 9pt; }
+  .swatch dt { color: #71717A; }
+  .swatch dd { margin: 0; font-family: ui-monospace, monospace; }
+  .usage { display: flex; height: 8mm; border-radius: 2mm; overflow: hidden; border: 1px solid #E4E4E7; }
+  .pair { display: flex; align-items: center; gap: 3mm; font-size: 9pt; }
+  .pair .sample { width: 14mm; height: 10mm; border-radius: 1.5mm; display: flex; align-items: center; justify-content: center; font-weight: 700; }
+  .specimen { border: 1px solid #E4E4E7; border-radius: 3mm; padding: 6mm; }
+  .specimen .big { font-size: 48pt; line-height: 1; margin-bottom: 4mm; }
+  ul.rules { padding-left: 5mm; margin: 0; }
+  ul.rules li { margin-bottom: 2mm; }
+  .keywords { display: flex; flex-wrap: wrap; gap: 2mm; }
+  .keywords span { padding: 1.5mm 4mm; border-radius: 10mm; border: 1px solid #D4D4D8; font-weight: 700; text-transform: uppercase; font-size: 9pt; letter-spacing: 0.05em; }
+  blockquote { margin: 0 0 8mm; padding-left: 6mm; border-left: 2mm solid #F97316; font-size: 14pt; font-style: italic; }
+  .application { break-inside: avoid; }
+  .application img { width: 100%; border-radius: 3mm; border: 1px solid #E4E4E7; display: block; }
+  .application p { font-size: 9pt; margin-top: 2mm; }
+  @media print {
+    body { background: none; }
+    .page { margin: 0; box-shadow: none; }
+  }
+`;
+
+// --- SECTIONS ---
+
+const logoPage = (dna: BrandDNA) => {
+  const roles = resolveColorRoles(dna);
+  const mark = (height: string) => dna.logoImage
+    ? `<img src="${escapeHtml(dna.logoImage)}" alt="${escapeHtml(dna.name)} logo" style="height: ${height}; display: block;">`
+    : `<span class="wordmark" style="line-height: ${height}">${escapeHtml(dna.name)}</span>`;
+  const backgrounds = [
+    { label: 'On background', hex: roles.background?.hex || '#FFFFFF' },
+    { label: 'On primary', hex: roles.primary?.hex || '#18181B' },
+    { label: 'On text color', hex: roles.text?.hex || '#18181B' }
+  ];
+  const pad = `calc(30mm * ${CLEAR_SPACE})`;
+
+  return `
+    <h2>Logo</h2>
+    <div class="section">
+      <h3>Clear space</h3>
+      <p>Keep a margin of at least ${CLEAR_SPACE * 100}% of the logo's height free on every side. No text, edges or other graphics inside it.</p>
+      <div class="clear-space" style="padding: ${pad}"><div class="inner">${mark('30mm')}</div></div>
+    </div>
+    <div class="section">
+      <h3>Minimum size</h3>
+      <p>At least 32 px tall on screen and 12 mm tall in print, so every detail stays legible.</p>
+    </div>
+    <div class="section">
+      <h3>Backgrounds</h3>
+      <div class="grid grid-3">
+        ${backgrounds.map(b => `
+          <div>
+            <div class="logo-tile" style="background: ${b.hex}">${dna.logoImage ? `<img src="${escapeHtml(dna.logoImage)}" alt="">` : `<span class="wordmark" style="color: ${inkFor(b.hex)}">${escapeHtml(dna.name)}</span>`}</div>
+            <p class="muted">${b.label} ${b.hex}</p>
+          </div>`).join('')}
+      </div>
+    </div>
+    <div class="section">
+      <h3>Don't</h3>
+      <ul class="rules">
+        <li>Stretch, squash, rotate or crop the logo.</li>
+        <li>Recolor it outside the palette or add shadows, outlines or gradients.</li>
+        <li>Place it on busy photos or backgrounds that hide its edges.</li>
+      </ul>
+    </div>`;
+};
+
+const colorPage = (dna: BrandDNA) => {
+  const roles = resolveColorRoles(dna);
+  const assigned = COLOR_ROLES.filter(({ role }) => roles[role]);
+  const rolesOf = (hex: string) => assigned.filter(({ role }) => roles[role]!.hex === hex);
+  const withUsage = assigned.filter(({ role }) => roles[role]!.usage);
+  const pairs = paletteContrastPairs(dna.colors).filter(p => p.rating.aaNormal).slice(0, 6);
+
+  const swatch = (hex: string) => {
+    const [r, g, b] = hexToRgb(hex);
+    const [c, m, y, k] = rgbToCmyk([r, g, b]);
+    const names = rolesOf(hex);
+    const usage = names.map(({ role }) => roles[role]!.usage).find(u => u !== undefined);
+    return `
+      <div class="swatch">
+        <div class="chip" style="background: ${hex}; color: ${inkFor(hex)}">${names.map(n => n.label).join(' / ') || 'Palette'}</div>
+        <dl>
+          <dt>HEX</dt><dd>${hex}</dd>
+          <dt>RGB</dt><dd>${r}, ${g}, ${b}</dd>
+          <dt>CMYK</dt><dd>${c}, ${m}, ${y}, ${k}</dd>
+          ${usage !== undefined ? `<dt>Usage</dt><dd>about ${usage}%</dd>` : ''}
+        </dl>
+      </div>`;
+  };
+
+  return `
+    <h2>Color</h2>
+    <div class="section grid grid-3">${dna.colors.map(swatch).join('')}</div>
+    ${withUsage.length > 0 ? `
+      <div class="section">
+        <h3>Proportions</h3>
+        <div class="usage">${withUsage.map(({ role }) => `<div style="flex: ${roles[role]!.usage}; background: ${roles[role]!.hex}"></div>`).join('')}</div>
+        <p class="muted" style="margin-top: 2mm">${withUsage.map(({ role, label }) => `${label} ${roles[role]!.usage}%`).join(' · ')}</p>
+      </div>` : ''}
+    ${pairs.length > 0 ? `
+      <div class="section">
+        <h3>Legible combinations</h3>
+        <div class="grid grid-2">
+          ${pairs.map(p => `<div class="pair"><div class="sample" style="background: ${p.b}; color: ${p.a}">Aa</div>${p.a} on ${p.b} · ${formatRatio(p.ratio)}${p.rating.aaaNormal ? ' (AAA)' : ' (AA)'}</div>`).join('')}
+        </div>
+      </div>` : ''}
+    <p class="muted">CMYK values are uncalibrated conversions; proof them with your printer.</p>`;
+};
+
+const typographyPage = (dna: BrandDNA, fonts: { heading: FontToken; body: FontToken }) => {
+  const specimen = (label: string, font: FontToken) => `
+    <div class="specimen" style="font-family: ${fontStack(font)}; font-weight: ${font.weight}">
+      <h3>${label}</h3>
+      <div class="big">Aa</div>
+      <p><strong>${escapeHtml(font.family || `Any ${font.fallback}`)}</strong> · weight ${font.weight}</p>
+      <p>ABCDEFGHIJKLMNOPQRSTUVWXYZ<br>abcdefghijklmnopqrstuvwxyz<br>0123456789 &amp;!?</p>
+    </div>`;
+  return `
+    <h2>Typography</h2>
+    <div class="section grid grid-2">${specimen('Headings', fonts.heading)}${specimen('Body', fonts.body)}</div>
+    <div class="section">
+      <h3>Specification</h3>
+      <p>${escapeHtml(dna.typography)}</p>
+    </div>`;
+};
+
+const designSystemPage = (dna: BrandDNA) => `
+  <h2>Design System</h2>
+  <ul class="rules">${ruleLines(dna.designSystem).map(rule => `<li>${escapeHtml(rule)}</li>`).join('')}</ul>`;
+
+const voicePage = (dna: BrandDNA) => `
+  <h2>Voice &amp; Feel</h2>
+  <blockquote>${escapeHtml(dna.visualEssence)}</blockquote>
+  <div class="section">
+    <h3>Keywords</h3>
+    <div class="keywords">${dna.keywords.map(k => `<span>${escapeHtml(k)}</span>`).join('')}</div>
+  </div>
+  ${dna.description ? `<div class="section"><h3>About</h3><p>${escapeHtml(dna.description)}</p></div>` : ''}`;
+
+const applicationsPage = (assets: GeneratedAsset[]) => `
+  <h2>Applications</h2>
+  <div class="grid grid-2">
+    ${assets.map(a => `
+      <div class="application">
+        <img src="${escapeHtml(a.url)}" alt="${escapeHtml(a.subtype)}">
+        <p class="muted">${escapeHtml(a.subtype)}</p>
+      </div>`).join('')}
+  </div>`;
+
+// --- DOCUMENT ---
+
+export const buildGuidelinesHtml = (dna: BrandDNA, { assets, dnaVersion, createdAt = Date.now() }: GuidelinesOptions): string => {
+  const fonts = inferFonts(dna.typography);
+  const date = new Date(createdAt).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  const edition = `${date}${dnaVersion ? ` · DNA v${dnaVersion}` : ''}`;
+
+  const sections = [
+    logoPage(dna),
+    colorPage(dna),
+    typographyPage(dna, fonts),
+    designSystemPage(dna),
+    voicePage(dna),
+    ...(assets.length > 0 ? [applicationsPage(assets)] : [])
+  ];
+
+  const page = (content: string, number: number) => `
+  <section class="page">
+    ${content}
+    <footer><span>${escapeHtml(dna.name)} Brand Guidelines</span><span>${number}</span></footer>
+  </section>`;
+
+  const cover = `
+  <section class="page cover">
+    ${dna.logoImage ? `<img class="logo" src="${escapeHtml(dna.logoImage)}" alt="">` : ''}
+    <h1>${escapeHtml(dna.name)}</h1>
+    <p style="font-size: 16pt">Brand Guidelines</p>
+    <p class="muted">${edition}</p>
+  </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(dna.name)} Brand Guidelines</title>
+<style>${styles(fonts)}</style>
+</head>
+<body>
+${cover}
+${sections.map((content, i) => page(content, i + 2)).join('\n')}
+</body>
+</html>
+`;
+};
+
+export const guidelinesFileName = (dna: BrandDNA) => `${fileSlug(dna.name)}-brand-guidelines.html`;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { BrandKitError, KIT_FORMAT, KIT_VERSION, mergeBrandKit, importKitAsBrand, readBrandKit } from './brandKitService';
+import { SCHEMA_VERSION } from './storageService';
+import { createWorkspace } from './workspaceService';
+import { createZip } from './zip';
+
+const RED = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+// A kit zip holding `brand` as brand.json, with no packed files
+const kitZip = (brand: unknown): Blob => {
+  const encoder = new TextEncoder();
+  const manifest = {
+    format: KIT_FORMAT,
+    version: KIT_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: 0,
+    brand: { id: 'kit', name: 'Kit' },
+    counts: { inspirations: 0, assets: 0, videos: 0, dnaVersions: 0 },
+    files: [],
+    warnings: []
+  };
+  return createZip([
+    { path: 'manifest.json', data: encoder.encode(JSON.stringify(manifest)) },
+    { path: 'brand.json', data: encoder.encode(JSON.stringify(brand)) }
+  ]);
+};
+
+// Only the fields the old check looked at
+const bareBrand = {
+  id: 'kit',
+  inspirations: [{ id: 'i1', imageUrl: RED, description: '', extractedCues: [] }],
+  assets: [],
+  dnaVersions: []
+};
+
+describe('readBrandKit', () => {
+  it('fills in the parts of a brand the kit leaves out', async () => {
+    const kit = await readBrandKit(kitZip(bareBrand));
+
+    expect(kit.brand.moodBoards).toEqual([]);
+    expect(kit.brand.studio.inspirationWeights).toEqual({});
+    expect(kit.brand.settings.subtypes).toEqual([]);
+    expect(kit.brand.ads.messages).toEqual([]);
+    expect(kit.brand.inspirations[0]).toMatchObject({ pinnedCues: [], tags: [] });
+  });
+
+  it('imports and merges a kit with missing parts', async () => {
+    const kit = await readBrandKit(kitZip(bareBrand));
+
+    expect(importKitAsBrand(kit, []).brand.moodBoards).toEqual([]);
+    const merged = mergeBrandKit(createWorkspace(), kit, 'keep');
+    expect(merged.brand.inspirations).toHaveLength(1);
+  });
+
+  it('rejects items the app cannot use', async () => {
+    await expect(readBrandKit(kitZip({ ...bareBrand, inspirations: [{ id: 'i1' }] }))).rejects.toThrow(BrandKitError);
+    await expect(readBrandKit(kitZip({ ...bareBrand, moodBoards: 'boards' }))).rejects.toThrow(/mood board/);
+    await expect(readBrandKit(kitZip({ id: 'kit' }))).rejects.toThrow(/brand workspace/);
+    await expect(readBrandKit(kitZip({ ...bareBrand, assets: [{ id: 'a1', url: RED, type: 'POSTCARD' }] }))).rejects.toThrow(/unknown type/);
+  });
+
+  it('drops values of the wrong kind from optional parts', async () => {
+    const kit = await readBrandKit(kitZip({
+      ...bareBrand,
+      dna: { name: 'Kit', colors: ['#FF0000', 7], colorRoles: { primary: { hex: '#FF0000' }, accent: 'red' } },
+      studio: { inspirationWeights: { i1: 'strong', i2: 'loud' } },
+      settings: { subtypes: [{ id: 'mug', name: 'Mug', category: 'MERCHANDISE', previewScene: 'moon' }, { name: 'No id' }] }
+    }));
+
+    expect(kit.brand.dna).toMatchObject({ colors: ['#FF0000'], colorRoles: { primary: { hex: '#FF0000' } }, keywords: [] });
+    expect(kit.brand.dna?.colorRoles.accent).toBeUndefined();
+    expect(kit.brand.studio.inspirationWeights).toEqual({ i1: 'strong' });
+    expect(kit.brand.settings.subtypes).toEqual([{ id: 'mug', name: 'Mug', category: 'MERCHANDISE', description: '', previewScene: 'generic' }]);
+  });
+});
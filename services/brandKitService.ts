@@ -0,0 +1,581 @@
+import {
+  AdSession, AssetSubtype, AssetType, BrandDNA, BrandWorkspace, ColorRoles, DNAVersion, GeneratedAsset, Inspiration, InspirationWeight,
+  MoodBoard, Provenance, ProvenanceStep, ProvenanceStepKind, StudioSession, WorkspaceSettings
+} from "../types";
+import { SCHEMA_VERSION, blobToDataUrl, dataUrlToBlob, migrateState } from "./storageService";
+import { createAdSession, createWorkspaceSettings, createStudioSession, getBrandLabel } from "./workspaceService";
+import { COLOR_ROLES, getCurrentDNAVersion } from "./brandDnaService";
+import { fileSlug } from "./designTokens";
+import { PREVIEW_SCENES, mergeSubtypes, mergedSubtypeIds } from "./assetCatalog";
+import { INSPIRATION_WEIGHTS } from "./inspirationService";
+import { ZipEntry, ZipError, createZip, readZip } from "./zip";
+
+// --- BRAND KITS ---
+//
+// A brand kit is one brand workspace packed into a zip so it can move between
+// browsers or be handed to someone else:
+//
+//   manifest.json  what's inside and which format/schema version wrote it
+//   brand.json     the workspace, with every image and video swapped for a
+//                  `kit-file:<path>` reference
+//   media/...      the images and videos themselves
+//
+// Rendered videos are only held as URLs. Those are fetched into the kit rather
+// than written out, since a provider URL can carry the API key.
+
+export const KIT_FORMAT = 'brand-forge-kit';
+// Bump when the layout above changes; brand.json itself is versioned by schemaVersion
+export const KIT_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const BRAND_PATH = 'brand.json';
+const KIT_FILE_PREFIX = 'kit-file:';
+const VIDEO_KEYS = new Set(['videoUrl', 'previewVideoUrl']);
+
+export interface KitFile {
+  path: string;
+  mimeType: string;
+  size: number; // Bytes
+}
+
+export interface KitManifest {
+  format: typeof KIT_FORMAT;
+  version: number;
+  schemaVersion: number; // SCHEMA_VERSION of brand.json
+  exportedAt: number;
+  brand: { id: string; name: string };
+  counts: { inspirations: number; assets: number; videos: number; dnaVersions: number };
+  files: KitFile[];
+  warnings: string[]; // Media that could not be packed
+}
+
+export interface BrandKit {
+  manifest: KitManifest;
+  brand: BrandWorkspace; // Migrated to the current schema, media as data URLs
+}
+
+export class BrandKitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrandKitError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov'
+};
+
+export const kitFileName = (brand: BrandWorkspace) => `${fileSlug(getBrandLabel(brand))}-brand-kit.zip`;
+
+// --- EXPORT ---
+
+const isMedia = (value: string, key: string | undefined) =>
+  value.startsWith('data:') || value.startsWith('blob:') || (!!key && VIDEO_KEYS.has(key) && /^https?:/.test(value));
+
+export const exportBrandKit = async (brand: BrandWorkspace): Promise<{ blob: Blob; manifest: KitManifest }> => {
+  const entries: ZipEntry[] = [];
+  const files: KitFile[] = [];
+  const warnings: string[] = [];
+  // Identical images (the logo in every DNA version, a final image repeated as
+  // its last provenance step) are packed once
+  const pathsByValue = new Map<string, string | undefined>();
+
+  const pack = async (value: string, key: string | undefined, where: string): Promise<string | undefined> => {
+    if (pathsByValue.has(value)) {
+      const path = pathsByValue.get(value);
+      return path && `${KIT_FILE_PREFIX}${path}`;
+    }
+
+    let blob: Blob;
+    try {
+      if (value.startsWith('data:')) {
+        blob = dataUrlToBlob(value);
+      } else {
+        const response = await fetch(value);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        blob = await response.blob();
+      }
+    } catch (e) {
+      // Never echo the URL itself, it may contain the API key
+      console.warn(`📦 [BRAND KIT] Could not pack ${where}`, e);
+      warnings.push(`Left out ${where}: it could not be downloaded`);
+      pathsByValue.set(value, undefined);
+      return undefined;
+    }
+
+    const mimeType = blob.type || (key && VIDEO_KEYS.has(key) ? 'video/mp4' : 'application/octet-stream');
+    const path = `media/${String(files.length + 1).padStart(3, '0')}.${EXTENSIONS[mimeType] || 'bin'}`;
+    const data = new Uint8Array(await blob.arrayBuffer());
+    entries.push({ path, data });
+    files.push({ path, mimeType, size: data.length });
+    pathsByValue.set(value, path);
+    return `${KIT_FILE_PREFIX}${path}`;
+  };
+
+  // One file at a time, so only a single video is being downloaded at once
+  const walk = async (value: unknown, key: string | undefined, where: string): Promise<unknown> => {
+    if (typeof value === 'string') return isMedia(value, key) ? pack(value, key, where) : value;
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < value.length; i++) items.push(await walk(value[i], undefined, `${where}[${i}]`));
+      return items;
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) result[k] = await walk(v, k, `${where}.${k}`);
+      return result;
+    }
+    return value;
+  };
+
+  const packed = await walk(brand, undefined, 'brand');
+
+  const manifest: KitManifest = {
+    format: KIT_FORMAT,
+    version: KIT_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    brand: { id: brand.id, name: getBrandLabel(brand) },
+    counts: {
+      inspirations: brand.inspirations.length,
+      assets: brand.assets.length,
+      videos: files.filter(f => f.mimeType.startsWith('video/')).length,
+      dnaVersions: brand.dnaVersions.length
+    },
+    files,
+    warnings
+  };
+
+  const encoder = new TextEncoder();
+  const blob = createZip([
+    { path: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { path: BRAND_PATH, data: encoder.encode(JSON.stringify(packed)) },
+    ...entries
+  ]);
+  console.log(`📦 [BRAND KIT] Exported "${manifest.brand.name}": ${files.length} files, ${warnings.length} warnings`);
+  return { blob, manifest };
+};
+
+// --- IMPORT ---
+
+const parseJson = (bytes: Uint8Array | undefined, path: string): unknown => {
+  if (!bytes) throw new BrandKitError(`This kit has no ${path}`);
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new BrandKitError(`${path} is not valid JSON`);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const strings = (value: unknown): string[] => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+const text = (value: unknown, fallback = ''): string => typeof value === 'string' ? value : fallback;
+const optionalText = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+const number = (value: unknown, fallback = 0): number => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+const optionalNumber = (value: unknown): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const isVersion = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+const isAssetType = (value: unknown): value is AssetType => typeof value === 'string' && Object.values<string>(AssetType).includes(value);
+
+// The fields of a checked item that the import carries over without reading.
+// Everything it does read is checked and set explicitly on top.
+const carried = <T>(item: Record<string, unknown>): Partial<T> => item as Partial<T>;
+
+const validateManifest = (manifest: unknown, archive: Map<string, Uint8Array>): KitManifest => {
+  if (!isObject(manifest) || manifest.format !== KIT_FORMAT) throw new BrandKitError('This zip is not a Brand Forge brand kit');
+  const { version, schemaVersion } = manifest;
+  if (!isVersion(version)) throw new BrandKitError('The kit manifest has no valid version');
+  if (version > KIT_VERSION) {
+    throw new BrandKitError(`This kit uses format v${version}, but this build only reads up to v${KIT_VERSION}. Update Brand Forge to import it.`);
+  }
+  if (!isVersion(schemaVersion)) throw new BrandKitError('The kit manifest has no valid schema version');
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new BrandKitError(`This kit was exported by a newer Brand Forge (schema v${schemaVersion}, this build understands v${SCHEMA_VERSION}).`);
+  }
+  if (!Array.isArray(manifest.files)) throw new BrandKitError('The kit manifest has no file list');
+  const files = manifest.files.map((file: unknown, i): KitFile => {
+    if (!isObject(file) || typeof file.path !== 'string' || typeof file.mimeType !== 'string') {
+      throw new BrandKitError(`File ${i + 1} in the kit manifest has no path or type`);
+    }
+    return { path: file.path, mimeType: file.mimeType, size: number(file.size) };
+  });
+  const missing = files.filter(f => !archive.has(f.path));
+  if (missing.length > 0) throw new BrandKitError(`The kit is missing ${missing.length} of its files, e.g. ${missing[0].path}`);
+
+  const brand = isObject(manifest.brand) ? manifest.brand : {};
+  const counts = isObject(manifest.counts) ? manifest.counts : {};
+  return {
+    format: KIT_FORMAT,
+    version,
+    schemaVersion,
+    exportedAt: number(manifest.exportedAt),
+    brand: { id: text(brand.id), name: text(brand.name, 'Untitled Brand') },
+    counts: {
+      inspirations: number(counts.inspirations),
+      assets: number(counts.assets),
+      videos: number(counts.videos),
+      dnaVersions: number(counts.dnaVersions)
+    },
+    files,
+    warnings: strings(manifest.warnings)
+  };
+};
+
+type PackedBrand = Record<string, unknown> & { id: string; inspirations: unknown[]; assets: unknown[]; dnaVersions: unknown[] };
+
+const isWorkspace = (brand: unknown): brand is PackedBrand =>
+  isObject(brand) &&
+  typeof brand.id === 'string' &&
+  Array.isArray(brand.inspirations) &&
+  Array.isArray(brand.assets) &&
+  Array.isArray(brand.dnaVersions);
+
+const kitColorRoles = (value: unknown): ColorRoles => {
+  const roles = isObject(value) ? value : {};
+  return Object.fromEntries(COLOR_ROLES.flatMap(({ role }) => {
+    const color = roles[role];
+    return isObject(color) && typeof color.hex === 'string' ? [[role, { hex: color.hex, usage: optionalNumber(color.usage) }]] : [];
+  }));
+};
+
+const kitDNA = (value: unknown): BrandDNA | null => isObject(value) ? {
+  ...carried<BrandDNA>(value),
+  name: text(value.name),
+  description: text(value.description),
+  colors: strings(value.colors),
+  typography: text(value.typography),
+  visualEssence: text(value.visualEssence),
+  designSystem: text(value.designSystem),
+  keywords: strings(value.keywords),
+  colorRoles: kitColorRoles(value.colorRoles)
+} : null;
+
+const kitWeights = (value: unknown): Record<string, InspirationWeight> =>
+  Object.fromEntries(Object.entries(isObject(value) ? value : {})
+    .filter((entry): entry is [string, InspirationWeight] => INSPIRATION_WEIGHTS.some(({ weight }) => weight === entry[1])));
+
+const STEP_KINDS: ProvenanceStepKind[] = ['draft', 'edit', 'finalize'];
+
+const kitStep = (step: unknown): ProvenanceStep[] => {
+  if (!isObject(step) || typeof step.imageUrl !== 'string') return [];
+  const kind = STEP_KINDS.find(k => k === step.kind);
+  if (!kind) return [];
+  return [{ ...carried<ProvenanceStep>(step), kind, prompt: text(step.prompt), model: text(step.model), imageUrl: step.imageUrl, createdAt: number(step.createdAt) }];
+};
+
+// Provenance the app can't follow (no DNA snapshot) is dropped, as before it was recorded
+const kitProvenance = (value: unknown, assetType: AssetType): Provenance | undefined => {
+  if (!isObject(value)) return undefined;
+  const dna = kitDNA(value.dna);
+  if (!dna) return undefined;
+  return {
+    ...carried<Provenance>(value),
+    draftId: text(value.draftId),
+    assetType: isAssetType(value.assetType) ? value.assetType : assetType,
+    subtype: text(value.subtype),
+    subtypeId: optionalText(value.subtypeId),
+    dna,
+    dnaVersion: optionalNumber(value.dnaVersion),
+    inspirationIds: strings(value.inspirationIds),
+    inspirationWeights: value.inspirationWeights === undefined ? undefined : kitWeights(value.inspirationWeights),
+    steps: Array.isArray(value.steps) ? value.steps.flatMap(kitStep) : []
+  };
+};
+
+const kitSubtype = (value: unknown): AssetSubtype[] => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !isAssetType(value.category)) return [];
+  const previewScene = PREVIEW_SCENES.find(({ scene }) => scene === value.previewScene)?.scene || 'generic';
+  return [{ ...carried<AssetSubtype>(value), id: value.id, name: value.name, category: value.category, description: text(value.description), previewScene }];
+};
+
+// Everything the import and merge paths read, checked after migration. Items
+// the app can't work without fail the import; optional parts get defaults.
+const normalizeKitBrand = (brand: unknown): BrandWorkspace => {
+  if (!isWorkspace(brand)) throw new BrandKitError('brand.json does not contain a brand workspace');
+  if (brand.moodBoards !== undefined && !Array.isArray(brand.moodBoards)) throw new BrandKitError('brand.json has an invalid mood board list');
+  const now = Date.now();
+
+  const inspirations = brand.inspirations.map((insp, i): Inspiration => {
+    if (!isObject(insp) || typeof insp.id !== 'string' || typeof insp.imageUrl !== 'string') throw new BrandKitError(`Inspiration ${i + 1} in brand.json has no id or image`);
+    return {
+      ...carried<Inspiration>(insp),
+      id: insp.id,
+      imageUrl: insp.imageUrl,
+      description: text(insp.description),
+      extractedCues: strings(insp.extractedCues),
+      pinnedCues: strings(insp.pinnedCues),
+      tags: strings(insp.tags),
+      imageHash: optionalText(insp.imageHash)
+    };
+  });
+  const assets = brand.assets.map((asset, i): GeneratedAsset => {
+    if (!isObject(asset) || typeof asset.id !== 'string' || typeof asset.url !== 'string') throw new BrandKitError(`Asset ${i + 1} in brand.json has no id or image`);
+    if (!isAssetType(asset.type)) throw new BrandKitError(`Asset ${i + 1} in brand.json has an unknown type`);
+    return {
+      ...carried<GeneratedAsset>(asset),
+      id: asset.id,
+      type: asset.type,
+      subtype: text(asset.subtype),
+      subtypeId: optionalText(asset.subtypeId),
+      url: asset.url,
+      promptUsed: text(asset.promptUsed),
+      createdAt: number(asset.createdAt, now),
+      isDraft: asset.isDraft === true,
+      dnaVersion: optionalNumber(asset.dnaVersion),
+      provenance: kitProvenance(asset.provenance, asset.type)
+    };
+  });
+  const dnaVersions = brand.dnaVersions.map((v, i): DNAVersion => {
+    const dna = isObject(v) ? kitDNA(v.dna) : null;
+    if (!isObject(v) || !Number.isInteger(v.version) || !dna) throw new BrandKitError(`DNA version ${i + 1} in brand.json is invalid`);
+    return { version: number(v.version), dna, note: text(v.note), createdAt: number(v.createdAt, now) };
+  });
+  const moodBoards = (Array.isArray(brand.moodBoards) ? brand.moodBoards : []).map((board: unknown, i): MoodBoard => {
+    if (!isObject(board) || typeof board.id !== 'string' || typeof board.name !== 'string') throw new BrandKitError(`Mood board ${i + 1} in brand.json has no id or name`);
+    return { id: board.id, name: board.name, inspirationIds: strings(board.inspirationIds), createdAt: number(board.createdAt, now) };
+  });
+
+  const ads = isObject(brand.ads) ? brand.ads : {};
+  const studio = isObject(brand.studio) ? brand.studio : {};
+  const settings = isObject(brand.settings) ? brand.settings : {};
+  return {
+    id: brand.id,
+    dna: kitDNA(brand.dna),
+    inspirations,
+    assets,
+    dnaVersions,
+    moodBoards,
+    // Ads left without a video (one that couldn't be packed) get their null back
+    ads: { ...createAdSession(), ...carried<AdSession>(ads) },
+    studio: {
+      ...createStudioSession(),
+      ...carried<StudioSession>(studio),
+      inspirationWeights: kitWeights(studio.inspirationWeights)
+    },
+    settings: {
+      ...createWorkspaceSettings(),
+      ...carried<WorkspaceSettings>(settings),
+      subtypes: Array.isArray(settings.subtypes) ? settings.subtypes.flatMap(kitSubtype) : []
+    },
+    archived: brand.archived === true,
+    createdAt: number(brand.createdAt, now),
+    updatedAt: number(brand.updatedAt, now)
+  };
+};
+
+export const readBrandKit = async (file: Blob): Promise<BrandKit> => {
+  let archive: Map<string, Uint8Array>;
+  try {
+    archive = await readZip(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    if (e instanceof ZipError) throw new BrandKitError(`Could not open the kit: ${e.message}`);
+    throw e;
+  }
+
+  const manifest = validateManifest(parseJson(archive.get(MANIFEST_PATH), MANIFEST_PATH), archive);
+  const mimeTypes = new Map(manifest.files.map(f => [f.path, f.mimeType]));
+
+  // Swap kit-file references back into data URLs, like storage does for its blobs
+  const dataUrls = new Map<string, string>();
+  const unpack = async (value: unknown): Promise<unknown> => {
+    if (typeof value === 'string' && value.startsWith(KIT_FILE_PREFIX)) {
+      const path = value.slice(KIT_FILE_PREFIX.length);
+      const bytes = archive.get(path);
+      if (!bytes || !mimeTypes.has(path)) throw new BrandKitError(`brand.json refers to ${path}, which is not in the kit`);
+      if (!dataUrls.has(path)) dataUrls.set(path, await blobToDataUrl(new Blob([bytes as BlobPart], { type: mimeTypes.get(path) })));
+      return dataUrls.get(path);
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const item of value) items.push(await unpack(item));
+      return items;
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) result[k] = await unpack(v);
+      return result;
+    }
+    return value;
+  };
+
+  const packed = parseJson(archive.get(BRAND_PATH), BRAND_PATH);
+  if (!isWorkspace(packed)) throw new BrandKitError('brand.json does not contain a brand workspace');
+
+  const migrated = migrateState({
+    schemaVersion: manifest.schemaVersion,
+    savedAt: manifest.exportedAt,
+    data: { brands: [await unpack(packed)], activeBrandId: packed.id }
+  });
+  const brand = normalizeKitBrand(isObject(migrated) && Array.isArray(migrated.brands) ? migrated.brands[0] : undefined);
+
+  console.log(`📦 [BRAND KIT] Read "${manifest.brand.name}" (kit v${manifest.version}, schema v${manifest.schemaVersion})`);
+  return { manifest, brand };
+};
+
+// --- MERGE ---
+
+// 'keep': the target brand's DNA stays current; 'replace': the kit's DNA becomes current
+export type KitDNAStrategy = 'keep' | 'replace';
+
+export interface KitImportSummary {
+  added: { inspirations: number; assets: number; dnaVersions: number };
+  skipped: number;  // Inspirations and assets the target already had
+  renamed: number;  // Items given a new id because theirs was taken
+  warnings: string[];
+}
+
+const emptySummary = (kit: BrandKit): KitImportSummary => ({
+  added: { inspirations: 0, assets: 0, dnaVersions: 0 },
+  skipped: 0,
+  renamed: 0,
+  warnings: [...kit.manifest.warnings]
+});
+
+// Import as a brand of its own, under a new id if this browser already has it
+export const importKitAsBrand = (kit: BrandKit, existing: BrandWorkspace[]): { brand: BrandWorkspace; summary: KitImportSummary } => {
+  const summary = emptySummary(kit);
+  const now = Date.now();
+  const collides = existing.some(b => b.id === kit.brand.id);
+  if (collides) summary.renamed++;
+
+  const brand: BrandWorkspace = {
+    ...kit.brand,
+    id: collides ? crypto.randomUUID() : kit.brand.id,
+    dna: collides && kit.brand.dna ? { ...kit.brand.dna, name: `${kit.brand.dna.name} (Imported)` } : kit.brand.dna,
+    archived: false,
+    updatedAt: now
+  };
+  summary.added = {
+    inspirations: brand.inspirations.length,
+    assets: brand.assets.length,
+    dnaVersions: brand.dnaVersions.length
+  };
+  return { brand, summary };
+};
+
+// Merge the kit into an existing brand. Items the target already has (same
+// image) are skipped, ids that are taken are replaced, and the kit's DNA
+// history is appended after the target's so every asset's dnaVersion still
+// points at the DNA it was made with.
+export const mergeBrandKit = (
+  target: BrandWorkspace,
+  kit: BrandKit,
+  strategy: KitDNAStrategy
+): { brand: BrandWorkspace; summary: KitImportSummary } => {
+  const summary = emptySummary(kit);
+  const source = kit.brand;
+  const sourceName = getBrandLabel(source);
+
+  // Inspirations: imported id -> id in the merged brand
+  const inspirationIds = new Map<string, string>();
+  const takenInspirationIds = new Set(target.inspirations.map(i => i.id));
+  const inspirations: Inspiration[] = [];
+  source.inspirations.forEach(insp => {
+    const duplicate = target.inspirations.find(i => i.imageUrl === insp.imageUrl);
+    if (duplicate) {
+      inspirationIds.set(insp.id, duplicate.id);
+      summary.skipped++;
+      return;
+    }
+    const id = takenInspirationIds.has(insp.id) ? crypto.randomUUID() : insp.id;
+    if (id !== insp.id) summary.renamed++;
+    takenInspirationIds.add(id);
+    inspirationIds.set(insp.id, id);
+    inspirations.push({ ...insp, id });
+  });
+
+  // DNA versions: renumbered to follow the target's history
+  const versionNumbers = new Map<number, number>();
+  let nextVersion = (getCurrentDNAVersion(target.dnaVersions)?.version || 0) + 1;
+  const dnaVersions: DNAVersion[] = source.dnaVersions.map(v => {
+    versionNumbers.set(v.version, nextVersion);
+    return { ...v, version: nextVersion++, note: `Imported from "${sourceName}" (v${v.version}): ${v.note}` };
+  });
+  summary.added.dnaVersions = dnaVersions.length;
+
+  const keepTarget = strategy === 'keep' && !!target.dna;
+  if (keepTarget && dnaVersions.length > 0) {
+    // The newest version is the current DNA, so the target's goes back on top
+    dnaVersions.push({ version: nextVersion, dna: target.dna!, note: `Kept this brand's DNA after importing "${sourceName}"`, createdAt: Date.now() });
+  }
+
+  // Custom items: the kit's ids map to the merged items of the same name
+  const subtypes = mergeSubtypes(target.settings.subtypes, source.settings.subtypes);
+  const subtypeIds = mergedSubtypeIds(subtypes, source.settings.subtypes);
+  const remapSubtype = (subtypeId?: string) => subtypeId && subtypeIds.get(subtypeId);
+
+  // Assets: references to inspirations, DNA versions and items follow their new ids
+  const takenAssetIds = new Set(target.assets.map(a => a.id));
+  const assets: GeneratedAsset[] = [];
+  source.assets.forEach(asset => {
+    if (target.assets.some(a => a.url === asset.url)) {
+      summary.skipped++;
+      return;
+    }
+    const id = takenAssetIds.has(asset.id) ? crypto.randomUUID() : asset.id;
+    if (id !== asset.id) summary.renamed++;
+    takenAssetIds.add(id);
+    const remapVersion = (version?: number) => version === undefined ? undefined : versionNumbers.get(version);
+    assets.push({
+      ...asset,
+      id,
+      subtypeId: remapSubtype(asset.subtypeId),
+      dnaVersion: remapVersion(asset.dnaVersion),
+      provenance: asset.provenance && {
+        ...asset.provenance,
+        subtypeId: remapSubtype(asset.provenance.subtypeId),
+        dnaVersion: remapVersion(asset.provenance.dnaVersion),
+        inspirationIds: asset.provenance.inspirationIds.map(i => inspirationIds.get(i) || i),
+        inspirationWeights: asset.provenance.inspirationWeights && Object.fromEntries(
+          Object.entries(asset.provenance.inspirationWeights).map(([i, weight]) => [inspirationIds.get(i) || i, weight])
+        )
+      }
+    });
+  });
+  summary.added.inspirations = inspirations.length;
+  summary.added.assets = assets.length;
+
+  // Boards with the same name are combined; the rest come over with their members' new ids
+  const moodBoards: MoodBoard[] = [...target.moodBoards];
+  source.moodBoards.forEach(board => {
+    const members = board.inspirationIds.map(i => inspirationIds.get(i)).filter((i): i is string => !!i);
+    const existing = moodBoards.findIndex(b => b.name === board.name);
+    if (existing >= 0) {
+      const current = moodBoards[existing];
+      moodBoards[existing] = { ...current, inspirationIds: [...new Set([...current.inspirationIds, ...members])] };
+    } else {
+      const id = moodBoards.some(b => b.id === board.id) ? crypto.randomUUID() : board.id;
+      moodBoards.push({ ...board, id, inspirationIds: members });
+    }
+  });
+
+  // There is only one ad session per brand, so the kit's is used only if the target has none
+  const targetHasAds = target.ads.messages.length > 0 || !!target.ads.storyboard || !!target.ads.videoUrl;
+  const sourceHasAds = source.ads.messages.length > 0 || !!source.ads.storyboard || !!source.ads.videoUrl;
+  let ads: AdSession = target.ads;
+  if (sourceHasAds && !targetHasAds) {
+    const board = source.moodBoards.find(b => b.id === source.ads.boardId);
+    ads = { ...source.ads, boardId: board ? moodBoards.find(b => b.name === board.name)?.id || null : null };
+  }
+  else if (sourceHasAds) summary.warnings.push(`Kept this brand's ad session; the storyboard from "${sourceName}" was not imported`);
+
+  const brand: BrandWorkspace = {
+    ...target,
+    dna: keepTarget ? target.dna : (source.dna || target.dna),
+    dnaVersions: [...target.dnaVersions, ...dnaVersions],
+    inspirations: [...target.inspirations, ...inspirations],
+    assets: [...target.assets, ...assets],
+    moodBoards,
+    ads,
+    settings: { ...target.settings, subtypes }
+  };
+
+  console.log(`📦 [BRAND KIT] Merged "${sourceName}" into "${getBrandLabel(target)}"`, summary);
+  return { brand, summary };
+};
@@ -0,0 +1,47 @@
+// --- COLOR MATH ---
+//
+// Hex/RGB/Lab/CMYK conversions and perceptual distance for palette work. Hex
+// strings are the #RRGGBB form used in BrandDNA.colors.
+
+export type RGB = [number, number, number];
+
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace(/^#/, ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = ([r, g, b]: RGB): string =>
+  `#${[r, g, b].map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+const toLinear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+
+// CIELAB (D65), where equal distances look roughly equally different
+export const rgbToLab = ([r, g, b]: RGB): [number, number, number] => {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// CIE76 delta E: ~2 is barely noticeable, above ~20 reads as a different color
+export const colorDistance = (a: RGB, b: RGB): number => {
+  const [l1, a1, b1] = rgbToLab(a);
+  const [l2, a2, b2] = rgbToLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+};
+
+// Naive, profile-free CMYK in whole percent. Good enough for a brand book
+// reference; print work should be proofed against the printer's profile.
+export const rgbToCmyk = ([r, g, b]: RGB): [number, number, number, number] => {
+  const [rs, gs, bs] = [r / 255, g / 255, b / 255];
+  const k = 1 - Math.max(rs, gs, bs);
+  if (k >= 1) return [0, 0, 0, 100];
+  const channel = (c: number) => Math.round(((1 - c - k) / (1 - k)) * 100);
+  return [channel(rs), channel(gs), channel(bs), Math.round(k * 100)];
+};
@@ -0,0 +1,88 @@
+import { RGB, hexToRgb, rgbToHex } from "./color";
+
+// --- WCAG CONTRAST ---
+//
+// WCAG 2.x contrast ratios between palette colors. Large text is 18pt, or 14pt bold.
+
+export const WCAG_THRESHOLDS = {
+  aaNormal: 4.5,
+  aaLarge: 3,
+  aaaNormal: 7,
+  aaaLarge: 4.5
+};
+
+export type WcagLevel = keyof typeof WCAG_THRESHOLDS;
+
+export type WcagRating = Record<WcagLevel, boolean>;
+
+const channel = (c: number) => {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+
+export const relativeLuminance = ([r, g, b]: RGB) => 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+
+// 1 (identical) to 21 (black on white), order of the two colors doesn't matter
+export const contrastRatio = (a: string, b: string): number => {
+  const [la, lb] = [relativeLuminance(hexToRgb(a)), relativeLuminance(hexToRgb(b))];
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+export const rateContrast = (ratio: number): WcagRating => ({
+  aaNormal: ratio >= WCAG_THRESHOLDS.aaNormal,
+  aaLarge: ratio >= WCAG_THRESHOLDS.aaLarge,
+  aaaNormal: ratio >= WCAG_THRESHOLDS.aaaNormal,
+  aaaLarge: ratio >= WCAG_THRESHOLDS.aaaLarge
+});
+
+export const formatRatio = (ratio: number) => `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+
+export interface ContrastPair {
+  a: string;
+  b: string;
+  ratio: number;
+  rating: WcagRating;
+}
+
+// Every pair of palette colors, most legible first
+export const paletteContrastPairs = (colors: string[]): ContrastPair[] => {
+  const pairs: ContrastPair[] = [];
+  colors.forEach((a, i) => colors.slice(i + 1).forEach(b => {
+    const ratio = contrastRatio(a, b);
+    pairs.push({ a, b, ratio, rating: rateContrast(ratio) });
+  }));
+  return pairs.sort((x, y) => y.ratio - x.ratio);
+};
+
+// --- SUGGESTIONS ---
+
+export interface ContrastSuggestion {
+  hex: string;
+  ratio: number;
+  kind: 'tint' | 'shade';
+}
+
+const mix = (from: RGB, to: RGB, t: number): RGB => [0, 1, 2].map(i => from[i] + (to[i] - from[i]) * t) as RGB;
+
+const DIRECTIONS: { kind: ContrastSuggestion['kind']; toward: RGB }[] = [
+  { kind: 'tint', toward: [255, 255, 255] },
+  { kind: 'shade', toward: [0, 0, 0] }
+];
+
+// The smallest tint (toward white) and shade (toward black) of `color` that
+// reaches `target` against `against`; either is missing if it can't get there
+export const suggestAccessibleColors = (color: string, against: string, target = WCAG_THRESHOLDS.aaNormal): ContrastSuggestion[] => {
+  const rgb = hexToRgb(color);
+  const suggestions: ContrastSuggestion[] = [];
+  for (const { kind, toward } of DIRECTIONS) {
+    for (let step = 1; step <= 50; step++) {
+      const hex = rgbToHex(mix(rgb, toward, step / 50));
+      const ratio = contrastRatio(hex, against);
+      if (ratio >= target) {
+        suggestions.push({ hex, ratio, kind });
+        break;
+      }
+    }
+  }
+  return suggestions;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { BrandDNA } from '../types';
+import { TOKEN_FORMATS, inferFonts, inferRadius, inferSpacing, renderTokens } from './designTokens';
+
+const dna: BrandDNA = {
+  name: 'Acme Coffee Co.',
+  description: 'Small-batch roaster',
+  colors: ['#1A1A1A', '#F4E9D8', '#D9480F'],
+  typography: 'Headlines in Montserrat Bold, Inter Regular for body copy',
+  visualEssence: 'Warm and crafted',
+  designSystem: 'Everything sits on an 8px grid. Cards use 12px rounded corners.',
+  keywords: ['warm'],
+  colorRoles: { primary: { hex: '#1A1A1A', usage: 60 }, background: { hex: '#F4E9D8', usage: 30 }, accent: { hex: '#D9480F', usage: 10 } }
+};
+
+describe('inferFonts', () => {
+  it('assigns fonts to the roles they are named for', () => {
+    expect(inferFonts(dna.typography)).toEqual({
+      heading: { family: 'Montserrat', fallback: 'sans-serif', weight: 700 },
+      body: { family: 'Inter', fallback: 'sans-serif', weight: 400 }
+    });
+  });
+
+  it('does not take generic families for font names', () => {
+    for (const typography of ['Sans-serif, geometric', 'Serif headings', 'Monospace for code', 'Sans Serif throughout']) {
+      const fonts = inferFonts(typography);
+      expect(fonts.heading.family, typography).toBeNull();
+      expect(fonts.body.family, typography).toBeNull();
+    }
+    expect(inferFonts('Serif headings').heading.fallback).toBe('serif');
+  });
+});
+
+describe('inferSpacing and inferRadius', () => {
+  it('reads the scales out of the design system', () => {
+    expect(inferSpacing(dna.designSystem).scale.find(s => s.name === 'sm')?.px).toBe(8);
+    expect(inferRadius(dna.designSystem).scale.find(r => r.name === 'md')?.px).toBe(12);
+    expect(inferRadius('Sharp corners everywhere').scale.find(r => r.name === 'md')?.px).toBe(0);
+  });
+
+  it('falls back to the default scales', () => {
+    expect(inferSpacing('').inferred).toBe(false);
+    expect(inferRadius('').inferred).toBe(false);
+  });
+});
+
+describe('renderTokens', () => {
+  for (const { format } of TOKEN_FORMATS) {
+    it(`renders ${format}`, () => {
+      expect(renderTokens(dna, format)).toMatchSnapshot();
+    });
+  }
+
+  it('keeps the brand name from closing the header comment', () => {
+    const hostile = { ...dna, name: 'Evil */ body { display: none } /*\nline' };
+    const css = renderTokens(hostile, 'css');
+    expect(css.split('\n')[0]).toBe('/* Evil * / body { display: none } /* line design tokens, exported from Brand Forge */');
+    expect(renderTokens(hostile, 'scss').split('\n')[1]).toBe('');
+  });
+});
@@ -0,0 +1,293 @@
+import { BrandDNA } from "../types";
+import { COLOR_ROLES, resolveColorRoles } from "./brandDnaService";
+
+// --- DESIGN TOKENS ---
+//
+// Brand DNA as developer-ready tokens: color roles and the palette, heading and
+// body fonts read out of `typography`, and spacing/radius scales inferred from
+// the `designSystem` rules. Both are free text, so the reading is best-effort
+// and falls back to generic families and an 8px/4px base.
+
+export type GenericFamily = 'sans-serif' | 'serif' | 'monospace' | 'cursive';
+
+export interface ColorToken {
+  name: string;         // 'primary', 'palette-1', ...
+  hex: string;
+  description?: string;
+}
+
+export interface FontToken {
+  family: string | null; // Named typeface, if the DNA names one
+  fallback: GenericFamily;
+  weight: number;
+}
+
+export interface SizeToken {
+  name: string;
+  px: number;
+}
+
+export interface DesignTokens {
+  name: string;
+  colors: ColorToken[];
+  fonts: { heading: FontToken; body: FontToken };
+  spacing: SizeToken[];
+  radius: SizeToken[];
+  inferred: { spacing: boolean; radius: boolean }; // false: the default scale was used
+}
+
+// --- TYPOGRAPHY ---
+
+const WEIGHTS: Record<string, number> = {
+  thin: 100, hairline: 100, extralight: 200, ultralight: 200, light: 300,
+  regular: 400, normal: 400, book: 400, medium: 500, semibold: 600, demibold: 600,
+  bold: 700, extrabold: 800, ultrabold: 800, black: 900, heavy: 900
+};
+
+// Capitalized words that describe fonts rather than name them
+const NOT_A_FONT = new Set([
+  'headline', 'headlines', 'heading', 'headings', 'header', 'headers', 'display', 'title', 'titles',
+  'body', 'copy', 'text', 'paragraph', 'paragraphs', 'primary', 'secondary', 'accent', 'typography',
+  'font', 'fonts', 'typeface', 'use', 'using', 'pair', 'paired', 'with', 'and', 'or', 'the', 'a', 'an',
+  'for', 'in', 'on', 'e', 'g', 'eg', 'sans', 'serif', 'sans-serif', 'slab', 'slab-serif', 'mono', 'monospace',
+  'script', 'cursive', 'geometric', 'humanist', 'modern', 'classic', 'clean', 'bold', 'all', 'caps', 'uppercase',
+  'lowercase', 'italic', 'italics', 'ui', 'h1', 'h2', 'h3'
+]);
+
+const HEADING_WORDS = /head|display|title|logo|h1|h2/i;
+const BODY_WORDS = /body|copy|paragraph|text|ui|interface/i;
+
+const genericFamily = (text: string): GenericFamily => {
+  if (/mono/i.test(text)) return 'monospace';
+  if (/script|handwrit|calligraph/i.test(text)) return 'cursive';
+  if (/sans/i.test(text)) return 'sans-serif';
+  if (/serif|slab/i.test(text)) return 'serif';
+  return 'sans-serif';
+};
+
+interface FontMention {
+  family: string;
+  weight: number | null;
+  before: string; // Text between the previous mention and this one
+  after: string;  // Text up to the next mention
+}
+
+const findFontMentions = (typography: string): FontMention[] => {
+  const mentions: { family: string; weight: number | null; start: number; end: number }[] = [];
+  for (const match of typography.matchAll(/\b[A-Z][\w-]*(?:\s+[A-Z0-9][\w-]*)*/g)) {
+    const words = match[0].split(/\s+/);
+    let weight: number | null = null;
+    // Trailing weight words ("Montserrat Bold"), then leading descriptors ("Headlines")
+    while (words.length > 0 && WEIGHTS[words[words.length - 1].toLowerCase()] !== undefined) {
+      weight = weight ?? WEIGHTS[words[words.length - 1].toLowerCase()];
+      words.pop();
+    }
+    while (words.length > 0 && NOT_A_FONT.has(words[0].toLowerCase())) words.shift();
+    if (words.length === 0 || words.every(w => NOT_A_FONT.has(w.toLowerCase()))) continue;
+    mentions.push({ family: words.join(' '), weight, start: match.index!, end: match.index! + match[0].length });
+  }
+  return mentions.map((m, i) => ({
+    family: m.family,
+    weight: m.weight,
+    before: typography.slice(i === 0 ? 0 : mentions[i - 1].end, m.start),
+    after: typography.slice(m.end, mentions[i + 1]?.start ?? typography.length)
+  }));
+};
+
+// Heading and body fonts: a font goes to the role it is said to be for
+// ("Inter for body copy"), else the one named just before it ("Headlines in
+// Montserrat"), else the one just after it
+export const inferFonts = (typography: string): DesignTokens['fonts'] => {
+  const mentions = findFontMentions(typography);
+  const roleOf = (m: FontMention): 'heading' | 'body' | null => {
+    const pointsForward = /^\W*(?:[a-z-]+\s+)?(?:for|as)\b/i.test(m.after);
+    for (const text of pointsForward ? [m.after, m.before] : [m.before, m.after]) {
+      if (HEADING_WORDS.test(text)) return 'heading';
+      if (BODY_WORDS.test(text)) return 'body';
+    }
+    return null;
+  };
+  const heading = mentions.find(m => roleOf(m) === 'heading') || mentions.find(m => roleOf(m) === null) || mentions[0];
+  const body = mentions.find(m => roleOf(m) === 'body') || mentions.find(m => m !== heading && roleOf(m) === null) || heading;
+  const token = (m: FontMention | undefined, defaultWeight: number): FontToken => ({
+    family: m?.family || null,
+    fallback: genericFamily(m ? `${m.before} ${m.family}` : typography),
+    weight: m?.weight ?? defaultWeight
+  });
+  return { heading: token(heading, 700), body: token(body, 400) };
+};
+
+// --- SPACING & RADIUS ---
+
+const DEFAULT_SPACING_BASE = 8;
+const DEFAULT_RADIUS = 4;
+const FULL_RADIUS = 9999;
+
+const firstPx = (text: string, patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    const value = text.match(pattern)?.[1];
+    if (value) return parseInt(value, 10);
+  }
+  return null;
+};
+
+export const inferSpacing = (designSystem: string): { scale: SizeToken[]; inferred: boolean } => {
+  const base = firstPx(designSystem, [
+    /(\d+)\s*px\s*(?:grid|baseline|spacing|unit|rhythm)/i,
+    /(?:grid|baseline|spacing|unit|rhythm)\D{0,20}?(\d+)\s*px/i
+  ]);
+  const unit = base && base > 0 ? base : DEFAULT_SPACING_BASE;
+  const steps: [string, number][] = [['xs', 0.5], ['sm', 1], ['md', 2], ['lg', 3], ['xl', 4], ['2xl', 6]];
+  return { scale: steps.map(([name, factor]) => ({ name, px: Math.round(unit * factor) })), inferred: !!base };
+};
+
+export const inferRadius = (designSystem: string): { scale: SizeToken[]; inferred: boolean } => {
+  const sharp = /\b(?:sharp|square|no rounded)\s+corners?\b|\bno (?:border )?radius\b/i.test(designSystem);
+  const stated = firstPx(designSystem, [
+    /(\d+)\s*px\W{0,3}(?:radius|corner|rounded)/i,
+    /(?:radius|corner|rounded)\D{0,20}?(\d+)\s*px/i
+  ]);
+  const radius = sharp ? 0 : stated ?? DEFAULT_RADIUS;
+  return {
+    scale: [
+      { name: 'none', px: 0 },
+      { name: 'sm', px: Math.round(radius / 2) },
+      { name: 'md', px: radius },
+      { name: 'lg', px: radius * 2 },
+      { name: 'full', px: FULL_RADIUS }
+    ],
+    inferred: sharp || stated !== null
+  };
+};
+
+// --- TOKENS ---
+
+export const buildDesignTokens = (dna: BrandDNA): DesignTokens => {
+  const roles = resolveColorRoles(dna);
+  const spacing = inferSpacing(dna.designSystem);
+  const radius = inferRadius(dna.designSystem);
+  return {
+    name: dna.name,
+    colors: [
+      ...COLOR_ROLES.filter(({ role }) => roles[role]).map(({ role, description }) => ({
+        name: role,
+        hex: roles[role]!.hex,
+        description: roles[role]!.usage !== undefined ? `${description}, about ${roles[role]!.usage}% of a design` : description
+      })),
+      ...dna.colors.map((hex, i) => ({ name: `palette-${i + 1}`, hex }))
+    ],
+    fonts: inferFonts(dna.typography),
+    spacing: spacing.scale,
+    radius: radius.scale,
+    inferred: { spacing: spacing.inferred, radius: radius.inferred }
+  };
+};
+
+// --- FORMATS ---
+
+export type TokenFormat = 'css' | 'tailwind' | 'w3c' | 'scss';
+
+const fontStack = (font: FontToken) => font.family ? [font.family, font.fallback] : [font.fallback];
+const cssFontStack = (font: FontToken) => fontStack(font).map(f => f === font.fallback ? f : `"${f}"`).join(', ');
+const px = (value: number) => `${value}px`;
+// On one line and without "*/", so a brand name can't close or break out of the comment it's in
+const header = (tokens: DesignTokens) =>
+  `${tokens.name.replace(/\s+/g, ' ').replace(/\*\//g, '* /')} design tokens, exported from Brand Forge`;
+
+// One list shared by the variable-per-token formats (CSS and SCSS)
+const flatTokens = (tokens: DesignTokens): { section: string; entries: [string, string][] }[] => [
+  { section: 'Colors', entries: tokens.colors.map(c => [`color-${c.name}`, c.hex]) },
+  {
+    section: 'Typography',
+    entries: (['heading', 'body'] as const).flatMap(role => [
+      [`font-${role}`, cssFontStack(tokens.fonts[role])],
+      [`font-${role}-weight`, String(tokens.fonts[role].weight)]
+    ] as [string, string][])
+  },
+  { section: 'Spacing', entries: tokens.spacing.map(s => [`space-${s.name}`, px(s.px)]) },
+  { section: 'Radius', entries: tokens.radius.map(r => [`radius-${r.name}`, px(r.px)]) }
+];
+
+const toCSS = (tokens: DesignTokens) => [
+  `/* ${header(tokens)} */`,
+  ':root {',
+  flatTokens(tokens).map(({ section, entries }) =>
+    [`  /* ${section} */`, ...entries.map(([name, value]) => `  --${name}: ${value};`)].join('\n')
+  ).join('\n\n'),
+  '}',
+  ''
+].join('\n');
+
+const toSCSS = (tokens: DesignTokens) => [
+  `// ${header(tokens)}`,
+  '',
+  flatTokens(tokens).map(({ section, entries }) =>
+    [`// ${section}`, ...entries.map(([name, value]) => `$${name}: ${value};`)].join('\n')
+  ).join('\n\n'),
+  ''
+].join('\n');
+
+// JSON with plain identifier keys unquoted and short arrays on one line, so it
+// reads like a hand-written config
+const toJsObject = (value: unknown) => JSON.stringify(value, null, 2)
+  .replace(/"([A-Za-z_$][\w$]*)":/g, '$1:')
+  .replace(/\[\n\s+([^[\]]*?)\n\s+\]/g, (_, items: string) => `[${items.split(/,\n\s+/).join(', ')}]`);
+
+const toTailwind = (tokens: DesignTokens) => {
+  const roles = tokens.colors.filter(c => !c.name.startsWith('palette-'));
+  const palette = tokens.colors.filter(c => c.name.startsWith('palette-'));
+  const extend = {
+    colors: {
+      ...Object.fromEntries(roles.map(c => [c.name, c.hex])),
+      palette: Object.fromEntries(palette.map(c => [c.name.replace('palette-', ''), c.hex]))
+    },
+    fontFamily: { heading: fontStack(tokens.fonts.heading), body: fontStack(tokens.fonts.body) },
+    fontWeight: { heading: String(tokens.fonts.heading.weight), body: String(tokens.fonts.body.weight) },
+    spacing: Object.fromEntries(tokens.spacing.map(s => [s.name, px(s.px)])),
+    borderRadius: Object.fromEntries(tokens.radius.map(r => [r.name, px(r.px)]))
+  };
+  return [
+    `// ${header(tokens)}`,
+    '// Merge into tailwind.config.js',
+    `module.exports = ${toJsObject({ theme: { extend } })};`,
+    ''
+  ].join('\n');
+};
+
+// Design Tokens Community Group format ($value/$type)
+const toW3C = (tokens: DesignTokens) => {
+  const color = (c: ColorToken) => ({ $type: 'color', $value: c.hex, ...(c.description && { $description: c.description }) });
+  const dimension = (s: SizeToken) => ({ $type: 'dimension', $value: px(s.px) });
+  const roles = tokens.colors.filter(c => !c.name.startsWith('palette-'));
+  const palette = tokens.colors.filter(c => c.name.startsWith('palette-'));
+  const doc = {
+    $description: header(tokens),
+    color: {
+      ...Object.fromEntries(roles.map(c => [c.name, color(c)])),
+      palette: Object.fromEntries(palette.map(c => [c.name.replace('palette-', ''), color(c)]))
+    },
+    font: Object.fromEntries((['heading', 'body'] as const).map(role => [role, {
+      family: { $type: 'fontFamily', $value: fontStack(tokens.fonts[role]) },
+      weight: { $type: 'fontWeight', $value: tokens.fonts[role].weight }
+    }])),
+    space: Object.fromEntries(tokens.spacing.map(s => [s.name, dimension(s)])),
+    radius: Object.fromEntries(tokens.radius.map(r => [r.name, dimension(r)]))
+  };
+  return JSON.stringify(doc, null, 2) + '\n';
+};
+
+export const TOKEN_FORMATS: { format: TokenFormat; label: string; fileSuffix: string; mimeType: string; render: (tokens: DesignTokens) => string }[] = [
+  { format: 'css', label: 'CSS variables', fileSuffix: 'tokens.css', mimeType: 'text/css', render: toCSS },
+  { format: 'tailwind', label: 'Tailwind theme', fileSuffix: 'tailwind-theme.js', mimeType: 'text/javascript', render: toTailwind },
+  { format: 'w3c', label: 'Design Tokens JSON', fileSuffix: 'tokens.json', mimeType: 'application/json', render: toW3C },
+  { format: 'scss', label: 'SCSS variables', fileSuffix: 'tokens.scss', mimeType: 'text/x-scss', render: toSCSS }
+];
+
+export const renderTokens = (dna: BrandDNA, format: TokenFormat) =>
+  TOKEN_FORMATS.find(f => f.format === format)!.render(buildDesignTokens(dna));
+
+// "Acme Coffee Co." -> "acme-coffee-co"
+export const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'brand';
+
+export const tokenFileName = (dna: BrandDNA, format: TokenFormat) =>
+  `${fileSlug(dna.name)}-${TOKEN_FORMATS.find(f => f.format === format)!.fileSuffix}`;
@@ -0,0 +1,34 @@
+// --- DOWNLOADS ---
+
+// Saves content generated in the browser as a file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next tick; the download has started by then
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType = 'text/plain') =>
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+
+// Opens the print dialog for a standalone HTML document, where the browser
+// offers "Save as PDF". Printed from a hidden frame so no popup is needed.
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.onafterprint = () => frame.remove();
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,148 @@
+// --- GENERATION ERRORS ---
+//
+// Every failure coming out of a provider is normalized into a GenerationError
+// with a kind, so components can show an actionable message and withRetry can
+// tell transient failures (rate limits, overloaded servers, dropped
+// connections) from ones that will never succeed on a second try.
+
+export type GenerationErrorKind =
+  | 'quota'           // Rate limit or quota exhausted (HTTP 429)
+  | 'safety'          // Blocked by safety / RAI filters
+  | 'invalid-key'     // Missing, invalid or unauthorized API key
+  | 'malformed-json'  // Structured response could not be parsed
+  | 'no-image'        // The model answered without an image
+  | 'no-video'        // A video render finished without a video
+  | 'timeout'         // Gave up waiting
+  | 'cancelled'       // Stopped by the user
+  | 'network'         // Connection problems or 5xx responses
+  | 'budget'          // The brand's budget cap is used up
+  | 'unknown';
+
+export interface ErrorDescription {
+  title: string;
+  action: string;
+}
+
+const DESCRIPTIONS: Record<GenerationErrorKind, ErrorDescription> = {
+  'quota': { title: 'Quota exceeded', action: 'You have hit the API rate limit or quota. Wait a minute and try again, or check the limits on your API key.' },
+  'safety': { title: 'Blocked by safety filters', action: 'The request or its result was filtered. Rephrase the prompt or use different reference images.' },
+  'invalid-key': { title: 'API key problem', action: 'The API key is missing, invalid or lacks access to this model. Select a valid key and try again.' },
+  'malformed-json': { title: 'Unreadable response', action: 'The model returned data in an unexpected format. Try again.' },
+  'no-image': { title: 'No image returned', action: 'The model answered without an image. Try again or simplify the instruction.' },
+  'no-video': { title: 'No video returned', action: 'The render finished without a video. Try again or adjust the concept.' },
+  'timeout': { title: 'Timed out', action: 'This took too long. The service may be busy, so try again in a moment.' },
+  'cancelled': { title: 'Cancelled', action: 'The generation was cancelled.' },
+  'network': { title: 'Service unavailable', action: 'Could not reach the service or it is overloaded. Check your connection and try again.' },
+  'budget': { title: 'Budget cap reached', action: 'This brand has used up its budget. Raise or remove the cap on the Usage page to keep generating.' },
+  'unknown': { title: 'Something went wrong', action: 'Try again. If it keeps failing, check the console for details.' }
+};
+
+const RETRYABLE: GenerationErrorKind[] = ['quota', 'network'];
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly details: string[];
+
+  constructor(kind: GenerationErrorKind, message?: string, options: { details?: string[]; cause?: unknown } = {}) {
+    super(message || DESCRIPTIONS[kind].title, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.details = options.details || [];
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+// --- CLASSIFICATION ---
+
+const errorStatus = (e: any): number | undefined => {
+  const status = e?.status ?? e?.code ?? e?.error?.code;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const toGenerationError = (e: unknown): GenerationError => {
+  if (e instanceof GenerationError) return e;
+
+  const err = e as any;
+  const message: string = err?.message || String(e);
+  const status = errorStatus(err);
+
+  let kind: GenerationErrorKind = 'unknown';
+  if (err?.name === 'AbortError') kind = 'cancelled';
+  else if (err instanceof SyntaxError) kind = 'malformed-json';
+  else if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) kind = 'quota';
+  else if (status === 401 || status === 403 || /API[ _]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) kind = 'invalid-key';
+  else if (/SAFETY|blocked|PROHIBITED_CONTENT|Content filtered/i.test(message)) kind = 'safety';
+  else if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed out/i.test(message)) kind = 'timeout';
+  else if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|Failed to fetch|NetworkError|fetch failed/i.test(message)) kind = 'network';
+
+  return new GenerationError(kind, message, { cause: e });
+};
+
+export const describeError = (e: unknown): ErrorDescription & { kind: GenerationErrorKind; message: string } => {
+  const error = toGenerationError(e);
+  return { ...DESCRIPTIONS[error.kind], kind: error.kind, message: error.message };
+};
+
+// One-line, user-facing summary (job panel, chat messages)
+export const errorSummary = (e: unknown) => {
+  const { title, action, kind, message } = describeError(e);
+  if (kind === 'safety' && message !== title) return `${message}. ${action}`;
+  return `${title}. ${action}`;
+};
+
+// --- RETRY ---
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  label?: string;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000
+};
+
+const backoffDelay = (attempt: number, options: RetryOptions) => {
+  const exponential = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return exponential / 2 + Math.random() * exponential / 2; // Jitter so parallel calls don't retry in lockstep
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new GenerationError('cancelled'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new GenerationError('cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const isAbortError = (e: unknown) =>
+  (e as Error)?.name === 'AbortError' || (e instanceof GenerationError && e.kind === 'cancelled');
+
+// Run `fn`, retrying transient failures with exponential backoff.
+// Whatever is finally thrown is a GenerationError.
+export const withRetry = async <T>(fn: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> => {
+  const config = { ...DEFAULT_RETRY, ...options };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      const error = toGenerationError(e);
+      if (!error.retryable || attempt >= config.retries) throw error;
+      const delay = backoffDelay(attempt, config);
+      console.warn(`🔁 [RETRY] ${config.label || 'Request'} failed (${error.kind}), retry ${attempt + 1}/${config.retries} in ${Math.round(delay)}ms`);
+      await wait(delay, config.signal);
+    }
+  }
+};
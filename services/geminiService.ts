@@ -1,19 +1,23 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { BrandDNA, AssetType, Inspiration } from "../types";
-
-const getClient = (apiKey?: string) => {
-  const key = apiKey || process.env.API_KEY;
-  if (!key) throw new Error("API Key not found. Please select a key.");
-  return new GoogleGenAI({ apiKey: key });
-};
+import { Type, Schema } from "@google/genai";
+import { BrandDNA, AssetType, ColorRoles, DNAField, Provenance, ProvenanceStep, TemplateRef } from "../types";
+import { getProvider, ContentPart, VideoRequest } from "./providers";
+import { GenerationContext, modelFor } from "./generationContext";
+import { runVideoOperation, VideoOperationOptions } from "./videoOperations";
+import { GenerationError } from "./errors";
+import { dedupeStrings, generateStructured, normalizeHex } from "./structuredOutput";
+import { formatTemplateRef, renderTemplate } from "./promptTemplates";
+import { COLOR_ROLES, describePalette, positionalColorRoles, resolveColorRoles } from "./brandDnaService";
+import { contrastRatio, formatRatio } from "./contrast";
+import { WeightedInspirations, describeInspirationCues, leadingInspirationCues } from "./inspirationService";
+import { dataUrlMimeType, proxiedUrl } from "./imageImport";
+import { findSubtype } from "./assetCatalog";
 
 // --- HELPERS ---
 
-// Helper to fetch image from URL and convert to Base64 via CORS proxy
+// Helper to fetch image from URL and convert to Base64, through the image proxy if one is set
 export const fetchImageToBase64 = async (url: string): Promise<string | undefined> => {
   try {
-    // Use corsproxy.io to bypass CORS for demo purposes
-    const response = await fetch(`https://corsproxy.io/?${encodeURIComponent(url)}`);
+    const response = await fetch(proxiedUrl(url));
     if (!response.ok) return undefined;
 
     const contentType = response.headers.get("content-type");
@@ -67,13 +71,44 @@ export const fetchLogoFromUrl = async (websiteUrl: string): Promise<string | und
 
 // --- BRAND IDENTITY ---
 
+const DNA_FIELD_SCHEMAS: Record<DNAField, Schema> = {
+  colors: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Hex codes" },
+  colorRoles: {
+    type: Type.OBJECT,
+    description: "What each palette color is for. Every hex must be one of the palette colors; usage is a rough share of a design in percent (e.g. 60/30/10).",
+    properties: Object.fromEntries(COLOR_ROLES.map(({ role, description }) => [role, {
+      type: Type.OBJECT,
+      description,
+      properties: { hex: { type: Type.STRING }, usage: { type: Type.NUMBER } },
+      required: ['hex']
+    }]))
+  },
+  typography: { type: Type.STRING },
+  visualEssence: { type: Type.STRING, description: "Visual prompt description" },
+  designSystem: { type: Type.STRING, description: "Bullet points on rules" },
+  keywords: { type: Type.ARRAY, items: { type: Type.STRING } }
+};
+
+// Roles on palette colors only, usage as a whole percentage
+const normalizeColorRoles = (raw: Record<string, { hex?: string; usage?: number } | undefined> | undefined, colors: string[]): ColorRoles =>
+  Object.fromEntries(COLOR_ROLES.flatMap(({ role }) => {
+    const hex = normalizeHex(raw?.[role]?.hex || '');
+    if (!hex || !colors.includes(hex)) return [];
+    const usage = raw?.[role]?.usage;
+    return [[role, { hex, ...(typeof usage === 'number' && Number.isFinite(usage) && { usage: Math.round(Math.min(100, Math.max(0, usage))) }) }]];
+  }));
+
+const formatDNAField = (dna: BrandDNA, field: DNAField) =>
+  field === 'colorRoles' ? describePalette(dna) : Array.isArray(dna[field]) ? (dna[field] as string[]).join(', ') : String(dna[field]);
+
 export const generateBrandDNA = async (
   name: string,
   description: string,
   websiteUrl?: string,
-  onStatusUpdate?: (status: string) => void
+  onStatusUpdate?: (status: string) => void,
+  context: GenerationContext = {}
 ): Promise<BrandDNA> => {
-  const ai = getClient();
+  const provider = getProvider();
 
   onStatusUpdate?.("Initializing AI Agent...");
 
@@ -84,10 +119,12 @@ export const generateBrandDNA = async (
       onStatusUpdate?.(`Scanning ${websiteUrl} for visual cues...`);
       const searchPrompt = `Research the visual identity and brand values of ${name} at ${websiteUrl}. Summarize the color palette, font styles, and overall vibe. Find a direct URL to their logo if possible.`;
       console.log('🔍 [SEARCH GROUNDING] Prompt:', searchPrompt);
-      const searchResponse = await ai.models.generateContent({
-        model: 'gemini-2.0-flash-exp',
+      const searchResponse = await provider.generateText({
+        action: 'search-grounding',
+        brandId: context.brandId,
+        model: modelFor(context, 'reasoning').model,
         contents: searchPrompt,
-        config: { tools: [{ googleSearch: {} }] }
+        useSearch: true
       });
       searchContext = searchResponse.text || "";
       console.log('🔍 [SEARCH GROUNDING] Response:', searchContext);
@@ -103,14 +140,10 @@ export const generateBrandDNA = async (
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
-      colors: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Hex codes" },
-      typography: { type: Type.STRING },
-      visualEssence: { type: Type.STRING, description: "Visual prompt description" },
-      designSystem: { type: Type.STRING, description: "Bullet points on rules" },
-      keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+      ...DNA_FIELD_SCHEMAS,
       logoUrl: { type: Type.STRING, description: "Direct URL to the logo image found on the web, or empty string if not found." }
     },
-    required: ["colors", "typography", "visualEssence", "designSystem", "keywords"]
+    required: ["colors", "colorRoles", "typography", "visualEssence", "designSystem", "keywords"]
   };
 
   const prompt = `
@@ -128,24 +161,34 @@ export const generateBrandDNA = async (
 
   onStatusUpdate?.("Synthesizing Color Palette & Typography...");
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const data = await generateStructured({
+    action: 'brand-dna',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-    }
+    responseSchema: schema,
+    label: 'BRAND DNA',
+    // Uppercase #RRGGBB, invalid codes dropped; roles on palette colors, by
+    // position if the model gave none; keywords without duplicates
+    normalize: (raw) => {
+      const colors = dedupeStrings(raw.colors.map(normalizeHex).filter(Boolean));
+      const colorRoles = normalizeColorRoles(raw.colorRoles, colors);
+      return {
+        ...raw,
+        colors,
+        colorRoles: Object.keys(colorRoles).length > 0 ? colorRoles : positionalColorRoles(colors),
+        keywords: dedupeStrings(raw.keywords)
+      };
+    },
+    check: (dna) => [
+      ...(dna.colors.length === 0 ? ['colors must contain at least one valid hex code such as #1A2B3C'] : []),
+      ...(dna.keywords.length === 0 ? ['keywords must not be empty'] : [])
+    ]
   });
-  
-  console.log('🧬 [BRAND DNA] Raw Response:', response.text);
 
-  onStatusUpdate?.("Finalizing Design System...");
-
-  // Clean potential markdown wrapping before parsing
-  let jsonStr = response.text || "{}";
-  jsonStr = jsonStr.replace(/^```json\s*/, "").replace(/\s*```$/, "");
+  console.log('🧬 [BRAND DNA] Parsed Response:', data);
 
-  const data = JSON.parse(jsonStr);
+  onStatusUpdate?.("Finalizing Design System...");
 
   let extractedLogoImage: string | undefined = undefined;
   if (data.logoUrl && data.logoUrl.length > 0) {
@@ -163,236 +206,237 @@ export const generateBrandDNA = async (
   };
 };
 
-// --- INSPIRATIONS ---
+// A fresh value for one field, written to fit the rest of the DNA as it stands
+export const regenerateDNAField = async <F extends DNAField>(dna: BrandDNA, field: F, context: GenerationContext = {}): Promise<BrandDNA[F]> => {
+  const fixed = (Object.keys(DNA_FIELD_SCHEMAS) as DNAField[])
+    .filter(f => f !== field)
+    .map(f => `- ${f}: ${formatDNAField(dna, f)}`)
+    .join('\n');
+
+  const prompt = `
+    Act as a Creative Director refining an existing Brand DNA.
+    Brand: ${dna.name}
+    User Description: ${dna.description}
+
+    These fields are settled. Do not change them; make the new value fit them:
+    ${fixed}
+
+    Current ${field}: ${formatDNAField(dna, field)}
+
+    Write a fresh alternative for '${field}' only.
+  `;
 
-export const analyzeInspiration = async (base64Image: string, userNote: string): Promise<string[]> => {
-  const ai = getClient();
+  console.log(`🧬 [DNA FIELD] Regenerating ${field}. Prompt:`, prompt);
+
+  const data = await generateStructured<Pick<BrandDNA, DNAField>>({
+    action: 'dna-field',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
+    contents: prompt,
+    responseSchema: { type: Type.OBJECT, properties: { [field]: DNA_FIELD_SCHEMAS[field] }, required: [field] },
+    label: 'DNA FIELD',
+    normalize: (raw) => ({
+      ...raw,
+      ...(field === 'colors' && { colors: dedupeStrings(raw.colors.map(normalizeHex).filter(Boolean) as string[]) }),
+      ...(field === 'colorRoles' && { colorRoles: normalizeColorRoles(raw.colorRoles, dna.colors) }),
+      ...(field === 'keywords' && { keywords: dedupeStrings(raw.keywords) })
+    }),
+    check: (value) => {
+      const result = value[field];
+      if (field === 'colorRoles') {
+        return Object.keys(result).length === 0 ? [`colorRoles must assign roles to palette colors: ${dna.colors.join(', ')}`] : [];
+      }
+      return (Array.isArray(result) ? result.length === 0 : !(result as string).trim()) ? [`${field} must not be empty`] : [];
+    }
+  });
+
+  console.log(`🧬 [DNA FIELD] New ${field}:`, data[field]);
+  return data[field] as BrandDNA[F];
+};
 
+// --- INSPIRATIONS ---
+
+export const analyzeInspiration = async (base64Image: string, userNote: string, context: GenerationContext = {}): Promise<string[]> => {
   const analysisPrompt = `Analyze this image. User note: "${userNote}". Extract 3-5 short, specific visual style cues (e.g., 'Chromatic aberration', 'Halftone patterns') that can be used in a prompt.`;
   console.log('🎨 [INSPIRATION] Analyzing image with prompt:', analysisPrompt);
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const cues = await generateStructured<string[]>({
+    action: 'inspiration-cues',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: {
       parts: [
-        { inlineData: { mimeType: 'image/png', data: base64Image.split(',')[1] } },
+        { inlineData: { mimeType: dataUrlMimeType(base64Image), data: base64Image.split(',')[1] } },
         { text: analysisPrompt }
       ]
     },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
+    responseSchema: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    label: 'INSPIRATION',
+    normalize: dedupeStrings,
+    check: (list) => list.length === 0 ? ['at least one style cue is required'] : []
   });
-
-  let jsonStr = response.text || "[]";
-  jsonStr = jsonStr.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-  const cues = JSON.parse(jsonStr);
   console.log('🎨 [INSPIRATION] Extracted cues:', cues);
   return cues;
 };
 
 // --- ASSET CREATION ---
 
-const buildPrompt = (dna: BrandDNA, inspirations: Inspiration[], type: AssetType, subtype: string, specificInstruction?: string) => {
-  const inspirationCues = inspirations.map(i => i.extractedCues.join(", ")).join("; ");
-  const primaryColor = dna.colors[0] || "white";
-  const accentColor = dna.colors[1] || "black";
-
-  const logoInstruction = dna.logoImage
-    ? "IMPORTANT: Incorporate the provided Logo image into the design. It should be clearly visible, undistorted, and placed appropriately for this item."
-    : `The design incorporates the brand name "${dna.name}" stylized as a logo.`;
+const ASSET_TEMPLATES: Partial<Record<AssetType, string>> = {
+  [AssetType.MERCHANDISE]: 'asset.merchandise',
+  [AssetType.MARKETING]: 'asset.marketing',
+  [AssetType.DIGITAL]: 'asset.digital'
+};
 
-  let basePrompt = "";
-  
-  // Create detailed garment descriptions
-  const getGarmentDetails = (subtype: string) => {
-    const st = subtype.toLowerCase();
-    if (st.includes('hoodie')) {
-      return 'A pullover hoodie with a drawstring hood, kangaroo front pocket, and ribbed cuffs and hem. This is specifically a HOODIE with long sleeves and a hood, NOT a t-shirt.';
-    } else if (st.includes('t-shirt') || st.includes('tshirt')) {
-      return 'A short-sleeved t-shirt with a crew neck. This is specifically a T-SHIRT with short sleeves and no hood, NOT a hoodie.';
-    } else if (st.includes('cap') || st.includes('hat')) {
-      return 'A baseball cap with curved brim and adjustable back strap.';
-    } else if (st.includes('tote')) {
-      return 'A canvas tote bag with sturdy handles.';
-    } else if (st.includes('mug')) {
-      return 'A ceramic coffee mug with a handle.';
-    }
-    return `A ${subtype}`;
+// Prompt colors by role; stand-ins when a role has no palette color
+const roleColors = (dna: BrandDNA) => {
+  const roles = resolveColorRoles(dna);
+  return {
+    primaryColor: roles.primary?.hex || 'white',
+    accentColor: (roles.accent || roles.secondary)?.hex || 'black'
   };
+};
 
-  switch (type) {
-    case AssetType.MERCHANDISE:
-      // CRITICAL: Be extremely specific about garment type to prevent confusion
-      const garmentDetails = getGarmentDetails(subtype);
-      basePrompt = `
-        CRITICAL INSTRUCTION: You MUST generate exactly a "${subtype}" and nothing else. Pay careful attention to the garment type.
-        
-        ${garmentDetails}
-        
-        PRODUCT DETAILS:
-        - Item: ${subtype} (follow the exact specifications above)
-        - Base fabric/material color: ${primaryColor}
-        - Features a bold, eye-catching graphic design printed on the front
-        - Material: High-quality, premium fabric/material with visible texture
-        - Photography style: Professional product photography, studio setting
-        - Background: Clean, neutral (white or light gray)
-        - Lighting: Soft, even studio lighting with subtle shadows
-        - Resolution: 4K quality with highly detailed fabric/material texture
-        
-        DESIGN ELEMENTS:
-        ${logoInstruction}
-        - Design vibe: ${dna.visualEssence}
-        - Accent color in design: ${accentColor}
-        - Design should be centered and prominent
-        
-        CRITICAL: This must be a ${subtype}, not any other garment type. Verify the garment matches "${subtype}" exactly.
-      `;
-      break;
-
-    case AssetType.MARKETING:
-      basePrompt = `
-        A professional ${subtype} design for the brand "${dna.name}".
-        Layout: Modern, clean, and high-impact.
-        ${logoInstruction}
-        Visuals: Incorporate the brand colors (${dna.colors.join(", ")}) and typography (${dna.typography}).
-        Content: It should convey the vibe: ${dna.visualEssence}.
-      `;
-      break;
+const buildPrompt = (
+  dna: BrandDNA,
+  inspirations: WeightedInspirations,
+  type: AssetType,
+  subtype: string,
+  specificInstruction: string,
+  context: GenerationContext
+): { text: string; templates: TemplateRef[] } => {
+  const inspirationCues = describeInspirationCues(inspirations);
+  const roles = resolveColorRoles(dna);
+  const { primaryColor, accentColor } = roleColors(dna);
+  const colorRoles = roles.text && roles.background
+    ? `Set text and key graphics in ${roles.text.hex} on ${roles.background.hex} (WCAG contrast ${formatRatio(contrastRatio(roles.text.hex, roles.background.hex))}); do not swap them for less legible pairs.`
+    : 'Keep text clearly legible against its background.';
 
-    case AssetType.DIGITAL:
-      basePrompt = `
-        A digital asset: ${subtype} for the brand "${dna.name}".
-        Style: Optimized for screens, UI/UX friendly, digital art style.
-        ${logoInstruction}
-        Colors: ${dna.colors.join(", ")}.
-        Vibe: ${dna.visualEssence}.
-      `;
-      break;
+  const logoInstruction = dna.logoImage
+    ? "IMPORTANT: Incorporate the provided Logo image into the design. It should be clearly visible, undistorted, and placed appropriately for this item."
+    : `The design incorporates the brand name "${dna.name}" stylized as a logo.`;
 
-    default:
-      basePrompt = `A creative brand asset (${subtype}) for "${dna.name}".`;
-  }
+  // CRITICAL: The catalog description spells out the exact item to prevent confusion
+  const itemDetails = findSubtype(context, subtype).description;
+  const base = renderTemplate(context, ASSET_TEMPLATES[type] || 'asset.generic', {
+    subtype,
+    name: dna.name,
+    garmentDetails: itemDetails,
+    itemDetails,
+    primaryColor,
+    accentColor,
+    logoInstruction,
+    colors: describePalette(dna),
+    typography: dna.typography,
+    visualEssence: dna.visualEssence
+  });
 
-  const finalPrompt = `
-    ${basePrompt}
-    ${specificInstruction ? `Instruction: ${specificInstruction}` : ''}
-    
-    BRAND DNA CONTEXT:
-    - Keywords: ${dna.keywords.join(", ")}
-    
-    INSPIRATION CUES (Apply these artistic styles to the graphic design/layout):
-    ${inspirationCues}
-    
-    REQUIREMENTS:
-    - Realism: Photorealistic (unless specified otherwise).
-    - Quality: Production ready, sharp focus.
-    - Consistency: Adhere strictly to the color palette.
-  `;
+  const final = renderTemplate(context, 'asset.wrapper', {
+    basePrompt: base.text,
+    instruction: specificInstruction,
+    keywords: dna.keywords.join(", "),
+    colorRoles,
+    inspirationCues
+  });
   
   console.log('📝 [PROMPT BUILDER]', {
     type,
     subtype,
     brandName: dna.name,
-    colors: dna.colors,
+    colorRoles: roles,
     hasLogo: !!dna.logoImage,
-    inspirationCount: inspirations.length,
-    promptLength: finalPrompt.length
+    inspirations: { strong: inspirations.strong.length, subtle: inspirations.subtle.length },
+    templates: [base.ref, final.ref].map(formatTemplateRef),
+    promptLength: final.text.length
   });
-  console.log('📝 [FULL PROMPT]:', finalPrompt);
+  console.log('📝 [FULL PROMPT]:', final.text);
   
-  return finalPrompt;
+  return { text: final.text, templates: [base.ref, final.ref] };
 };
 
+// The brand logo as a reference image ahead of a draft prompt
+const draftLogoParts = (dna: BrandDNA): ContentPart[] => dna.logoImage
+  ? [
+      { inlineData: { mimeType: 'image/png', data: dna.logoImage.split(',')[1] } },
+      { text: "Use the image above as the Brand Logo. Incorporate it into the design." }
+    ]
+  : [];
+
 // Phase 1: Drafts (Fast, Low Res) using Flash Image
-export const generateDrafts = async (dna: BrandDNA, inspirations: Inspiration[], type: AssetType, subtype: string): Promise<string[]> => {
-  const ai = getClient();
+export const generateDrafts = async (dna: BrandDNA, inspirations: WeightedInspirations, type: AssetType, subtype: string, context: GenerationContext = {}): Promise<ProvenanceStep[]> => {
+  const provider = getProvider();
 
-  console.log('🎨 [DRAFT GENERATION] Starting...', { type, subtype, hasLogo: !!dna.logoImage });
+  const item = findSubtype(context, subtype);
+  console.log('🎨 [DRAFT GENERATION] Starting...', { type, subtype, aspectRatio: item.aspectRatio, hasLogo: !!dna.logoImage });
 
   // Create 4 different creative approaches
+  const leadingCues = leadingInspirationCues(inspirations);
+  const variationVariables = {
+    keywords: dna.keywords.slice(0, 2).join(', '),
+    inspirationCues: leadingCues.join(', '),
+    visualEssence: dna.visualEssence,
+    colors: describePalette(dna),
+    ...roleColors(dna)
+  };
   const variations = [
-    { 
-      name: 'Minimal',
-      instruction: 'Create a minimal, clean design with simple elements. Focus on typography and negative space. Keep it understated and elegant.'
-    },
-    {
-      name: 'Bold',
-      instruction: `Use the primary keywords: ${dna.keywords.slice(0, 2).join(', ')}. Make it bold and striking with strong visual elements.`
-    },
-    {
-      name: 'Artistic',
-      instruction: inspirations.length > 0 
-        ? `Apply these visual styles heavily: ${inspirations[0]?.extractedCues.slice(0, 3).join(', ')}. Be creative and experimental.`
-        : `Creative interpretation of ${dna.visualEssence}. Add artistic flair and unique styling.`
-    },
-    {
-      name: 'Vibrant',
-      instruction: `Emphasize the brand colors ${dna.colors.join(', ')}. Create a vibrant, energetic design with maximum visual impact.`
-    }
-  ];
+    { name: 'Minimal', templateId: 'draft.minimal' },
+    { name: 'Bold', templateId: 'draft.bold' },
+    { name: 'Artistic', templateId: leadingCues.length > 0 ? 'draft.artistic' : 'draft.artistic-fallback' },
+    { name: 'Vibrant', templateId: 'draft.vibrant' }
+  ].map(v => ({ ...v, instruction: renderTemplate(context, v.templateId, variationVariables) }));
 
-  const parts: any[] = [];
-  
   // Inject Logo if available (shared across all variations)
-  if (dna.logoImage) {
-    console.log('🖼️  [DRAFT GENERATION] Adding logo to parts');
-    parts.push({
-      inlineData: { mimeType: 'image/png', data: dna.logoImage.split(',')[1] }
-    });
-    parts.push({ text: "Use the image above as the Brand Logo. Incorporate it into the design." });
-  }
+  const parts = draftLogoParts(dna);
+  if (dna.logoImage) console.log('🖼️  [DRAFT GENERATION] Adding logo to parts');
 
-  // Generate 4 variations in parallel with different prompts
-  console.log('🎨 [DRAFT GENERATION] Using model: gemini-3-pro-image-preview with low resolution');
+  // Generate 4 variations in parallel with different prompts.
+  // Under an A/B test of draft models, variations alternate between A and B.
   const promises = variations.map((variation, idx) => {
-    const promptText = buildPrompt(dna, inspirations, type, subtype, variation.instruction);
-    const variationParts = [...parts, { text: promptText }];
+    const prompt = buildPrompt(dna, inspirations, type, subtype, variation.instruction.text, context);
+    const templates = [variation.instruction.ref, ...prompt.templates];
+    const variationParts = [...parts, { text: prompt.text }];
+    const { model, aspectRatio, imageSize } = modelFor(context, 'draftImage', idx);
     
-    console.log(`🎨 [DRAFT ${idx + 1}] ${variation.name} variant`);
+    console.log(`🎨 [DRAFT ${idx + 1}] ${variation.name} variant on ${model} (${imageSize})`);
     
-    return ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts: variationParts },
-      config: {
-        imageConfig: { 
-          aspectRatio: "1:1",
-          imageSize: "512" // Low resolution for faster draft generation
-        }
-      }
-    });
+    return provider.generateImage({
+      action: 'draft',
+      brandId: context.brandId,
+      model,
+      parts: variationParts,
+      imageConfig: { aspectRatio: item.aspectRatio || aspectRatio, imageSize }
+    }).then(res => ({ res, model, templates, prompt: prompt.text }));
   });
 
   const responses = await Promise.all(promises);
 
-  const images: string[] = [];
-  responses.forEach((res, idx) => {
-    console.log(`🎨 [DRAFT ${idx + 1}] Candidates:`, res.candidates?.length || 0);
-    res.candidates?.[0]?.content?.parts?.forEach(part => {
-      if (part.inlineData) {
-        images.push(`data:image/png;base64,${part.inlineData.data}`);
-        console.log(`✅ [DRAFT ${idx + 1}] ${variations[idx].name} image generated`);
-      }
+  const drafts: ProvenanceStep[] = [];
+  responses.forEach(({ res, model, templates, prompt }, idx) => {
+    console.log(`🎨 [DRAFT ${idx + 1}] Images:`, res.images.length);
+    res.images.forEach(imageUrl => {
+      drafts.push({ kind: 'draft', prompt, model, imageUrl, createdAt: Date.now(), variation: variations[idx].name, templates });
+      console.log(`✅ [DRAFT ${idx + 1}] ${variations[idx].name} image generated`);
     });
   });
 
-  console.log(`🎨 [DRAFT GENERATION] Complete. Generated ${images.length} images`);
-  return images;
+  console.log(`🎨 [DRAFT GENERATION] Complete. Generated ${drafts.length} images`);
+  if (drafts.length === 0) throw new GenerationError('no-image', 'No drafts were generated');
+  return drafts;
 };
 
 // Phase 2: Edit/Refine (Flash Image or Pro Image)
 // Analyze annotations to generate a better edit prompt
-export const analyzeAnnotations = async (annotatedImage: string, userInstruction: string): Promise<string> => {
-  const ai = getClient();
+export const analyzeAnnotations = async (annotatedImage: string, userInstruction: string, context: GenerationContext = {}): Promise<string> => {
+  const provider = getProvider();
   
   console.log('🔍 [ANALYZE ANNOTATIONS] Analyzing user annotations...');
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const response = await provider.generateText({
+    action: 'annotation-analysis',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: {
       parts: [
         { inlineData: { mimeType: 'image/png', data: annotatedImage.split(',')[1] } },
@@ -408,23 +452,23 @@ Respond with ONLY the improved editing prompt, nothing else.` }
     }
   });
   
-  const improvedPrompt = response.candidates?.[0]?.content?.parts?.[0]?.text || userInstruction;
+  const improvedPrompt = response.text || userInstruction;
   console.log('🔍 [ANALYZE ANNOTATIONS] Improved prompt:', improvedPrompt);
   return improvedPrompt;
 };
 
 // Check spelling in image and provide fix instructions
-export const checkSpelling = async (imageUrl: string): Promise<{
+export const checkSpelling = async (imageUrl: string, context: GenerationContext = {}): Promise<{
   hasErrors: boolean;
   errors: string[];
   fixInstruction: string;
 }> => {
-  const ai = getClient();
-  
   console.log('✏️  [SPELL CHECK] Analyzing image for spelling errors...');
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const result = await generateStructured<{ hasErrors: boolean; errors: string[]; fixInstruction: string }>({
+    action: 'spell-check',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: {
       parts: [
         { inlineData: { mimeType: 'image/png', data: imageUrl.split(',')[1] } },
@@ -440,24 +484,20 @@ Response format (JSON):
 Be thorough and check brand names, slogans, body text, and any visible text.` }
       ]
     },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          hasErrors: { type: Type.BOOLEAN },
-          errors: { type: Type.ARRAY, items: { type: Type.STRING } },
-          fixInstruction: { type: Type.STRING }
-        },
-        required: ["hasErrors", "errors", "fixInstruction"]
-      }
-    }
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        hasErrors: { type: Type.BOOLEAN },
+        errors: { type: Type.ARRAY, items: { type: Type.STRING } },
+        fixInstruction: { type: Type.STRING }
+      },
+      required: ["hasErrors", "errors", "fixInstruction"]
+    },
+    label: 'SPELL CHECK',
+    normalize: (raw) => ({ ...raw, errors: dedupeStrings(raw.errors) }),
+    check: (r) => r.hasErrors && !r.fixInstruction ? ['fixInstruction is required when hasErrors is true'] : []
   });
   
-  let jsonStr = response.text || '{"hasErrors":false,"errors":[],"fixInstruction":""}';
-  jsonStr = jsonStr.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-  const result = JSON.parse(jsonStr);
-  
   console.log('✏️  [SPELL CHECK] Result:', result);
   return result;
 };
@@ -466,9 +506,10 @@ Be thorough and check brand names, slogans, body text, and any visible text.` }
 export const editAsset = async (
   originalImage: string,
   maskImage: string | null,
-  instruction: string
-): Promise<string> => {
-  const ai = getClient();
+  instruction: string,
+  context: GenerationContext = {}
+): Promise<ProvenanceStep> => {
+  const provider = getProvider();
 
   console.log('✏️  [EDIT ASSET] Instruction:', instruction);
   console.log('✏️  [EDIT ASSET] Has mask:', !!maskImage);
@@ -479,11 +520,11 @@ export const editAsset = async (
   // If a composite image with highlights is provided, analyze it first
   if (maskImage) {
     // Step 1: Analyze annotations to get better prompt
-    finalInstruction = await analyzeAnnotations(maskImage, instruction);
+    finalInstruction = await analyzeAnnotations(maskImage, instruction, context);
     imageToUse = maskImage;
   }
 
-  const parts: any[] = [
+  const parts: ContentPart[] = [
     { inlineData: { mimeType: 'image/png', data: imageToUse.split(',')[1] } },
     { text: maskImage 
       ? `Edit this image based on the following instruction. The bright green annotations show the areas to modify: ${finalInstruction}. 
@@ -504,28 +545,52 @@ IMPORTANT:
     }
   ];
 
-  console.log('✏️  [EDIT ASSET] Using model: gemini-3-pro-image-preview with low resolution');
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
-    contents: { parts },
-    config: {
-      imageConfig: {
-        imageSize: "512" // Low resolution for faster editing
-      }
-    }
+  const { model, imageSize } = modelFor(context, 'draftImage');
+  console.log(`✏️  [EDIT ASSET] Using model: ${model} at ${imageSize}`);
+  const response = await provider.generateImage({
+    action: 'edit',
+    brandId: context.brandId,
+    model,
+    parts,
+    imageConfig: { imageSize } // The aspect ratio follows the image being edited
   });
   
   console.log('✏️  [EDIT ASSET] Response received');
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+  if (response.images.length === 0) throw new GenerationError('no-image', 'Editing returned no image');
+  return {
+    kind: 'edit',
+    prompt: (parts[1] as { text: string }).text,
+    model,
+    imageUrl: response.images[0],
+    createdAt: Date.now(),
+    instruction,
+    maskUrl: maskImage || undefined
+  };
+};
+
+// The draft as the reference image, then the prompt, then the logo again
+const finalizeParts = (dna: BrandDNA, draftImage: string, prompt: string): ContentPart[] => {
+  const parts: ContentPart[] = [
+    { inlineData: { mimeType: 'image/png', data: draftImage.split(',')[1] } },
+    { text: prompt }
+  ];
+
+  // We should re-inject the logo here to ensure the high-res version also has the correct logo details, 
+  // although the draft image usually serves as the main reference.
+  // Adding the logo again reinforces its fidelity in the upscale.
+  if (dna.logoImage) {
+    parts.push({ inlineData: { mimeType: 'image/png', data: dna.logoImage.split(',')[1] } });
+    parts.push({ text: "Ensure the logo (provided as the second image) is rendered with perfect clarity and fidelity." });
   }
-  throw new Error("Editing failed");
+  return parts;
 };
 
 // Phase 3: Finalize (High Res) using Imagen 3
-export const finalizeAsset = async (dna: BrandDNA, draftImage: string, subtype: string): Promise<string> => {
-  const ai = getClient();
+export const finalizeAsset = async (dna: BrandDNA, draftImage: string, subtype: string, context: GenerationContext = {}): Promise<ProvenanceStep> => {
+  const provider = getProvider();
+  const { model, imageSize } = modelFor(context, 'finalImage');
+  const item = findSubtype(context, subtype);
 
   // We use the draft as a reference image to guide the high-quality generation
   const prompt = `
@@ -535,55 +600,89 @@ export const finalizeAsset = async (dna: BrandDNA, draftImage: string, subtype:
     Resolution: 4K.
   `;
 
-  console.log('🎯 [FINALIZE] Model: gemini-3-pro-image-preview');
+  console.log('🎯 [FINALIZE] Model:', model);
   console.log('🎯 [FINALIZE] Prompt:', prompt);
   console.log('🎯 [FINALIZE] Subtype:', subtype);
   console.log('🎯 [FINALIZE] Has logo:', !!dna.logoImage);
 
-  const parts: any[] = [
-    { inlineData: { mimeType: 'image/png', data: draftImage.split(',')[1] } },
-    { text: prompt }
-  ];
+  const response = await provider.generateImage({
+    action: 'finalize',
+    brandId: context.brandId,
+    model,
+    parts: finalizeParts(dna, draftImage, prompt),
+    imageConfig: { ...(item.aspectRatio && { aspectRatio: item.aspectRatio }), imageSize: item.imageSize || imageSize }
+  });
 
-  // We should re-inject the logo here to ensure the high-res version also has the correct logo details, 
-  // although the draft image usually serves as the main reference.
-  // Adding the logo again reinforces its fidelity in the upscale.
-  if (dna.logoImage) {
-    parts.push({ inlineData: { mimeType: 'image/png', data: dna.logoImage.split(',')[1] } });
-    parts.push({ text: "Ensure the logo (provided as the second image) is rendered with perfect clarity and fidelity." });
+  console.log('🎯 [FINALIZE] Response images:', response.images.length);
+
+  if (response.images.length > 0) {
+    console.log('✅ [FINALIZE] High-res image generated successfully');
+    return { kind: 'finalize', prompt, model, imageUrl: response.images[0], createdAt: Date.now() };
   }
+  console.error('❌ [FINALIZE] No image data in response');
+  throw new GenerationError('no-image', 'Finalization returned no image');
+};
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
-    contents: { parts },
-    config: {
-      imageConfig: { imageSize: "2K" } // High 2K resolution for final output
+// Run a recorded step again with its prompt and model, starting from the image
+// the step before it produced. For a draft step this is a fresh take on the
+// same prompt with the logo from the DNA snapshot.
+export const regenerateStep = async (provenance: Provenance, index: number, context: GenerationContext = {}): Promise<ProvenanceStep> => {
+  const provider = getProvider();
+  const step = provenance.steps[index];
+  const previousImage = provenance.steps[index - 1]?.imageUrl;
+  const item = findSubtype(context, provenance);
+
+  let parts: ContentPart[];
+  let imageConfig: { aspectRatio?: string; imageSize?: string };
+  switch (step.kind) {
+    case 'draft': {
+      const { aspectRatio, imageSize } = modelFor(context, 'draftImage', 0);
+      parts = [...draftLogoParts(provenance.dna), { text: step.prompt }];
+      imageConfig = { aspectRatio: item.aspectRatio || aspectRatio, imageSize };
+      break;
     }
-  });
+    case 'edit':
+      parts = [
+        { inlineData: { mimeType: 'image/png', data: (step.maskUrl || previousImage).split(',')[1] } },
+        { text: step.prompt }
+      ];
+      imageConfig = { imageSize: modelFor(context, 'draftImage', 0).imageSize };
+      break;
+    case 'finalize':
+      parts = finalizeParts(provenance.dna, previousImage, step.prompt);
+      imageConfig = {
+        ...(item.aspectRatio && { aspectRatio: item.aspectRatio }),
+        imageSize: item.imageSize || modelFor(context, 'finalImage', 0).imageSize
+      };
+      break;
+  }
 
-  console.log('🎯 [FINALIZE] Response candidates:', response.candidates?.length || 0);
+  console.log(`🔂 [REGENERATE] Step ${index + 1} (${step.kind}) on ${step.model}`);
+  const response = await provider.generateImage({
+    action: step.kind,
+    brandId: context.brandId,
+    model: step.model,
+    parts,
+    imageConfig
+  });
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      console.log('✅ [FINALIZE] High-res image generated successfully');
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  console.error('❌ [FINALIZE] No image data in response');
-  throw new Error("Finalization failed");
+  if (response.images.length === 0) throw new GenerationError('no-image', `Regenerating the ${step.kind} step returned no image`);
+  return { ...step, imageUrl: response.images[0], createdAt: Date.now() };
 };
 
 // Real-World Preview using Veo 3.1
-export const generateRealWorldPreview = async (assetImage: string, subtype: string, brandDNA: BrandDNA): Promise<string> => {
-  const ai = getClient();
-
+export const generateRealWorldPreview = async (
+  assetImage: string,
+  subtype: string,
+  brandDNA: BrandDNA,
+  options: VideoOperationOptions = {}
+): Promise<string> => {
   // Structured JSON-based prompts with detailed scene direction
-  let promptJson: any = {};
-  const st = subtype.toLowerCase();
+  const { previewScene } = findSubtype(options, subtype);
   
-  // Load model image for hoodies if available (browser-compatible)
+  // Load model image for apparel if available (browser-compatible)
   let modelImage: { imageBytes: string; mimeType: string } | undefined;
-  if (st.includes('hoodie') || st.includes('shirt') || st.includes('tshirt') || st.includes('t-shirt')) {
+  if (previewScene === 'apparel') {
     try {
       // Try to fetch model.jpg or model.png from public folder
       let modelUrl = '/model.jpg';
@@ -637,188 +736,28 @@ export const generateRealWorldPreview = async (assetImage: string, subtype: stri
     }
   }
   
-  if (st.includes('hoodie') || st.includes('shirt') || st.includes('tshirt') || st.includes('t-shirt')) {
-    promptJson = {
-      "scene_description": "Professional corporate office environment during daytime",
-      "subject": {
-        "type": modelImage ? "Use EXACT person from model reference image" : "Young professional, 25-30 years old",
-        "appearance": modelImage ? "Match face, skin tone, hair, and body type from model image precisely" : "Natural, professional appearance",
-        "wardrobe": `Wearing the EXACT ${subtype} design from reference image - match all colors, graphics, text, logo placement precisely`,
-        "action": "Walking confidently through modern glass-walled office corridor with natural stride"
-      },
-      "camera": {
-        "movement": "Smooth tracking shot following subject from side angle, steady cam",
-        "framing": "Medium shot keeping the ${subtype} design clearly visible and centered",
-        "transitions": "Cut to front view showing chest/design area in detail, then back to tracking"
-      },
-      "environment": {
-        "setting": "Contemporary open-plan office with clean white walls, glass partitions, green plants",
-        "lighting": "Natural window light from left side, soft ambient office lighting",
-        "background_activity": "Blurred office workers at desks, creating authentic workplace atmosphere"
-      },
-      "technical_specs": {
-        "duration": "6-8 seconds",
-        "color_grading": "Clean, professional, slight warmth",
-        "focus": "Rack focus from background to ${subtype} design on subject"
-      },
-      "critical_requirement": `The ${subtype} design MUST be 100% identical to reference image - exact colors, exact graphics, exact text, exact logo placement. No modifications allowed.`
-    };
-  } else if (st.includes('billboard')) {
-    promptJson = {
-      "scene_description": "POV from inside a moving car on a multi-lane highway during golden hour",
-      "billboard": {
-        "size": "Large roadside billboard (48ft x 14ft standard)",
-        "content": "Displays EXACT design from reference image with 100% fidelity - same layout, colors, text, graphics, logo position",
-        "position": "Right side of highway, 50 meters ahead initially",
-        "mounting": "Professional steel frame structure on elevated platform"
-      },
-      "camera": {
-        "perspective": "Dashboard camera POV, slight right angle to capture billboard",
-        "movement": "Smooth forward motion at highway speed (~65 mph), approaching then passing billboard",
-        "framing": "Billboard starts small in frame, grows to fill 60% of frame at closest point, then passes"
-      },
-      "environment": {
-        "road": "4-lane highway with light traffic, clear asphalt",
-        "time": "Late afternoon, golden hour lighting (4-5 PM)",
-        "weather": "Clear sky with few clouds, excellent visibility",
-        "surroundings": "Green grass embankment, distant trees, other highway signs visible"
-      },
-      "motion_details": {
-        "car_speed": "Constant 65 mph",
-        "passing_duration": "Billboard visible for 5-6 seconds total",
-        "closest_approach": "2-3 seconds in, billboard fills maximum frame",
-        "motion_blur": "Slight on foreground (dashboard edge), billboard crisp when centered"
-      },
-      "technical_specs": {
-        "duration": "6-8 seconds",
-        "color_grading": "Warm golden hour tones, enhanced billboard visibility",
-        "sound_suggestion": "Highway ambient, wind, engine hum"
-      },
-      "critical_requirement": "Billboard design MUST match reference image with absolute precision - every pixel, every color value, every text character, every graphic element identical. Zero deviation permitted."
-    };
-  } else if (st.includes('banner') || st.includes('poster')) {
-    promptJson = {
-      "scene_description": "Modern office interior with cork or fabric notice board on white wall",
-      "subject": {
-        "type": "Professional hands (manicured, neutral tone)",
-        "action": "Carefully positioning and smoothing ${subtype} onto notice board, starting top-right, smoothing downward"
-      },
-      "poster_details": {
-        "design": `EXACT design from reference image - match perfectly: colors, layout, text, graphics, logo`,
-        "material": "High-quality printed ${subtype}, slight paper texture visible",
-        "size": "Standard poster/banner dimensions"
-      },
-      "camera": {
-        "angle": "Close-up, slightly elevated angle (15 degrees)",
-        "movement": "Static initially, slow push-in to show design details mid-shot",
-        "framing": "Hands and ${subtype} fill 80% of frame, maintaining focus on design"
-      },
-      "environment": {
-        "wall": "Clean white wall or light gray cork board",
-        "lighting": "Soft overhead office lighting, no harsh shadows on poster",
-        "background": "Slightly out of focus office environment, other notices visible blurred"
-      },
-      "action_sequence": [
-        "Hands bring ${subtype} into frame from bottom",
-        "Position upper corners against board",
-        "Smooth hands moving down poster, removing air bubbles",
-        "Final pat to secure, hands move away revealing complete design"
-      ],
-      "technical_specs": {
-        "duration": "6-8 seconds",
-        "color_grading": "Neutral, true-to-life colors emphasizing ${subtype} design",
-        "focus": "Shallow depth of field, ${subtype} design sharp, background soft"
-      },
-      "critical_requirement": `${subtype} design must be IDENTICAL to reference image - perfect color match, perfect layout match, all text and graphics exactly as shown.`
-    };
-  } else if (st.includes('cap') || st.includes('hat')) {
-    promptJson = {
-      "scene_description": "Urban street environment, trendy neighborhood during daytime",
-      "subject": {
-        "type": "Stylish individual, 20-30 years old, contemporary streetwear",
-        "headwear": `Wearing the EXACT ${subtype} design from reference image - match colors, graphics, logo precisely`,
-        "action": "Walking casually down sidewalk with confident stride"
-      },
-      "camera": {
-        "movement": "Orbiting 270-degree arc around subject while they walk",
-        "path": "Start front-left, circle to back, end front-right",
-        "framing": "Upper body and head shots, keeping ${subtype} design visible throughout",
-        "speed": "Smooth gimbal movement, 6-second complete orbit"
-      },
-      "environment": {
-        "location": "Clean urban sidewalk with brick buildings, cafe storefronts",
-        "lighting": "Natural daylight, slight overcast for even lighting on ${subtype}",
-        "background": "Pedestrians walking (blurred), parked bicycles, street signs"
-      },
-      "angle_sequence": [
-        "0s-2s: Front-left view, ${subtype} brim and front design visible",
-        "2s-4s: Side and back view showing profile and back of ${subtype}",
-        "4s-6s: Front-right view, final clear view of ${subtype} design"
-      ],
-      "technical_specs": {
-        "duration": "6-8 seconds",
-        "color_grading": "Urban chic, slightly desaturated background, ${subtype} colors accurate",
-        "stabilization": "Smooth gimbal, no camera shake"
-      },
-      "critical_requirement": `${subtype} design MUST be 100% faithful to reference image - exact colors, exact graphics, exact logo, exact text.`
-    };
-  } else if (st.includes('tote') || st.includes('bag')) {
-    promptJson = {
-      "scene_description": "Trendy coffee shop district, outdoor pedestrian area",
-      "subject": {
-        "type": "Fashionable person, casual-chic outfit",
-        "carrying": `The EXACT ${subtype} design from reference image - match all colors, graphics, text, logo perfectly`,
-        "action": "Walking naturally through shopping street, bag swinging gently with stride"
-      },
-      "camera": {
-        "primary_angle": "Side tracking shot at waist level",
-        "movement": "Parallel tracking with subject, maintaining consistent distance",
-        "framing": "${subtype} visible throughout, occupying 30-40% of frame"
-      },
-      "environment": {
-        "setting": "Upscale shopping district with cafe umbrellas, boutique windows",
-        "time": "Mid-morning, soft natural light",
-        "atmosphere": "Few other pedestrians, green plants, street furniture"
-      },
-      "bag_movement": {
-        "physics": "Natural swing with walking gait, 2-second pendulum motion",
-        "visibility": "Design faces camera 60% of time as bag swings",
-        "handling": "Carried on shoulder or in hand, design prominently displayed"
-      },
-      "technical_specs": {
-        "duration": "6-8 seconds",
-        "color_grading": "Lifestyle aesthetic, warm tones, ${subtype} colors accurate",
-        "motion": "Natural walking pace, bag sway matches stride rhythm"
-      },
-      "critical_requirement": `${subtype} design must be EXACTLY as shown in reference image - perfect color fidelity, perfect graphic reproduction, all details identical.`
-    };
-  } else {
-    promptJson = {
-      "scene_description": `Professional showcase environment for ${subtype}`,
-      "subject": `The EXACT ${subtype} design from reference image`,
-      "camera": {
-        "movement": "Cinematic reveal with slow push-in and orbit",
-        "framing": "Hero product shot, ${subtype} centered and prominent"
-      },
-      "lighting": "Studio-quality three-point lighting, emphasizing design details",
-      "technical_specs": {
-        "duration": "6-8 seconds",
-        "aesthetic": `${brandDNA.visualEssence}`,
-        "color_accuracy": "Reference image match required"
-      },
-      "critical_requirement": `${subtype} MUST match reference image with 100% precision - all colors, text, graphics, layout exactly as provided.`
-    };
-  }
+  const sceneTemplateId = `preview.${previewScene}`;
+
+  // Values land inside JSON strings, so quotes and newlines are escaped
+  const jsonSafe = (value: string) => JSON.stringify(value).slice(1, -1);
+  const scene = renderTemplate(options, sceneTemplateId, {
+    subtype: jsonSafe(subtype),
+    visualEssence: jsonSafe(brandDNA.visualEssence),
+    subjectType: modelImage ? "Use EXACT person from model reference image" : "Young professional, 25-30 years old",
+    subjectAppearance: modelImage ? "Match face, skin tone, hair, and body type from model image precisely" : "Natural, professional appearance"
+  });
 
-  const prompt = `Generate video based on this scene direction:\n\n${JSON.stringify(promptJson, null, 2)}\n\nBrand: ${brandDNA.name}`;
+  const prompt = `Generate video based on this scene direction:\n\n${scene.text}\n\nBrand: ${brandDNA.name}`;
 
-  console.log('🎬 [PREVIEW] Model: veo-3.1-generate-preview');
-  console.log('🎬 [PREVIEW] JSON Prompt:', JSON.stringify(promptJson, null, 2));
+  const { model, resolution, aspectRatio } = modelFor(options, 'video');
+  console.log('🎬 [PREVIEW] Model:', model);
+  console.log(`🎬 [PREVIEW] JSON Prompt (${formatTemplateRef(scene.ref)}):`, scene.text);
   console.log('🎬 [PREVIEW] Subtype:', subtype);
   console.log('🎬 [PREVIEW] Custom model image:', modelImage ? 'YES' : 'NO');
 
-  const generateConfig: any = {
-    model: 'veo-3.1-generate-preview',
+  const generateConfig: VideoRequest = {
+    action: 'preview-video',
+    model,
     prompt: prompt,
     image: {
       imageBytes: assetImage.split(',')[1],
@@ -826,13 +765,12 @@ export const generateRealWorldPreview = async (assetImage: string, subtype: stri
     },
     config: { 
       numberOfVideos: 1, 
-      resolution: '720p', 
-      aspectRatio: '16:9',
-      enableAudio: false  // Disable audio to avoid safety filter issues
+      resolution: resolution!,
+      aspectRatio: aspectRatio!
     }
   };
 
-  // Add model image for hoodies if available
+  // Add model image for apparel if available
   if (modelImage) {
     generateConfig.referenceImages = [{
       imageBytes: modelImage.imageBytes,
@@ -840,126 +778,61 @@ export const generateRealWorldPreview = async (assetImage: string, subtype: stri
     }];
   }
 
-  let operation = await ai.models.generateVideos(generateConfig);
-
-  console.log('🎬 [PREVIEW] Operation started, polling...');
-
-  // Poll for completion
-  let pollCount = 0;
-  while (!operation.done && pollCount < 60) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    operation = await ai.operations.getVideosOperation({ operation });
-    pollCount++;
-    console.log(`🎬 [PREVIEW] Poll ${pollCount}: ${operation.done ? 'COMPLETE' : 'In progress...'}`);
-  }
-
-  if (!operation.done) {
-    console.error('❌ [PREVIEW] Operation timed out after 60 polls (5 minutes)');
-    throw new Error("Preview generation timed out - please try again");
-  }
-
-  console.log('🎬 [PREVIEW] Operation response:', JSON.stringify(operation.response, null, 2));
-
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) {
-    console.error('❌ [PREVIEW] No video URI in response');
-    console.error('Full operation:', JSON.stringify(operation, null, 2));
-    
-    // Check for RAI filter blocking
-    const raiReasons = (operation.response as any)?.raiMediaFilteredReasons;
-    if (raiReasons && raiReasons.length > 0) {
-      throw new Error(`Content filtered: ${raiReasons[0]}`);
-    }
-    
-    // Check for other errors
-    const errorMsg = (operation.response as any)?.error?.message || 'Unknown error - no video generated';
-    throw new Error(`Preview generation failed: ${errorMsg}. Please try again.`);
-  }
-
-  console.log('✅ [PREVIEW] Video generated successfully:', videoUri);
-  return `${videoUri}&key=${process.env.API_KEY}`;
+  return runVideoOperation(generateConfig, { label: `${subtype} preview`, ...options });
 };
 
 // Phase 4: Visualize (Veo 3)
-export const generateVisualizationVideo = async (assetImage: string, subtype: string): Promise<string> => {
-  const ai = getClient();
-
+export const generateVisualizationVideo = async (
+  assetImage: string,
+  subtype: string,
+  options: VideoOperationOptions = {}
+): Promise<string> => {
+  const { previewScene } = findSubtype(options, subtype);
   let prompt = "";
-  if (subtype.toLowerCase().includes('hoodie') || subtype.toLowerCase().includes('shirt')) {
+  if (previewScene === 'apparel') {
     prompt = "A cinematic video of a fashion model walking down a city street wearing this exact clothing item. Realistic fabric physics, 4k.";
-  } else if (subtype.toLowerCase().includes('billboard')) {
+  } else if (previewScene === 'billboard') {
     prompt = "A cinematic video from a moving car driving past a large highway billboard displaying this exact advertisement. Realistic lighting, 4k.";
   } else {
     prompt = "A cinematic commercial showcase of this product, rotating slowly in a studio environment.";
   }
 
-  console.log('🎬 [VIDEO] Model: veo-3.1-generate-preview');
+  const { model, resolution, aspectRatio } = modelFor(options, 'video');
+  console.log('🎬 [VIDEO] Model:', model);
   console.log('🎬 [VIDEO] Prompt:', prompt);
   console.log('🎬 [VIDEO] Subtype:', subtype);
 
-  let operation = await ai.models.generateVideos({
-    model: 'veo-3.1-generate-preview',
+  return runVideoOperation({
+    action: 'visualization-video',
+    model,
     prompt: prompt,
     image: {
       imageBytes: assetImage.split(',')[1],
       mimeType: 'image/png'
     },
-    config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' }
-  });
-  
-  console.log('🎬 [VIDEO] Operation started, polling for completion...');
-
-  let pollCount = 0;
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    operation = await ai.operations.getVideosOperation({ operation });
-    pollCount++;
-    console.log(`🎬 [VIDEO] Poll ${pollCount}: ${operation.done ? 'COMPLETE' : 'In progress...'}`);
-  }
-
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) {
-    console.error('❌ [VIDEO] No video URI in response');
-    throw new Error("Video generation failed");
-  }
-
-  console.log('✅ [VIDEO] Video generated successfully:', videoUri);
-  return `${videoUri}&key=${process.env.API_KEY}`;
+    config: { numberOfVideos: 1, resolution: resolution!, aspectRatio: aspectRatio! }
+  }, { label: `${subtype} visualization`, ...options });
 };
 
 // --- AD CREATOR ---
 
 export const brainstormAdIdea = async (
   dna: BrandDNA,
-  conversationHistory: { role: string; content: string }[]
+  conversationHistory: { role: string; content: string }[],
+  moodBoard: string | null, // From describeMoodBoard
+  context: GenerationContext = {}
 ): Promise<string> => {
-  const ai = getClient();
-
-  const systemContext = `You are a creative advertising strategist for ${dna.name}.
-Brand DNA:
-- Visual Essence: ${dna.visualEssence}
-- Colors: ${dna.colors.join(', ')}
-- Typography: ${dna.typography}
-- Keywords: ${dna.keywords.join(', ')}
-- Design System: ${dna.designSystem}
-
-CRITICAL CONSTRAINT: All video ads will be exactly 8 SECONDS or less (Veo 3 limitation).
-
-Your role is to:
-1. Brainstorm PUNCHY, FAST-PACED video ad concepts that work in 8 seconds
-2. Focus on QUICK-CUT style: rapid transitions, single powerful message
-3. Suggest concepts with 2-3 distinct visual moments maximum
-4. Keep messaging TIGHTLY COMPOSED - one core idea, executed fast
-5. Think: TikTok/Instagram Reels energy - grab attention immediately
-6. When the user seems satisfied with a concept, encourage them to finalize it
-
-Examples of 8-second ad concepts:
-- Product reveal with dramatic transition (3-4 keyframes)
-- Before/After transformation (2 keyframes)
-- Quick product feature showcase (2-3 features, 2-3 seconds each)
-- Bold statement + product shot + logo (3 keyframes)
-
-Keep responses conversational, creative, and focused on SHORT-FORM video possibilities.`;
+  const provider = getProvider();
+
+  const systemContext = renderTemplate(context, 'ads.brainstorm', {
+    name: dna.name,
+    visualEssence: dna.visualEssence,
+    colors: describePalette(dna),
+    typography: dna.typography,
+    keywords: dna.keywords.join(', '),
+    designSystem: dna.designSystem,
+    moodBoard: moodBoard || 'None chosen; work from the brand DNA alone.'
+  }).text;
 
   const messages = [
     { role: 'user', parts: [{ text: systemContext }] },
@@ -971,8 +844,10 @@ Keep responses conversational, creative, and focused on SHORT-FORM video possibi
 
   console.log('💬 [AD BRAINSTORM] Conversation:', messages);
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const response = await provider.generateText({
+    action: 'ad-brainstorm',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: messages
   });
 
@@ -984,15 +859,16 @@ Keep responses conversational, creative, and focused on SHORT-FORM video possibi
 
 export const generateVoiceoverScript = async (
   dna: BrandDNA,
-  conversationHistory: { role: string; content: string }[]
+  conversationHistory: { role: string; content: string }[],
+  context: GenerationContext = {}
 ): Promise<string> => {
-  const ai = getClient();
+  const provider = getProvider();
 
   const prompt = `Based on this ad brainstorming conversation for ${dna.name}, create a compelling voiceover script for a 6-8 second video ad.
 
 Brand DNA:
 - Visual Essence: ${dna.visualEssence}
-- Colors: ${dna.colors.join(', ')}
+- Colors: ${describePalette(dna)}
 - Keywords: ${dna.keywords.join(', ')}
 
 Conversation:
@@ -1010,8 +886,10 @@ Return ONLY the voiceover script text, no additional formatting or labels.`;
 
   console.log('🎤 [VOICEOVER] Generating script...');
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const response = await provider.generateText({
+    action: 'ad-voiceover',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: prompt
   });
 
@@ -1023,16 +901,19 @@ Return ONLY the voiceover script text, no additional formatting or labels.`;
 export const generateAdKeyframes = async (
   dna: BrandDNA,
   conversationHistory: { role: string; content: string }[],
-  voiceoverScript: string
+  voiceoverScript: string,
+  moodBoard: string | null,
+  context: GenerationContext = {}
 ): Promise<{ url: string; description: string }[]> => {
-  const ai = getClient();
+  const provider = getProvider();
 
   // First, use Gemini to plan the keyframes with consistent visual style
   const planningPrompt = `Based on this ad concept and voiceover script, describe 2-3 key visual moments (keyframes) for the video ad.
 
 Brand: ${dna.name}
 Visual Essence: ${dna.visualEssence}
-Colors: ${dna.colors.join(', ')}
+Colors: ${describePalette(dna)}
+${moodBoard ? `Mood board (match its look): ${moodBoard}` : ''}
 ${dna.logoImage ? 'Brand has a logo that should be incorporated.' : ''}
 
 Voiceover Script:
@@ -1063,36 +944,36 @@ Return as JSON array of objects with "description" and "photographicStyle" field
 
   console.log('🎬 [KEYFRAMES] Planning keyframes...');
 
-  const planResponse = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+  const keyframePlans = await generateStructured<{ description: string; photographicStyle: string }[]>({
+    action: 'ad-keyframe-plan',
+    brandId: context.brandId,
+    model: modelFor(context, 'reasoning').model,
     contents: planningPrompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING },
-            photographicStyle: { type: Type.STRING, description: "Consistent lighting, mood, camera setup for all frames" }
-          },
-          required: ["description", "photographicStyle"]
-        }
+    responseSchema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          photographicStyle: { type: Type.STRING, description: "Consistent lighting, mood, camera setup for all frames" }
+        },
+        required: ["description", "photographicStyle"]
       }
-    }
+    },
+    label: 'KEYFRAMES',
+    check: (plans) => plans.length === 0 ? ['at least one keyframe plan is required'] : []
   });
 
-  let jsonStr = planResponse.text || "[]";
-  jsonStr = jsonStr.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-  const keyframePlans = JSON.parse(jsonStr);
-
   console.log('🎬 [KEYFRAMES] Plans:', keyframePlans);
 
   // Extract the shared photographic style from the first frame
   const sharedStyle = keyframePlans[0]?.photographicStyle || 'professional advertising photography, cinematic lighting';
 
-  // Generate images for each keyframe with consistent style
+  // Generate images for each keyframe with consistent style, all on one model,
+  // framed like the video they feed into
   const keyframes: { url: string; description: string }[] = [];
+  const { model: keyframeModel, imageSize: keyframeSize } = modelFor(context, 'finalImage');
+  const { aspectRatio: videoAspectRatio } = modelFor(context, 'video');
 
   for (const plan of keyframePlans) {
     const imagePrompt = `${plan.description}
@@ -1100,34 +981,35 @@ Return as JSON array of objects with "description" and "photographicStyle" field
 PHOTOGRAPHIC STYLE (MUST MATCH ACROSS ALL FRAMES):
 ${sharedStyle}
 
-Brand colors: ${dna.colors.join(', ')}
+Brand colors: ${describePalette(dna)}
 Brand essence: ${dna.visualEssence}
+${moodBoard ? `Mood board: ${moodBoard}` : ''}
 ${dna.logoImage ? 'Feature the brand logo prominently in the composition.' : ''}
 
 CRITICAL REQUIREMENTS:
 - NO text, typography, or written words anywhere in the image
 - Use logo for brand identity (if available)
 - Visual storytelling only - no captions, taglines, or text overlays
-- High quality, 16:9 aspect ratio, professional advertising quality`;
+- High quality, ${videoAspectRatio} aspect ratio, professional advertising quality`;
 
     console.log('🖼️ [KEYFRAME] Generating image for:', plan.description);
     console.log('🎨 [STYLE] Using consistent style:', sharedStyle);
 
-    const imageResponse = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts: [{ text: imagePrompt }] },
-      config: {
-        imageConfig: {
-          aspectRatio: '16:9',
-          imageSize: '1024'
-        }
+    const imageResponse = await provider.generateImage({
+      action: 'ad-keyframe',
+      brandId: context.brandId,
+      model: keyframeModel,
+      parts: [{ text: imagePrompt }],
+      imageConfig: {
+        aspectRatio: videoAspectRatio,
+        imageSize: keyframeSize
       }
     });
 
-    const imagePart = imageResponse.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-    if (imagePart?.inlineData) {
+    const image = imageResponse.images[0];
+    if (image) {
       keyframes.push({
-        url: `data:image/png;base64,${imagePart.inlineData.data}`,
+        url: image,
         description: plan.description
       });
       console.log('✅ [KEYFRAME] Generated successfully');
@@ -1142,12 +1024,8 @@ export const generateAdVideo = async (
   dna: BrandDNA,
   voiceoverScript: string,
   keyframes: { url: string; description: string }[],
-  onProgress?: (status: string) => void
+  options: VideoOperationOptions = {}
 ): Promise<string> => {
-  const ai = getClient();
-
-  onProgress?.('Creating video montage from keyframes...');
-
   // Use the first keyframe as the primary image for video generation
   const primaryImage = keyframes[0].url;
 
@@ -1158,7 +1036,7 @@ ${voiceoverScript}
 
 Visual Style:
 - ${dna.visualEssence}
-- Colors: ${dna.colors.join(', ')}
+- Colors: ${describePalette(dna)}
 - QUICK-CUT style: rapid transitions, energetic movement
 - Dynamic camera movements: zooms, pans, reveals
 - Professional advertising quality
@@ -1168,13 +1046,13 @@ The video should be PUNCHY and ATTENTION-GRABBING like a TikTok/Instagram Reel.
 Rapid cuts between visual moments. High energy. Immediate impact.
 Think: product reveal, transformation, or feature showcase in 8 seconds.`;
 
-  console.log('🎥 [AD VIDEO] Generating with Veo...');
+  const { model, resolution, aspectRatio } = modelFor(options, 'video');
+  console.log(`🎥 [AD VIDEO] Generating with ${model}...`);
   console.log('🎥 [AD VIDEO] Prompt:', videoPrompt);
 
-  onProgress?.('Generating video with AI...');
-
-  let operation = await ai.models.generateVideos({
-    model: 'veo-3.1-generate-preview',
+  return runVideoOperation({
+    action: 'ad-video',
+    model,
     prompt: videoPrompt,
     image: {
       imageBytes: primaryImage.split(',')[1],
@@ -1182,41 +1060,8 @@ Think: product reveal, transformation, or feature showcase in 8 seconds.`;
     },
     config: {
       numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: '16:9'
+      resolution: resolution!,
+      aspectRatio: aspectRatio!
     }
-  });
-
-  console.log('🎥 [AD VIDEO] Operation started, polling...');
-
-  let pollCount = 0;
-  while (!operation.done && pollCount < 60) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    operation = await ai.operations.getVideosOperation({ operation });
-    pollCount++;
-    onProgress?.(`Rendering video... (${pollCount * 5}s)`);
-    console.log(`🎥 [AD VIDEO] Poll ${pollCount}: ${operation.done ? 'COMPLETE' : 'In progress...'}`);
-  }
-
-  if (!operation.done) {
-    console.error('❌ [AD VIDEO] Operation timed out');
-    throw new Error("Video generation timed out - please try again");
-  }
-
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) {
-    console.error('❌ [AD VIDEO] No video URI in response');
-    
-    const raiReasons = (operation.response as any)?.raiMediaFilteredReasons;
-    if (raiReasons && raiReasons.length > 0) {
-      throw new Error(`Content filtered: ${raiReasons[0]}`);
-    }
-    
-    throw new Error("Video generation failed - please try again");
-  }
-
-  console.log('✅ [AD VIDEO] Video generated successfully:', videoUri);
-  onProgress?.('Video ready!');
-  
-  return `${videoUri}&key=${process.env.API_KEY}`;
+  }, { label: `${dna.name} ad video`, ...options });
 };
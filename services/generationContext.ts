@@ -0,0 +1,54 @@
+import { AssetSubtype, BrandWorkspace, ModelABTest, ModelRegistry, ModelRole, ModelRoleConfig, PromptTemplateOverride } from "../types";
+import { CallAttribution } from "./providers";
+import { DEFAULT_MODELS, resolveModels } from "./modelRegistry";
+
+// --- GENERATION CONTEXT ---
+//
+// The last argument of every geminiService call: which brand the call is for
+// (usage, budget), the models that brand's workspace resolves to, its
+// prompt template overrides and its custom Studio items.
+
+export interface GenerationContext extends CallAttribution {
+  models?: ModelRegistry;          // Defaults to DEFAULT_MODELS
+  modelTest?: ModelABTest | null;
+  templates?: Record<string, PromptTemplateOverride>; // By template id; defaults otherwise
+  subtypes?: AssetSubtype[];       // Custom items; the built-in catalog otherwise
+}
+
+// What components receive from App for the active brand
+export interface BrandContext extends GenerationContext {
+  brandId: string;
+  models: ModelRegistry;
+}
+
+export const buildBrandContext = (brand: BrandWorkspace): BrandContext => ({
+  brandId: brand.id,
+  models: resolveModels(brand.settings.models),
+  modelTest: brand.settings.modelTest,
+  templates: brand.settings.templates,
+  subtypes: brand.settings.subtypes
+});
+
+let unslottedCalls = 0;
+
+// The model config for one call. Under an A/B test of this role, even slots
+// use the configured model (A) and odd slots the candidate (B); calls made
+// without a slot alternate between the two.
+export const modelFor = (context: GenerationContext, role: ModelRole, slot?: number): ModelRoleConfig => {
+  const config = (context.models || DEFAULT_MODELS)[role];
+  const test = context.modelTest;
+  if (!test || test.role !== role || !test.candidate) return config;
+  const index = slot ?? unslottedCalls++;
+  return index % 2 === 1 ? { ...config, model: test.candidate } : config;
+};
+
+// Fix a role to one model, e.g. to edit a draft with the model that drew it
+export const pinModel = <T extends GenerationContext>(context: T, role: ModelRole, model?: string): T => {
+  if (!model) return context;
+  const models = context.models || DEFAULT_MODELS;
+  return {
+    ...context,
+    models: { ...models, [role]: { ...models[role], model } },
+    modelTest: context.modelTest?.role === role ? null : context.modelTest
+  };
+};
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  NEAR_DUPLICATE_DISTANCE, SIMILAR_DISTANCE, averageHash, differenceHash, findNearDuplicate, findSimilar, hammingDistance,
+  hashDistance, hashNewImages, hashPixels, isCurrentHash
+} from './imageHash';
+
+const SIDE = 32;
+
+// RGBA pixels from a function of the position
+const image = (color: (x: number, y: number) => [number, number, number]): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(SIDE * SIDE * 4);
+  for (let y = 0; y < SIDE; y++) {
+    for (let x = 0; x < SIDE; x++) data.set([...color(x, y), 255], (y * SIDE + x) * 4);
+  }
+  return data;
+};
+
+const solid = (r: number, g: number, b: number) => image(() => [r, g, b]);
+const gradient = image(x => [x * 8, x * 8, x * 8]);
+const checker = image((x, y) => ((x >> 3) + (y >> 3)) % 2 ? [255, 255, 255] : [0, 0, 0]);
+const hash = (data: Uint8ClampedArray) => hashPixels(data, SIDE, SIDE);
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0);
+    expect(hammingDistance('000f', '0000')).toBe(4);
+    expect(hammingDistance('ffff', '0000')).toBe(16);
+    expect(hammingDistance('a5', '5a')).toBe(8);
+  });
+});
+
+describe('averageHash and differenceHash', () => {
+  it('gives a flat image no bits, whatever its color', () => {
+    for (const luma of [0, 37.3, 128, 200.7, 255]) {
+      const gray = new Float64Array(SIDE * SIDE).fill(luma);
+      expect(averageHash(gray, SIDE, SIDE)).toBe('0'.repeat(16));
+      expect(differenceHash(gray, SIDE, SIDE)).toBe('0'.repeat(16));
+    }
+  });
+
+  it('reads a left-to-right gradient', () => {
+    const gray = new Float64Array(SIDE * SIDE).map((_, i) => (i % SIDE) * 8);
+    expect(averageHash(gray, SIDE, SIDE)).toBe('0f'.repeat(8));
+    expect(differenceHash(gray, SIDE, SIDE)).toBe('0'.repeat(16)); // Never brighter than the right neighbour
+  });
+});
+
+describe('hashPixels and hashDistance', () => {
+  it('produces a current hash', () => {
+    expect(isCurrentHash(hash(checker))).toBe(true);
+    expect(isCurrentHash('0'.repeat(32))).toBe(false);
+    expect(isCurrentHash(undefined)).toBe(false);
+  });
+
+  it('matches an image with itself and with a slightly changed copy', () => {
+    const noisy = image((x, y) => { const v = ((x >> 3) + (y >> 3)) % 2 ? 250 : 6; return [v, v, v]; });
+    expect(hashDistance(hash(checker), hash(checker))).toBe(0);
+    expect(hashDistance(hash(checker), hash(noisy))).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE);
+  });
+
+  it('keeps different images apart', () => {
+    expect(hashDistance(hash(checker), hash(gradient))).toBeGreaterThan(SIMILAR_DISTANCE);
+  });
+
+  it('keeps solid images of different brightness apart', () => {
+    const black = hash(solid(0, 0, 0));
+    const white = hash(solid(255, 255, 255));
+    const red = hash(solid(200, 30, 30));
+    expect(hashDistance(black, hash(solid(2, 2, 2)))).toBe(0);
+    expect(hashDistance(black, white)).toBeGreaterThan(SIMILAR_DISTANCE);
+    expect(hashDistance(red, white)).toBeGreaterThan(NEAR_DUPLICATE_DISTANCE);
+  });
+
+  it('compares hashes from before brightness was added by their bits only', () => {
+    const old = hash(checker).slice(0, 32);
+    expect(hashDistance(old, hash(checker))).toBe(0);
+  });
+});
+
+describe('findSimilar and findNearDuplicate', () => {
+  const items = [
+    { id: 'gradient', imageHash: hash(gradient) },
+    { id: 'checker', imageHash: hash(checker) },
+    { id: 'unhashed' }
+  ];
+
+  it('returns matches closest first and skips unhashed items', () => {
+    expect(findSimilar(hash(checker), items).map(m => m.item.id)).toEqual(['checker']);
+    expect(findNearDuplicate(hash(gradient), items)?.id).toBe('gradient');
+    expect(findNearDuplicate(hash(solid(255, 255, 255)), items)).toBeNull();
+  });
+});
+
+describe('hashNewImages', () => {
+  // Answers every request with `respond`, or fails like a worker that couldn't start
+  const stubWorker = (respond: ((images: string[]) => (string | null)[]) | null) => {
+    vi.stubGlobal('Worker', class {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+      onerror: ((event: { message: string }) => void) | null = null;
+      postMessage({ images }: { images: string[] }) {
+        setTimeout(() => respond ? this.onmessage?.({ data: { hashes: respond(images) } }) : this.onerror?.({ message: 'boom' }));
+      }
+      terminate() {}
+    });
+  };
+
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('retries images after the worker fails, but not once it has answered', async () => {
+    stubWorker(null);
+    await expect(hashNewImages(['data:a', 'data:b'])).rejects.toThrow('boom');
+
+    const sent: string[] = [];
+    stubWorker(images => { sent.push(...images); return images.map(url => url === 'data:a' ? 'f'.repeat(34) : null); });
+    expect(await hashNewImages(['data:a', 'data:b'])).toEqual({ 'data:a': 'f'.repeat(34) });
+    expect(await hashNewImages(['data:a', 'data:b', 'data:c'])).toEqual({});
+    expect(sent).toEqual(['data:a', 'data:b', 'data:c']);
+  });
+});
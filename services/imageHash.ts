@@ -0,0 +1,182 @@
+// --- PERCEPTUAL HASH ---
+//
+// Two 64-bit hashes of a tiny grayscale copy of the image, as 32 hex chars:
+// aHash (each of 8x8 cells brighter than the mean?) followed by dHash (each of
+// 9x8 cells brighter than its right neighbour?), then 2 hex chars of mean
+// brightness. Re-encoded, resized or lightly edited copies of an image land a
+// few bits apart. Decoding runs in imageHashWorker so hashing a whole brand
+// doesn't block the UI.
+
+const HASH_SIDE = 8;
+const HASH_HEX = (HASH_SIDE * HASH_SIDE) / 4;
+const HASH_LENGTH = HASH_HEX * 2 + 2;
+
+// Cells closer than this (of 255) count as equal. Averaging leaves float noise
+// behind, which would otherwise give flat areas random bits.
+const LUMA_TOLERANCE = 0.5;
+// Brightness levels per extra bit of distance. Both hashes ignore overall
+// brightness, so without it a black and a white image would be identical.
+const BRIGHTNESS_STEP = 16;
+
+export const NEAR_DUPLICATE_DISTANCE = 5; // Differing bits (of 64, in both hashes): the same image
+export const SIMILAR_DISTANCE = 14;       // Same composition, different details
+
+// Luma of RGBA pixels, composited on white so transparent areas are consistent
+export const toGrayscale = (data: Uint8ClampedArray, width: number, height: number): Float64Array => {
+  const gray = new Float64Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luma = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+};
+
+// Box-filter resize: each target cell averages the source pixels it covers
+export const resizeGray = (gray: Float64Array, width: number, height: number, toWidth: number, toHeight: number): Float64Array => {
+  const out = new Float64Array(toWidth * toHeight);
+  for (let ty = 0; ty < toHeight; ty++) {
+    const y0 = Math.floor(ty * height / toHeight);
+    const y1 = Math.max(y0 + 1, Math.floor((ty + 1) * height / toHeight));
+    for (let tx = 0; tx < toWidth; tx++) {
+      const x0 = Math.floor(tx * width / toWidth);
+      const x1 = Math.max(x0 + 1, Math.floor((tx + 1) * width / toWidth));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += gray[y * width + x];
+      }
+      out[ty * toWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+};
+
+export const averageHash = (gray: Float64Array, width: number, height: number): string => {
+  const cells = resizeGray(gray, width, height, HASH_SIDE, HASH_SIDE);
+  const mean = cells.reduce((sum, v) => sum + v, 0) / cells.length;
+  return bitsToHex(Array.from(cells, v => v > mean + LUMA_TOLERANCE));
+};
+
+export const differenceHash = (gray: Float64Array, width: number, height: number): string => {
+  const cells = resizeGray(gray, width, height, HASH_SIDE + 1, HASH_SIDE);
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIDE; y++) {
+    for (let x = 0; x < HASH_SIDE; x++) bits.push(cells[y * (HASH_SIDE + 1) + x] > cells[y * (HASH_SIDE + 1) + x + 1] + LUMA_TOLERANCE);
+  }
+  return bitsToHex(bits);
+};
+
+const brightness = (gray: Float64Array): string =>
+  Math.round(gray.reduce((sum, v) => sum + v, 0) / gray.length).toString(16).padStart(2, '0');
+
+// RGBA pixels (as from ImageData) to the combined hash
+export const hashPixels = (data: Uint8ClampedArray, width: number, height: number): string => {
+  const gray = toGrayscale(data, width, height);
+  return averageHash(gray, width, height) + differenceHash(gray, width, height) + brightness(gray);
+};
+
+// Hashes from before brightness was added (or before the tolerance fix) get redone
+export const isCurrentHash = (hash: string | undefined): hash is string => hash?.length === HASH_LENGTH;
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// The larger of the aHash and dHash distances, so both have to agree, plus
+// a bit per BRIGHTNESS_STEP the images differ in overall brightness
+export const hashDistance = (a: string, b: string): number => {
+  const bits = Math.max(
+    hammingDistance(a.slice(0, HASH_HEX), b.slice(0, HASH_HEX)),
+    hammingDistance(a.slice(HASH_HEX, HASH_HEX * 2), b.slice(HASH_HEX, HASH_HEX * 2))
+  );
+  if (!isCurrentHash(a) || !isCurrentHash(b)) return bits;
+  const levels = Math.abs(parseInt(a.slice(HASH_HEX * 2), 16) - parseInt(b.slice(HASH_HEX * 2), 16));
+  return bits + Math.floor(levels / BRIGHTNESS_STEP);
+};
+
+interface Hashed {
+  id: string;
+  imageHash?: string;
+}
+
+// Hashed items within `maxDistance` of `hash`, closest first
+export const findSimilar = <T extends Hashed>(hash: string, items: T[], maxDistance = SIMILAR_DISTANCE): { item: T; distance: number }[] =>
+  items
+    .filter(i => i.imageHash)
+    .map(item => ({ item, distance: hashDistance(hash, item.imageHash!) }))
+    .filter(m => m.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance);
+
+export const findNearDuplicate = <T extends Hashed>(hash: string, items: T[]): T | null =>
+  findSimilar(hash, items, NEAR_DUPLICATE_DISTANCE)[0]?.item || null;
+
+// --- BACKFILL ---
+
+const attempted = new Set<string>(); // Image URLs the worker answered for, including ones it couldn't decode
+const inFlight = new Set<string>();
+
+// Hashes the images among `urls` not tried before this session, keyed by URL.
+// Inspirations from before hashing existed and every generated asset go
+// through here once; if the worker itself fails, they are tried again on the
+// next call.
+export const hashNewImages = async (urls: string[]): Promise<Record<string, string>> => {
+  const pending = [...new Set(urls)].filter(url => url && !attempted.has(url) && !inFlight.has(url));
+  if (pending.length === 0) return {};
+  pending.forEach(url => inFlight.add(url));
+  console.log(`🔍 [HASH] Hashing ${pending.length} image(s)`);
+  try {
+    const hashes = await hashImages(pending);
+    pending.forEach(url => attempted.add(url));
+    return Object.fromEntries(pending.map((url, i) => [url, hashes[i]]).filter(([, hash]) => hash));
+  } finally {
+    pending.forEach(url => inFlight.delete(url));
+  }
+};
+
+// --- WORKER ---
+
+export interface ImageHashRequest {
+  images: string[]; // Data or blob URLs
+}
+
+export interface ImageHashResponse {
+  hashes: (string | null)[]; // null where the image couldn't be decoded
+}
+
+export const hashImages = (images: string[]): Promise<(string | null)[]> =>
+  new Promise((resolve, reject) => {
+    if (images.length === 0) return resolve([]);
+    const worker = new Worker(new URL('./imageHashWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImageHashResponse>) => {
+      worker.terminate();
+      resolve(event.data.hashes);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Image hash worker failed'));
+    };
+    const request: ImageHashRequest = { images };
+    worker.postMessage(request);
+  });
+
+export const hashImage = async (image: string): Promise<string> => {
+  const [hash] = await hashImages([image]);
+  if (!hash) throw new Error('Could not decode the image to hash it');
+  return hash;
+};
@@ -0,0 +1,30 @@
+import { ImageHashRequest, ImageHashResponse, hashPixels } from "./imageHash";
+
+// Decodes each image off the main thread into a small smoothed copy; the
+// hashes only look at 9x8 cells, so 64x64 pixels is plenty.
+const SIDE = 64;
+
+const hashOne = async (image: string): Promise<string> => {
+  const bitmap = await createImageBitmap(await (await fetch(image)).blob());
+  const canvas = new OffscreenCanvas(SIDE, SIDE);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available in this worker');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, SIDE, SIDE);
+  bitmap.close();
+  return hashPixels(ctx.getImageData(0, 0, SIDE, SIDE).data, SIDE, SIDE);
+};
+
+self.onmessage = async (event: MessageEvent<ImageHashRequest>) => {
+  const hashes: (string | null)[] = [];
+  for (const image of event.data.images) {
+    try {
+      hashes.push(await hashOne(image));
+    } catch (e) {
+      console.warn('⚠️ [HASH] Could not hash an image', e);
+      hashes.push(null);
+    }
+  }
+  const response: ImageHashResponse = { hashes };
+  self.postMessage(response);
+};
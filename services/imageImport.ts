@@ -0,0 +1,69 @@
+import { blobToDataUrl } from "./storageService";
+
+// --- IMAGE PROXY ---
+//
+// Images on other sites can't be read from the browser without CORS headers.
+// Set IMAGE_PROXY_URL in .env.local to a proxy you run locally, with {url}
+// where the encoded image URL goes (e.g. http://localhost:8787/?url={url}),
+// to fetch them through it. Without one, images are fetched directly.
+
+export const proxiedUrl = (url: string): string => {
+  const proxy = process.env.IMAGE_PROXY_URL;
+  if (!proxy) return url;
+  const encoded = encodeURIComponent(url);
+  return proxy.includes('{url}') ? proxy.replace('{url}', encoded) : `${proxy}${encoded}`;
+};
+
+export const fetchImageBlob = async (url: string, signal?: AbortSignal): Promise<Blob> => {
+  let response: Response;
+  try {
+    response = await fetch(proxiedUrl(url), { signal });
+  } catch (e) {
+    // A blocked cross-origin request fails as a bare TypeError
+    if (e instanceof TypeError && !process.env.IMAGE_PROXY_URL) {
+      throw new Error('This site does not allow direct downloads. Set IMAGE_PROXY_URL to an image proxy to import from it.');
+    }
+    throw e;
+  }
+  if (!response.ok) throw new Error(`Could not fetch the image (HTTP ${response.status})`);
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.startsWith('image/')) throw new Error(`Not an image: ${contentType || 'unknown type'}`);
+  return response.blob();
+};
+
+// --- DOWNSCALE ---
+
+// Plenty for style analysis, and keeps uploads and the saved brand small
+export const MAX_IMAGE_SIDE = 1536;
+
+// What the models accept inline; anything else (GIF, SVG, BMP...) is converted to PNG
+const UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const dataUrlMimeType = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+// Decodes the image and re-encodes it at most MAX_IMAGE_SIDE on the long side,
+// keeping JPEG and WebP as they are. Images already small enough and in an
+// accepted format are passed through untouched.
+export const prepareImage = async (blob: Blob, maxSide = MAX_IMAGE_SIDE): Promise<string> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const type = UPLOAD_TYPES.includes(blob.type) ? blob.type : 'image/png';
+
+  if (scale === 1 && type === blob.type) {
+    bitmap.close();
+    return blobToDataUrl(blob);
+  }
+
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const resized = await canvas.convertToBlob({ type, quality: 0.9 });
+  console.log(`🖼️ [IMAGE] Prepared ${blob.type || 'image'} ${Math.round(blob.size / 1024)} KB -> ${type} ${width}x${height} ${Math.round(resized.size / 1024)} KB`);
+  return blobToDataUrl(resized);
+};
@@ -0,0 +1,187 @@
+import { useSyncExternalStore } from 'react';
+import { Inspiration } from '../types';
+import { analyzeInspiration } from './geminiService';
+import { BrandContext } from './generationContext';
+import { fetchImageBlob, prepareImage } from './imageImport';
+import { findNearDuplicate, hashImage } from './imageHash';
+
+// --- INSPIRATION IMPORT QUEUE ---
+//
+// Dropped, pasted and linked images are imported as a batch: each one is
+// loaded (or fetched through the image proxy), downscaled and hashed, then
+// analysed for cues. Near-duplicates of an inspiration the brand already has
+// wait for the user to merge, add or skip them before any analysis is spent.
+// Like the job queue this lives outside the component, so a batch keeps going
+// when the user switches tabs and the inspirations still land.
+
+// Analyses in flight at once; the rest wait their turn
+export const MAX_CONCURRENT_IMPORTS = 3;
+
+export type ImportStatus = 'queued' | 'loading' | 'analyzing' | 'duplicate' | 'done' | 'failed';
+
+export type ImportSource = { kind: 'file'; file: File } | { kind: 'url'; url: string };
+
+export interface ImportItem {
+  id: string;
+  brandId: string;
+  label: string;
+  source: ImportSource;
+  status: ImportStatus;
+  preview?: string;   // The prepared data URL, once loaded
+  imageHash?: string;
+  duplicateOf?: Inspiration;
+  allowDuplicate?: boolean;
+  added?: Inspiration;
+  error?: unknown;
+}
+
+// What every image of one batch shares
+export interface ImportBatch {
+  brandId: string;
+  context: BrandContext;
+  note: string;
+  boardId: string | null;
+  existing: Inspiration[];  // The brand's inspirations when the batch started
+  onAdd: (insp: Inspiration, boardId: string | null) => void;
+  onMerge: (existingId: string, note: string, boardId: string | null) => void;
+}
+
+let items: ImportItem[] = [];
+const batches = new Map<string, ImportBatch>();  // By item id
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(l => l());
+
+const updateItem = (id: string, patch: Partial<ImportItem>) => {
+  items = items.map(i => i.id === id ? { ...i, ...patch } : i);
+  notify();
+};
+
+export const subscribeImports = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getImports = () => items;
+
+export const useImports = () => useSyncExternalStore(subscribeImports, getImports);
+
+const isActive = (item: ImportItem) => item.status === 'loading' || item.status === 'analyzing';
+
+const runImport = async (item: ImportItem) => {
+  const batch = batches.get(item.id)!;
+  try {
+    let { preview, imageHash } = item;
+    if (!preview) {
+      updateItem(item.id, { status: 'loading' });
+      const blob = item.source.kind === 'file' ? item.source.file : await fetchImageBlob(item.source.url);
+      preview = await prepareImage(blob);
+      // Without a hash the image is simply not checked for duplicates
+      imageHash = await hashImage(preview).catch(e => {
+        console.warn(`⚠️ [IMPORT] Could not hash ${item.label}`, e);
+        return undefined;
+      });
+    }
+
+    if (imageHash && !item.allowDuplicate) {
+      const addedSoFar = items.filter(i => i.brandId === item.brandId && i.added).map(i => i.added!);
+      const duplicateOf = findNearDuplicate(imageHash, [...batch.existing, ...addedSoFar]);
+      if (duplicateOf) {
+        console.log(`🔁 [IMPORT] ${item.label} looks like an inspiration the brand already has`);
+        updateItem(item.id, { status: 'duplicate', preview, imageHash, duplicateOf });
+        return;
+      }
+    }
+
+    updateItem(item.id, { status: 'analyzing', preview, imageHash });
+    const cues = await analyzeInspiration(preview, batch.note, batch.context);
+    const added: Inspiration = {
+      id: crypto.randomUUID(),
+      imageUrl: preview,
+      description: batch.note,
+      extractedCues: cues,
+      pinnedCues: [],
+      tags: [],
+      imageHash
+    };
+    batch.onAdd(added, batch.boardId);
+    updateItem(item.id, { status: 'done', added });
+  } catch (e) {
+    console.error(`❌ [IMPORT] ${item.label} failed`, e);
+    updateItem(item.id, { status: 'failed', error: e });
+  } finally {
+    pump();
+  }
+};
+
+// Start queued items until the concurrency limit is reached
+const pump = () => {
+  let running = items.filter(isActive).length;
+  for (const item of items) {
+    if (running >= MAX_CONCURRENT_IMPORTS) break;
+    if (item.status !== 'queued') continue;
+    running++;
+    updateItem(item.id, { status: 'loading' });
+    runImport(item);
+  }
+};
+
+export const importInspirations = (sources: ImportSource[], batch: ImportBatch) => {
+  if (sources.length === 0) return;
+  const added = sources.map((source): ImportItem => ({
+    id: crypto.randomUUID(),
+    brandId: batch.brandId,
+    label: source.kind === 'file' ? source.file.name || 'Pasted image' : source.url,
+    source,
+    status: 'queued'
+  }));
+  added.forEach(item => batches.set(item.id, batch));
+  items = [...items, ...added];
+  console.log(`📥 [IMPORT] Queued ${added.length} inspiration(s)`);
+  notify();
+  pump();
+};
+
+export const retryImport = (id: string) => {
+  if (items.find(i => i.id === id)?.status !== 'failed') return;
+  updateItem(id, { status: 'queued', error: undefined });
+  pump();
+};
+
+// Keep the inspiration the image duplicates, adding this batch's note and board to it
+export const mergeImport = (id: string) => {
+  const item = items.find(i => i.id === id);
+  if (item?.status !== 'duplicate' || !item.duplicateOf) return;
+  const batch = batches.get(id)!;
+  batch.onMerge(item.duplicateOf.id, batch.note, batch.boardId);
+  updateItem(id, { status: 'done' });
+};
+
+export const addDuplicateAnyway = (id: string) => {
+  if (items.find(i => i.id === id)?.status !== 'duplicate') return;
+  updateItem(id, { status: 'queued', allowDuplicate: true });
+  pump();
+};
+
+// Drops a failed image, or skips a duplicate
+export const dismissImport = (id: string) => {
+  const status = items.find(i => i.id === id)?.status;
+  if (status !== 'failed' && status !== 'duplicate') return;
+  items = items.filter(i => i.id !== id);
+  batches.delete(id);
+  notify();
+};
+
+export const clearFinishedImports = (brandId: string) => {
+  items = items.filter(i => i.brandId !== brandId || i.status !== 'done');
+  [...batches.keys()].filter(id => !items.some(i => i.id === id)).forEach(id => batches.delete(id));
+  notify();
+};
+
+// Image files from a drop, a paste or a file input; everything else is ignored
+export const imageFileSources = (files: FileList | File[] | null | undefined): ImportSource[] =>
+  Array.from(files || []).filter(f => f.type.startsWith('image/')).map(file => ({ kind: 'file', file }));
+
+// One http(s) URL per line (or separated by spaces); anything else is ignored
+export const urlSources = (text: string): ImportSource[] =>
+  [...new Set(text.split(/\s+/).filter(s => /^https?:\/\/\S+$/i.test(s)))].map(url => ({ kind: 'url', url }));
@@ -0,0 +1,160 @@
+import { Inspiration, InspirationWeight, MoodBoard } from "../types";
+
+// --- CUES AND TAGS ---
+
+// Pinned cues first, then the rest in extraction order
+export const orderedCues = (insp: Inspiration): string[] =>
+  [...insp.pinnedCues, ...insp.extractedCues.filter(c => !insp.pinnedCues.includes(c))];
+
+// Up to `limit` cues, but never fewer than the pinned ones
+const leadingCues = (insp: Inspiration, limit?: number): string[] =>
+  orderedCues(insp).slice(0, limit === undefined ? undefined : Math.max(limit, insp.pinnedCues.length));
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase();
+
+export const setCue = (insp: Inspiration, index: number, value: string): Inspiration => {
+  const old = insp.extractedCues[index];
+  const cue = value.trim();
+  // Emptied, or renamed to a cue it already has
+  if (!cue || insp.extractedCues.some((c, i) => c === cue && i !== index)) return removeCue(insp, index);
+  return {
+    ...insp,
+    extractedCues: insp.extractedCues.map((c, i) => i === index ? cue : c),
+    pinnedCues: insp.pinnedCues.map(c => c === old ? cue : c)
+  };
+};
+
+export const removeCue = (insp: Inspiration, index: number): Inspiration => {
+  const old = insp.extractedCues[index];
+  return {
+    ...insp,
+    extractedCues: insp.extractedCues.filter((_, i) => i !== index),
+    pinnedCues: insp.pinnedCues.filter(c => c !== old)
+  };
+};
+
+export const togglePinnedCue = (insp: Inspiration, cue: string): Inspiration => ({
+  ...insp,
+  pinnedCues: insp.pinnedCues.includes(cue) ? insp.pinnedCues.filter(c => c !== cue) : [...insp.pinnedCues, cue]
+});
+
+// Every word of the query has to appear in the note, a cue or a tag
+export const searchInspirations = (inspirations: Inspiration[], query: string): Inspiration[] => {
+  const words = query.toLowerCase().split(/\s+/).map(w => w.replace(/^#+/, '')).filter(Boolean);
+  if (words.length === 0) return inspirations;
+  return inspirations.filter(insp => {
+    const haystack = [insp.description, ...insp.extractedCues, ...insp.tags].join(' ').toLowerCase();
+    return words.every(w => haystack.includes(w));
+  });
+};
+
+export const allTags = (inspirations: Inspiration[]): string[] =>
+  [...new Set(inspirations.flatMap(i => i.tags))].sort();
+
+// --- DUPLICATES ---
+
+const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+export const addNote = (insp: Inspiration, note: string): Inspiration => {
+  const extra = note.trim();
+  if (!extra || insp.description.includes(extra)) return insp;
+  return { ...insp, description: insp.description.trim() ? `${insp.description.trim()} / ${extra}` : extra };
+};
+
+// Folds a duplicate into the one kept, so its cues only count once
+export const mergeInspirations = (keep: Inspiration, duplicate: Inspiration): Inspiration => ({
+  ...addNote(keep, duplicate.description),
+  extractedCues: union(keep.extractedCues, duplicate.extractedCues),
+  pinnedCues: union(keep.pinnedCues, duplicate.pinnedCues),
+  tags: union(keep.tags, duplicate.tags),
+  imageHash: keep.imageHash || duplicate.imageHash
+});
+
+// Boards that held the duplicate hold the kept one instead
+export const replaceInBoards = (boards: MoodBoard[], duplicateId: string, keepId: string): MoodBoard[] =>
+  boards.map(b => b.inspirationIds.includes(duplicateId)
+    ? { ...b, inspirationIds: union(b.inspirationIds.map(id => id === duplicateId ? keepId : id), []) }
+    : b);
+
+// --- MOOD BOARDS ---
+
+export const createMoodBoard = (name: string, inspirationIds: string[] = []): MoodBoard => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'Untitled board',
+  inspirationIds,
+  createdAt: Date.now()
+});
+
+// In board order, skipping inspirations that have since been removed
+export const getBoardInspirations = (board: MoodBoard, inspirations: Inspiration[]): Inspiration[] =>
+  board.inspirationIds.map(id => inspirations.find(i => i.id === id)).filter((i): i is Inspiration => !!i);
+
+export const toggleBoardInspiration = (board: MoodBoard, inspirationId: string): MoodBoard => ({
+  ...board,
+  inspirationIds: board.inspirationIds.includes(inspirationId)
+    ? board.inspirationIds.filter(id => id !== inspirationId)
+    : [...board.inspirationIds, inspirationId]
+});
+
+// A Studio run started from a board draws strongly on it and on nothing else
+export const boardWeights = (board: MoodBoard, inspirations: Inspiration[]): Record<string, InspirationWeight> =>
+  Object.fromEntries(inspirations.map(i => [i.id, board.inspirationIds.includes(i.id) ? 'strong' : 'off']));
+
+// The board as one line for the ad prompts
+export const describeMoodBoard = (board: MoodBoard, inspirations: Inspiration[]): string | null => {
+  const cues = [...new Set(getBoardInspirations(board, inspirations).flatMap(i => leadingCues(i, 3)))];
+  return cues.length > 0 ? `"${board.name}": ${cues.join(', ')}` : null;
+};
+
+// --- INSPIRATION WEIGHTS ---
+//
+// Each Studio run picks which inspirations it draws from and how strongly.
+// Strong ones lead the style, subtle ones only add touches, and off ones are
+// left out of the prompts altogether.
+
+// Inspirations without a choice yet, e.g. ones added after the last run
+export const DEFAULT_INSPIRATION_WEIGHT: InspirationWeight = 'subtle';
+
+export const INSPIRATION_WEIGHTS: { weight: InspirationWeight; label: string; description: string }[] = [
+  { weight: 'strong', label: 'Strong', description: 'Leads the style of every draft' },
+  { weight: 'subtle', label: 'Subtle', description: 'Light touches only' },
+  { weight: 'off', label: 'Off', description: 'Not used in this run' }
+];
+
+export interface WeightedInspirations {
+  strong: Inspiration[];
+  subtle: Inspiration[];
+}
+
+export const getInspirationWeight = (weights: Record<string, InspirationWeight>, id: string): InspirationWeight =>
+  weights[id] || DEFAULT_INSPIRATION_WEIGHT;
+
+export const weighInspirations = (inspirations: Inspiration[], weights: Record<string, InspirationWeight>): WeightedInspirations => ({
+  strong: inspirations.filter(i => getInspirationWeight(weights, i.id) === 'strong'),
+  subtle: inspirations.filter(i => getInspirationWeight(weights, i.id) === 'subtle')
+});
+
+// What a run used, for its provenance: the ids and weights of everything not switched off
+export const usedInspirations = (weighted: WeightedInspirations) => {
+  const used = [...weighted.strong, ...weighted.subtle];
+  return {
+    inspirationIds: used.map(i => i.id),
+    inspirationWeights: Object.fromEntries(used.map(i => [i.id, weighted.strong.includes(i) ? 'strong' : 'subtle'])) as Record<string, InspirationWeight>
+  };
+};
+
+const cuesOf = (inspirations: Inspiration[], perInspiration?: number) =>
+  [...new Set(inspirations.flatMap(i => leadingCues(i, perInspiration)))];
+
+// The cue block of the shared asset prompt
+export const describeInspirationCues = ({ strong, subtle }: WeightedInspirations): string => {
+  const lines = [
+    strong.length > 0 && `- Strong (lead the style): ${cuesOf(strong).join(', ')}`,
+    subtle.length > 0 && `- Subtle (light touches only): ${cuesOf(subtle).join(', ')}`
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : '- None for this run; follow the brand DNA.';
+};
+
+// Cues for the Artistic draft: the strong inspirations, or the subtle ones when none is strong
+export const leadingInspirationCues = ({ strong, subtle }: WeightedInspirations): string[] =>
+  cuesOf(strong.length > 0 ? strong : subtle, 3);
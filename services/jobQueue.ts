@@ -0,0 +1,103 @@
+import { useSyncExternalStore } from 'react';
+import { errorSummary, isAbortError } from './errors';
+
+// --- BACKGROUND JOB QUEUE ---
+//
+// Generations run here instead of inside the component that started them, so
+// they keep going (and their results still land) when the user switches tabs
+// or brands. Components find their own running job by brandId + targetId.
+
+export type JobKind = 'draft' | 'edit' | 'finalize' | 'preview' | 'visualization' | 'regenerate' | 'ad-video';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  brandId: string;
+  targetId?: string;  // What the result belongs to: a draft, an asset...
+  status: JobStatus;
+  progress?: string;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface JobSpec {
+  kind: JobKind;
+  label: string;
+  brandId: string;
+  targetId?: string;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setProgress: (message: string) => void;
+}
+
+let jobs: Job[] = [];
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<() => void>();
+
+const updateJob = (id: string, patch: Partial<Job>) => {
+  jobs = jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+  listeners.forEach(l => l());
+};
+
+export const subscribeJobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getJobs = () => jobs;
+
+export const useJobs = () => useSyncExternalStore(subscribeJobs, getJobs);
+
+// Run a task as a tracked job; resolves/rejects exactly like the task itself
+export const runJob = async <T>(spec: JobSpec, task: (ctx: JobContext) => Promise<T>): Promise<T> => {
+  const id = crypto.randomUUID();
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  jobs = [{ ...spec, id, status: 'running', startedAt: Date.now() }, ...jobs];
+  listeners.forEach(l => l());
+  console.log(`📋 [JOBS] Started ${spec.kind}: ${spec.label}`);
+
+  // Calls that can't be interrupted still stop the job: their result is discarded
+  const aborted = new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () =>
+    reject(new DOMException(`${spec.label} cancelled`, 'AbortError')), { once: true }));
+
+  try {
+    const result = await Promise.race([
+      task({ signal: controller.signal, setProgress: (progress) => updateJob(id, { progress }) }),
+      aborted
+    ]);
+    updateJob(id, { status: 'succeeded', finishedAt: Date.now() });
+    return result;
+  } catch (e) {
+    if (isAbortError(e)) {
+      updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    } else {
+      console.error(`❌ [JOBS] ${spec.label} failed`, e);
+      updateJob(id, { status: 'failed', error: errorSummary(e), finishedAt: Date.now() });
+    }
+    throw e;
+  } finally {
+    controllers.delete(id);
+  }
+};
+
+export const cancelJob = (id: string) => controllers.get(id)?.abort();
+
+export const dismissJob = (id: string) => {
+  jobs = jobs.filter(j => j.id !== id || j.status === 'running');
+  listeners.forEach(l => l());
+};
+
+export const clearFinishedJobs = () => {
+  jobs = jobs.filter(j => j.status === 'running');
+  listeners.forEach(l => l());
+};
+
+export const findRunningJob = (list: Job[], brandId: string, kind: JobKind, targetId?: string) =>
+  list.find(j => j.status === 'running' && j.brandId === brandId && j.kind === kind && (targetId === undefined || j.targetId === targetId));
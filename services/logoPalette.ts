@@ -0,0 +1,144 @@
+import { RGB, colorDistance, hexToRgb, rgbToHex } from "./color";
+
+// --- LOGO PALETTE ---
+//
+// Dominant colors of the logo, computed locally with median cut so the same
+// logo always gives the same swatches. Decoding and quantizing run in
+// logoPaletteWorker so large logos don't block the UI.
+
+export interface PaletteSwatch {
+  hex: string;
+  share: number;          // Fraction of opaque logo pixels, 0-1
+  isBackground: boolean;  // Covers most of the image border
+}
+
+const MIN_SHARE = 0.02;        // Anti-aliasing fringes and specks
+const MERGE_DISTANCE = 8;      // Swatches closer than this are one color
+const BACKGROUND_BORDER = 0.5; // Share of border pixels that makes a swatch the background
+
+const average = (box: RGB[]): RGB => {
+  const sum = box.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length];
+};
+
+// Repeatedly split the box with the largest (channel range x pixel count)
+// at the median of that channel
+const medianCut = (pixels: RGB[], count: number): RGB[][] => {
+  const boxes = [pixels];
+  while (boxes.length < count) {
+    let best = -1, bestScore = 0, bestChannel = 0;
+    boxes.forEach((box, i) => {
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const p of box) {
+          if (p[c] < min) min = p[c];
+          if (p[c] > max) max = p[c];
+        }
+        const score = (max - min) * box.length;
+        if (score > bestScore) { best = i; bestScore = score; bestChannel = c; }
+      }
+    });
+    if (best < 0) break; // Every box is a single color
+    const sorted = [...boxes[best]].sort((a, b) => a[bestChannel] - b[bestChannel]);
+    const mid = sorted.length >> 1;
+    boxes.splice(best, 1, sorted.slice(0, mid), sorted.slice(mid));
+  }
+  return boxes;
+};
+
+// RGBA pixels (as from ImageData) to swatches sorted by share. `width` and
+// `height` locate the border pixels used to spot the background.
+export const quantizePixels = (data: Uint8ClampedArray, width: number, height: number, colorCount = 6): PaletteSwatch[] => {
+  const pixels: RGB[] = [];
+  const border: RGB[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] < 128) continue; // Transparent
+      const pixel: RGB = [data[i], data[i + 1], data[i + 2]];
+      pixels.push(pixel);
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) border.push(pixel);
+    }
+  }
+  if (pixels.length === 0) return [];
+
+  // Median cut, then merge near-identical results weighted by size
+  const merged: { color: RGB; count: number }[] = [];
+  for (const box of medianCut(pixels, colorCount * 2)) {
+    const color = average(box);
+    const twin = merged.find(m => colorDistance(m.color, color) < MERGE_DISTANCE);
+    if (!twin) {
+      merged.push({ color, count: box.length });
+      continue;
+    }
+    const total = twin.count + box.length;
+    twin.color = twin.color.map((c, i) => (c * twin.count + color[i] * box.length) / total) as RGB;
+    twin.count = total;
+  }
+
+  const nearest = (pixel: RGB) => merged.reduce((best, m) => colorDistance(m.color, pixel) < colorDistance(best.color, pixel) ? m : best);
+  const borderHits = new Map<RGB, number>();
+  for (const pixel of border) {
+    const m = nearest(pixel).color;
+    borderHits.set(m, (borderHits.get(m) || 0) + 1);
+  }
+
+  return merged
+    .map(m => ({
+      hex: rgbToHex(m.color),
+      share: m.count / pixels.length,
+      isBackground: border.length > 0 && (borderHits.get(m.color) || 0) / border.length >= BACKGROUND_BORDER
+    }))
+    .filter(s => s.share >= MIN_SHARE)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, colorCount);
+};
+
+// --- PALETTE CHECK ---
+
+const MISSING_DISTANCE = 20;  // Further than this from every palette color
+const PROMINENT_SHARE = 0.1;  // Logo colors this common should be in the palette
+
+export interface PaletteConflict {
+  swatch: PaletteSwatch;
+  nearest: string | null; // Closest palette color
+}
+
+// Prominent logo colors (background aside) that nothing in `palette` comes close to
+export const findPaletteConflicts = (palette: string[], swatches: PaletteSwatch[]): PaletteConflict[] =>
+  swatches
+    .filter(s => !s.isBackground && s.share >= PROMINENT_SHARE)
+    .map(swatch => {
+      const rgb = hexToRgb(swatch.hex);
+      const ranked = palette
+        .map(hex => ({ hex, distance: colorDistance(rgb, hexToRgb(hex)) }))
+        .sort((a, b) => a.distance - b.distance);
+      return { swatch, nearest: ranked[0]?.hex || null, distance: ranked[0]?.distance ?? Infinity };
+    })
+    .filter(c => c.distance > MISSING_DISTANCE)
+    .map(({ swatch, nearest }) => ({ swatch, nearest }));
+
+// --- WORKER ---
+
+export interface LogoPaletteRequest {
+  image: string; // Data URL
+  colorCount: number;
+}
+
+export type LogoPaletteResponse = { swatches: PaletteSwatch[] } | { error: string };
+
+export const extractLogoPalette = (image: string, colorCount = 6): Promise<PaletteSwatch[]> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./logoPaletteWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<LogoPaletteResponse>) => {
+      worker.terminate();
+      if ('error' in event.data) reject(new Error(event.data.error));
+      else resolve(event.data.swatches);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Palette worker failed'));
+    };
+    const request: LogoPaletteRequest = { image, colorCount };
+    worker.postMessage(request);
+  });
@@ -0,0 +1,25 @@
+import { LogoPaletteRequest, LogoPaletteResponse, quantizePixels } from "./logoPalette";
+
+// Decodes the logo off the main thread and quantizes a downscaled copy;
+// about 100x100 pixels is plenty to rank a logo's colors.
+const MAX_SIDE = 100;
+
+self.onmessage = async (event: MessageEvent<LogoPaletteRequest>) => {
+  const { image, colorCount } = event.data;
+  let response: LogoPaletteResponse;
+  try {
+    const bitmap = await createImageBitmap(await (await fetch(image)).blob());
+    const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas is not available in this worker');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    response = { swatches: quantizePixels(ctx.getImageData(0, 0, width, height).data, width, height, colorCount) };
+  } catch (e) {
+    response = { error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,58 @@
+import { ModelOverrides, ModelRegistry, ModelRole, ModelRoleConfig } from "../types";
+import { GenerationAction } from "./providers";
+
+// --- MODEL REGISTRY ---
+//
+// The one place that knows which model serves which role, with the per-role
+// defaults (image size, aspect ratio, resolution). A workspace can override
+// any of it in Settings; moving to a new model means changing DEFAULT_MODELS.
+
+export const DEFAULT_MODELS: ModelRegistry = {
+  reasoning: { model: 'gemini-2.0-flash-exp' },
+  draftImage: { model: 'gemini-3-pro-image-preview', imageSize: '512', aspectRatio: '1:1' }, // Low resolution for fast drafts and edits
+  finalImage: { model: 'gemini-3-pro-image-preview', imageSize: '2K' },
+  video: { model: 'veo-3.1-generate-preview', resolution: '720p', aspectRatio: '16:9' }
+};
+
+export type ModelDefaultField = Exclude<keyof ModelRoleConfig, 'model'>;
+
+export interface ModelRoleInfo {
+  role: ModelRole;
+  label: string;
+  description: string;
+  fields: ModelDefaultField[];   // Defaults that can be overridden for this role
+  actions: GenerationAction[];   // Calls made with this role's model
+}
+
+export const MODEL_ROLES: ModelRoleInfo[] = [
+  {
+    role: 'reasoning', label: 'Reasoning', description: 'Brand DNA, inspiration cues, spell-check and ad planning', fields: [],
+    actions: ['search-grounding', 'brand-dna', 'dna-field', 'inspiration-cues', 'annotation-analysis', 'spell-check', 'ad-brainstorm', 'ad-voiceover', 'ad-keyframe-plan']
+  },
+  { role: 'draftImage', label: 'Draft images', description: 'The four Studio drafts and their edits', fields: ['imageSize', 'aspectRatio'], actions: ['draft', 'edit'] },
+  { role: 'finalImage', label: 'Final images', description: 'Finalized assets and ad keyframes', fields: ['imageSize'], actions: ['finalize', 'ad-keyframe'] },
+  { role: 'video', label: 'Video', description: 'Real-world previews, visualizations and ad videos', fields: ['resolution', 'aspectRatio'], actions: ['preview-video', 'visualization-video', 'ad-video'] }
+];
+
+// Display names for model ids offered in Settings; any other id can be typed in
+export const KNOWN_MODELS: Record<string, string> = {
+  'gemini-2.0-flash-exp': 'Gemini 2.0 Flash',
+  'gemini-2.5-flash': 'Gemini 2.5 Flash',
+  'gemini-2.5-pro': 'Gemini 2.5 Pro',
+  'gemini-2.5-flash-image': 'Gemini 2.5 Flash Image',
+  'gemini-3-pro-image-preview': 'Gemini 3 Pro Image',
+  'veo-3.1-generate-preview': 'Veo 3.1',
+  'veo-3.1-fast-generate-preview': 'Veo 3.1 Fast'
+};
+
+export const getModelLabel = (model: string) => KNOWN_MODELS[model] || model;
+
+// Defaults with a workspace's overrides applied; blank override fields are ignored
+export const resolveModels = (overrides: ModelOverrides = {}): ModelRegistry => {
+  const registry = { ...DEFAULT_MODELS };
+  for (const role of Object.keys(registry) as ModelRole[]) {
+    const set = Object.entries(overrides[role] || {}).filter(([, value]) => typeof value === 'string' && value.trim() !== '');
+    registry[role] = { ...DEFAULT_MODELS[role], ...Object.fromEntries(set.map(([key, value]) => [key, value!.trim()])) };
+  }
+  return registry;
+};
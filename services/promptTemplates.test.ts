@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { PROMPT_TEMPLATES, getTemplateBody, saveTemplateVersion } from './promptTemplates';
+
+describe('getTemplateBody', () => {
+  it('resolves every default version a ref can point at', () => {
+    for (const template of PROMPT_TEMPLATES) {
+      for (let version = 1; version <= template.version; version++) {
+        expect(getTemplateBody({ id: template.id, source: 'default', version }), `${template.id}@v${version}`).toEqual(expect.any(String));
+      }
+      expect(getTemplateBody({ id: template.id, source: 'default', version: template.version })).toBe(template.body);
+    }
+  });
+
+  it('keeps earlier defaults distinct from the current one', () => {
+    const v1 = getTemplateBody({ id: 'asset.marketing', source: 'default', version: 1 });
+    expect(v1).not.toContain('{{itemDetails}}');
+    expect(getTemplateBody({ id: 'asset.marketing', source: 'default', version: 2 })).toContain('{{itemDetails}}');
+  });
+
+  it('resolves brand versions from the overrides', () => {
+    const overrides = saveTemplateVersion(saveTemplateVersion({}, 'asset.generic', 'first'), 'asset.generic', 'second');
+    expect(getTemplateBody({ id: 'asset.generic', source: 'brand', version: 1 }, overrides)).toBe('first');
+    expect(getTemplateBody({ id: 'asset.generic', source: 'brand', version: 3 }, overrides)).toBeNull();
+    expect(getTemplateBody({ id: 'asset.generic', source: 'default', version: 99 })).toBeNull();
+  });
+});
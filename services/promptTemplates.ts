@@ -0,0 +1,566 @@
+import { PromptTemplateOverride, TemplateRef } from "../types";
+import { GenerationContext } from "./generationContext";
+
+// --- PROMPT TEMPLATES ---
+//
+// The long prompts live here as named, versioned templates with {{variable}}
+// placeholders, filled in by geminiService. A brand can override any template
+// on the Prompts page. Each saved edit becomes a new version and older ones
+// are kept, so the TemplateRefs recorded on drafts and assets always point at
+// the exact text that was sent. Bump `version` when changing a default body
+// and keep the old one in EARLIER_DEFAULTS.
+
+export type PromptTemplateGroup = 'Assets' | 'Draft variations' | 'Ads' | 'Video previews';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  group: PromptTemplateGroup;
+  label: string;
+  description: string;
+  variables: string[];
+  body: string;
+}
+
+export const PROMPT_TEMPLATE_GROUPS: PromptTemplateGroup[] = ['Assets', 'Draft variations', 'Ads', 'Video previews'];
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  // Assets: buildPrompt picks one body by asset type and wraps it in asset.wrapper
+  {
+    id: 'asset.merchandise',
+    version: 1,
+    group: 'Assets',
+    label: 'Merchandise',
+    description: 'Product shot of a garment or item. garmentDetails is the exact item description from the asset catalog.',
+    variables: ['subtype', 'garmentDetails', 'primaryColor', 'accentColor', 'logoInstruction', 'visualEssence'],
+    body: `CRITICAL INSTRUCTION: You MUST generate exactly a "{{subtype}}" and nothing else. Pay careful attention to the garment type.
+
+{{garmentDetails}}
+
+PRODUCT DETAILS:
+- Item: {{subtype}} (follow the exact specifications above)
+- Base fabric/material color: {{primaryColor}}
+- Features a bold, eye-catching graphic design printed on the front
+- Material: High-quality, premium fabric/material with visible texture
+- Photography style: Professional product photography, studio setting
+- Background: Clean, neutral (white or light gray)
+- Lighting: Soft, even studio lighting with subtle shadows
+- Resolution: 4K quality with highly detailed fabric/material texture
+
+DESIGN ELEMENTS:
+{{logoInstruction}}
+- Design vibe: {{visualEssence}}
+- Accent color in design: {{accentColor}}
+- Design should be centered and prominent
+
+CRITICAL: This must be a {{subtype}}, not any other garment type. Verify the garment matches "{{subtype}}" exactly.`
+  },
+  {
+    id: 'asset.marketing',
+    version: 2,
+    group: 'Assets',
+    label: 'Print / marketing',
+    description: 'Posters, flyers, billboards and business cards. itemDetails is the item description from the asset catalog.',
+    variables: ['subtype', 'itemDetails', 'name', 'logoInstruction', 'colors', 'typography', 'visualEssence'],
+    body: `A professional {{subtype}} design for the brand "{{name}}".
+Item: {{itemDetails}}
+Layout: Modern, clean, and high-impact.
+{{logoInstruction}}
+Visuals: Incorporate the brand colors ({{colors}}) and typography ({{typography}}).
+Content: It should convey the vibe: {{visualEssence}}.`
+  },
+  {
+    id: 'asset.digital',
+    version: 2,
+    group: 'Assets',
+    label: 'Digital',
+    description: 'Social posts, banners and app icons. itemDetails is the item description from the asset catalog.',
+    variables: ['subtype', 'itemDetails', 'name', 'logoInstruction', 'colors', 'visualEssence'],
+    body: `A digital asset: {{subtype}} for the brand "{{name}}".
+Item: {{itemDetails}}
+Style: Optimized for screens, UI/UX friendly, digital art style.
+{{logoInstruction}}
+Colors: {{colors}}.
+Vibe: {{visualEssence}}.`
+  },
+  {
+    id: 'asset.generic',
+    version: 2,
+    group: 'Assets',
+    label: 'Other asset types',
+    description: 'Fallback for asset types without their own template. itemDetails is the item description from the asset catalog.',
+    variables: ['subtype', 'itemDetails', 'name'],
+    body: `A creative brand asset ({{subtype}}) for "{{name}}".
+Item: {{itemDetails}}`
+  },
+  {
+    id: 'asset.wrapper',
+    version: 3,
+    group: 'Assets',
+    label: 'Shared requirements',
+    description: 'Wraps the asset type prompt with the variation instruction, keywords, text color roles and inspiration cues. inspirationCues lists the strong and subtle cues chosen for the run, one line each.',
+    variables: ['basePrompt', 'instruction', 'keywords', 'colorRoles', 'inspirationCues'],
+    body: `{{basePrompt}}
+Instruction: {{instruction}}
+
+BRAND DNA CONTEXT:
+- Keywords: {{keywords}}
+- Legibility: {{colorRoles}}
+
+INSPIRATION CUES (Apply strong cues to the graphic design/layout; use subtle ones sparingly):
+{{inspirationCues}}
+
+REQUIREMENTS:
+- Realism: Photorealistic (unless specified otherwise).
+- Quality: Production ready, sharp focus.
+- Consistency: Adhere strictly to the color palette.`
+  },
+
+  // Draft variations: one per draft, passed to asset.wrapper as {{instruction}}
+  {
+    id: 'draft.minimal',
+    version: 1,
+    group: 'Draft variations',
+    label: 'Minimal',
+    description: 'First draft.',
+    variables: [],
+    body: `Create a minimal, clean design with simple elements. Focus on typography and negative space. Keep it understated and elegant.`
+  },
+  {
+    id: 'draft.bold',
+    version: 1,
+    group: 'Draft variations',
+    label: 'Bold',
+    description: 'Second draft. keywords holds the first two brand keywords.',
+    variables: ['keywords'],
+    body: `Use the primary keywords: {{keywords}}. Make it bold and striking with strong visual elements.`
+  },
+  {
+    id: 'draft.artistic',
+    version: 1,
+    group: 'Draft variations',
+    label: 'Artistic',
+    description: 'Third draft, when the run uses inspirations. inspirationCues holds up to three cues of each strong inspiration, or of each subtle one when none is strong.',
+    variables: ['inspirationCues'],
+    body: `Apply these visual styles heavily: {{inspirationCues}}. Be creative and experimental.`
+  },
+  {
+    id: 'draft.artistic-fallback',
+    version: 1,
+    group: 'Draft variations',
+    label: 'Artistic (no inspirations)',
+    description: 'Third draft, when the run uses no inspirations.',
+    variables: ['visualEssence'],
+    body: `Creative interpretation of {{visualEssence}}. Add artistic flair and unique styling.`
+  },
+  {
+    id: 'draft.vibrant',
+    version: 2,
+    group: 'Draft variations',
+    label: 'Vibrant',
+    description: 'Fourth draft. colors lists the palette by role.',
+    variables: ['colors', 'primaryColor', 'accentColor'],
+    body: `Emphasize the brand colors ({{colors}}), led by the primary {{primaryColor}} with {{accentColor}} as the accent. Create a vibrant, energetic design with maximum visual impact.`
+  },
+
+  // Ads
+  {
+    id: 'ads.brainstorm',
+    version: 2,
+    group: 'Ads',
+    label: 'Brainstorm system context',
+    description: 'Sent ahead of the conversation in the Ads chat. moodBoard names the chosen mood board and its cues.',
+    variables: ['name', 'visualEssence', 'colors', 'typography', 'keywords', 'designSystem', 'moodBoard'],
+    body: `You are a creative advertising strategist for {{name}}.
+Brand DNA:
+- Visual Essence: {{visualEssence}}
+- Colors: {{colors}}
+- Typography: {{typography}}
+- Keywords: {{keywords}}
+- Design System: {{designSystem}}
+- Mood Board: {{moodBoard}}
+
+CRITICAL CONSTRAINT: All video ads will be exactly 8 SECONDS or less (Veo 3 limitation).
+
+Your role is to:
+1. Brainstorm PUNCHY, FAST-PACED video ad concepts that work in 8 seconds
+2. Focus on QUICK-CUT style: rapid transitions, single powerful message
+3. Suggest concepts with 2-3 distinct visual moments maximum
+4. Keep messaging TIGHTLY COMPOSED - one core idea, executed fast
+5. Think: TikTok/Instagram Reels energy - grab attention immediately
+6. When the user seems satisfied with a concept, encourage them to finalize it
+
+Examples of 8-second ad concepts:
+- Product reveal with dramatic transition (3-4 keyframes)
+- Before/After transformation (2 keyframes)
+- Quick product feature showcase (2-3 features, 2-3 seconds each)
+- Bold statement + product shot + logo (3 keyframes)
+
+Keep responses conversational, creative, and focused on SHORT-FORM video possibilities.`
+  },
+
+  // Video previews: scene direction JSON for generateRealWorldPreview, picked by the item's previewScene
+  {
+    id: 'preview.apparel',
+    version: 1,
+    group: 'Video previews',
+    label: 'Apparel',
+    description: 'Hoodies and shirts, worn in an office. subjectType and subjectAppearance follow the custom model image when one is present.',
+    variables: ['subtype', 'subjectType', 'subjectAppearance'],
+    body: `{
+  "scene_description": "Professional corporate office environment during daytime",
+  "subject": {
+    "type": "{{subjectType}}",
+    "appearance": "{{subjectAppearance}}",
+    "wardrobe": "Wearing the EXACT {{subtype}} design from reference image - match all colors, graphics, text, logo placement precisely",
+    "action": "Walking confidently through modern glass-walled office corridor with natural stride"
+  },
+  "camera": {
+    "movement": "Smooth tracking shot following subject from side angle, steady cam",
+    "framing": "Medium shot keeping the {{subtype}} design clearly visible and centered",
+    "transitions": "Cut to front view showing chest/design area in detail, then back to tracking"
+  },
+  "environment": {
+    "setting": "Contemporary open-plan office with clean white walls, glass partitions, green plants",
+    "lighting": "Natural window light from left side, soft ambient office lighting",
+    "background_activity": "Blurred office workers at desks, creating authentic workplace atmosphere"
+  },
+  "technical_specs": {
+    "duration": "6-8 seconds",
+    "color_grading": "Clean, professional, slight warmth",
+    "focus": "Rack focus from background to {{subtype}} design on subject"
+  },
+  "critical_requirement": "The {{subtype}} design MUST be 100% identical to reference image - exact colors, exact graphics, exact text, exact logo placement. No modifications allowed."
+}`
+  },
+  {
+    id: 'preview.billboard',
+    version: 1,
+    group: 'Video previews',
+    label: 'Billboard',
+    description: 'Driving past the billboard on a highway.',
+    variables: ['subtype'],
+    body: `{
+  "scene_description": "POV from inside a moving car on a multi-lane highway during golden hour",
+  "billboard": {
+    "size": "Large roadside billboard (48ft x 14ft standard)",
+    "content": "Displays EXACT design from reference image with 100% fidelity - same layout, colors, text, graphics, logo position",
+    "position": "Right side of highway, 50 meters ahead initially",
+    "mounting": "Professional steel frame structure on elevated platform"
+  },
+  "camera": {
+    "perspective": "Dashboard camera POV, slight right angle to capture billboard",
+    "movement": "Smooth forward motion at highway speed (~65 mph), approaching then passing billboard",
+    "framing": "Billboard starts small in frame, grows to fill 60% of frame at closest point, then passes"
+  },
+  "environment": {
+    "road": "4-lane highway with light traffic, clear asphalt",
+    "time": "Late afternoon, golden hour lighting (4-5 PM)",
+    "weather": "Clear sky with few clouds, excellent visibility",
+    "surroundings": "Green grass embankment, distant trees, other highway signs visible"
+  },
+  "motion_details": {
+    "car_speed": "Constant 65 mph",
+    "passing_duration": "Billboard visible for 5-6 seconds total",
+    "closest_approach": "2-3 seconds in, billboard fills maximum frame",
+    "motion_blur": "Slight on foreground (dashboard edge), billboard crisp when centered"
+  },
+  "technical_specs": {
+    "duration": "6-8 seconds",
+    "color_grading": "Warm golden hour tones, enhanced billboard visibility",
+    "sound_suggestion": "Highway ambient, wind, engine hum"
+  },
+  "critical_requirement": "Billboard design MUST match reference image with absolute precision - every pixel, every color value, every text character, every graphic element identical. Zero deviation permitted."
+}`
+  },
+  {
+    id: 'preview.poster',
+    version: 1,
+    group: 'Video previews',
+    label: 'Poster / banner',
+    description: 'Hands mounting the print on a notice board.',
+    variables: ['subtype'],
+    body: `{
+  "scene_description": "Modern office interior with cork or fabric notice board on white wall",
+  "subject": {
+    "type": "Professional hands (manicured, neutral tone)",
+    "action": "Carefully positioning and smoothing {{subtype}} onto notice board, starting top-right, smoothing downward"
+  },
+  "poster_details": {
+    "design": "EXACT design from reference image - match perfectly: colors, layout, text, graphics, logo",
+    "material": "High-quality printed {{subtype}}, slight paper texture visible",
+    "size": "Standard poster/banner dimensions"
+  },
+  "camera": {
+    "angle": "Close-up, slightly elevated angle (15 degrees)",
+    "movement": "Static initially, slow push-in to show design details mid-shot",
+    "framing": "Hands and {{subtype}} fill 80% of frame, maintaining focus on design"
+  },
+  "environment": {
+    "wall": "Clean white wall or light gray cork board",
+    "lighting": "Soft overhead office lighting, no harsh shadows on poster",
+    "background": "Slightly out of focus office environment, other notices visible blurred"
+  },
+  "action_sequence": [
+    "Hands bring {{subtype}} into frame from bottom",
+    "Position upper corners against board",
+    "Smooth hands moving down poster, removing air bubbles",
+    "Final pat to secure, hands move away revealing complete design"
+  ],
+  "technical_specs": {
+    "duration": "6-8 seconds",
+    "color_grading": "Neutral, true-to-life colors emphasizing {{subtype}} design",
+    "focus": "Shallow depth of field, {{subtype}} design sharp, background soft"
+  },
+  "critical_requirement": "{{subtype}} design must be IDENTICAL to reference image - perfect color match, perfect layout match, all text and graphics exactly as shown."
+}`
+  },
+  {
+    id: 'preview.headwear',
+    version: 1,
+    group: 'Video previews',
+    label: 'Headwear',
+    description: 'Caps and hats, orbiting a person walking outside.',
+    variables: ['subtype'],
+    body: `{
+  "scene_description": "Urban street environment, trendy neighborhood during daytime",
+  "subject": {
+    "type": "Stylish individual, 20-30 years old, contemporary streetwear",
+    "headwear": "Wearing the EXACT {{subtype}} design from reference image - match colors, graphics, logo precisely",
+    "action": "Walking casually down sidewalk with confident stride"
+  },
+  "camera": {
+    "movement": "Orbiting 270-degree arc around subject while they walk",
+    "path": "Start front-left, circle to back, end front-right",
+    "framing": "Upper body and head shots, keeping {{subtype}} design visible throughout",
+    "speed": "Smooth gimbal movement, 6-second complete orbit"
+  },
+  "environment": {
+    "location": "Clean urban sidewalk with brick buildings, cafe storefronts",
+    "lighting": "Natural daylight, slight overcast for even lighting on {{subtype}}",
+    "background": "Pedestrians walking (blurred), parked bicycles, street signs"
+  },
+  "angle_sequence": [
+    "0s-2s: Front-left view, {{subtype}} brim and front design visible",
+    "2s-4s: Side and back view showing profile and back of {{subtype}}",
+    "4s-6s: Front-right view, final clear view of {{subtype}} design"
+  ],
+  "technical_specs": {
+    "duration": "6-8 seconds",
+    "color_grading": "Urban chic, slightly desaturated background, {{subtype}} colors accurate",
+    "stabilization": "Smooth gimbal, no camera shake"
+  },
+  "critical_requirement": "{{subtype}} design MUST be 100% faithful to reference image - exact colors, exact graphics, exact logo, exact text."
+}`
+  },
+  {
+    id: 'preview.bag',
+    version: 1,
+    group: 'Video previews',
+    label: 'Bag',
+    description: 'Totes and bags, carried through a shopping street.',
+    variables: ['subtype'],
+    body: `{
+  "scene_description": "Trendy coffee shop district, outdoor pedestrian area",
+  "subject": {
+    "type": "Fashionable person, casual-chic outfit",
+    "carrying": "The EXACT {{subtype}} design from reference image - match all colors, graphics, text, logo perfectly",
+    "action": "Walking naturally through shopping street, bag swinging gently with stride"
+  },
+  "camera": {
+    "primary_angle": "Side tracking shot at waist level",
+    "movement": "Parallel tracking with subject, maintaining consistent distance",
+    "framing": "{{subtype}} visible throughout, occupying 30-40% of frame"
+  },
+  "environment": {
+    "setting": "Upscale shopping district with cafe umbrellas, boutique windows",
+    "time": "Mid-morning, soft natural light",
+    "atmosphere": "Few other pedestrians, green plants, street furniture"
+  },
+  "bag_movement": {
+    "physics": "Natural swing with walking gait, 2-second pendulum motion",
+    "visibility": "Design faces camera 60% of time as bag swings",
+    "handling": "Carried on shoulder or in hand, design prominently displayed"
+  },
+  "technical_specs": {
+    "duration": "6-8 seconds",
+    "color_grading": "Lifestyle aesthetic, warm tones, {{subtype}} colors accurate",
+    "motion": "Natural walking pace, bag sway matches stride rhythm"
+  },
+  "critical_requirement": "{{subtype}} design must be EXACTLY as shown in reference image - perfect color fidelity, perfect graphic reproduction, all details identical."
+}`
+  },
+  {
+    id: 'preview.generic',
+    version: 1,
+    group: 'Video previews',
+    label: 'Other items',
+    description: 'Studio showcase for any other subtype.',
+    variables: ['subtype', 'visualEssence'],
+    body: `{
+  "scene_description": "Professional showcase environment for {{subtype}}",
+  "subject": "The EXACT {{subtype}} design from reference image",
+  "camera": {
+    "movement": "Cinematic reveal with slow push-in and orbit",
+    "framing": "Hero product shot, {{subtype}} centered and prominent"
+  },
+  "lighting": "Studio-quality three-point lighting, emphasizing design details",
+  "technical_specs": {
+    "duration": "6-8 seconds",
+    "aesthetic": "{{visualEssence}}",
+    "color_accuracy": "Reference image match required"
+  },
+  "critical_requirement": "{{subtype}} MUST match reference image with 100% precision - all colors, text, graphics, layout exactly as provided."
+}`
+  }
+];
+
+// Default bodies replaced by a version bump, so refs to them still resolve
+const EARLIER_DEFAULTS: Record<string, Record<number, string>> = {
+  'asset.marketing': {
+    1: `A professional {{subtype}} design for the brand "{{name}}".
+Layout: Modern, clean, and high-impact.
+{{logoInstruction}}
+Visuals: Incorporate the brand colors ({{colors}}) and typography ({{typography}}).
+Content: It should convey the vibe: {{visualEssence}}.`
+  },
+  'asset.digital': {
+    1: `A digital asset: {{subtype}} for the brand "{{name}}".
+Style: Optimized for screens, UI/UX friendly, digital art style.
+{{logoInstruction}}
+Colors: {{colors}}.
+Vibe: {{visualEssence}}.`
+  },
+  'asset.generic': {
+    1: `A creative brand asset ({{subtype}}) for "{{name}}".`
+  },
+  'asset.wrapper': {
+    1: `{{basePrompt}}
+Instruction: {{instruction}}
+
+BRAND DNA CONTEXT:
+- Keywords: {{keywords}}
+
+INSPIRATION CUES (Apply these artistic styles to the graphic design/layout):
+{{inspirationCues}}
+
+REQUIREMENTS:
+- Realism: Photorealistic (unless specified otherwise).
+- Quality: Production ready, sharp focus.
+- Consistency: Adhere strictly to the color palette.`,
+    2: `{{basePrompt}}
+Instruction: {{instruction}}
+
+BRAND DNA CONTEXT:
+- Keywords: {{keywords}}
+- Legibility: {{colorRoles}}
+
+INSPIRATION CUES (Apply these artistic styles to the graphic design/layout):
+{{inspirationCues}}
+
+REQUIREMENTS:
+- Realism: Photorealistic (unless specified otherwise).
+- Quality: Production ready, sharp focus.
+- Consistency: Adhere strictly to the color palette.`
+  },
+  'draft.vibrant': {
+    1: `Emphasize the brand colors {{colors}}. Create a vibrant, energetic design with maximum visual impact.`
+  },
+  'ads.brainstorm': {
+    1: `You are a creative advertising strategist for {{name}}.
+Brand DNA:
+- Visual Essence: {{visualEssence}}
+- Colors: {{colors}}
+- Typography: {{typography}}
+- Keywords: {{keywords}}
+- Design System: {{designSystem}}
+
+CRITICAL CONSTRAINT: All video ads will be exactly 8 SECONDS or less (Veo 3 limitation).
+
+Your role is to:
+1. Brainstorm PUNCHY, FAST-PACED video ad concepts that work in 8 seconds
+2. Focus on QUICK-CUT style: rapid transitions, single powerful message
+3. Suggest concepts with 2-3 distinct visual moments maximum
+4. Keep messaging TIGHTLY COMPOSED - one core idea, executed fast
+5. Think: TikTok/Instagram Reels energy - grab attention immediately
+6. When the user seems satisfied with a concept, encourage them to finalize it
+
+Examples of 8-second ad concepts:
+- Product reveal with dramatic transition (3-4 keyframes)
+- Before/After transformation (2 keyframes)
+- Quick product feature showcase (2-3 features, 2-3 seconds each)
+- Bold statement + product shot + logo (3 keyframes)
+
+Keep responses conversational, creative, and focused on SHORT-FORM video possibilities.`
+  }
+};
+
+const TEMPLATES_BY_ID = new Map(PROMPT_TEMPLATES.map(t => [t.id, t]));
+
+export const getPromptTemplate = (id: string): PromptTemplate => {
+  const template = TEMPLATES_BY_ID.get(id);
+  if (!template) throw new Error(`Unknown prompt template "${id}"`);
+  return template;
+};
+
+// --- RENDERING ---
+
+export interface RenderedTemplate {
+  text: string;
+  ref: TemplateRef;
+}
+
+// The body a context should use: the brand's latest saved version while its
+// override is active, otherwise the default
+export const resolveTemplate = (context: GenerationContext, id: string): { body: string; ref: TemplateRef } => {
+  const override = context.templates?.[id];
+  const latest = override?.active ? override.versions[override.versions.length - 1] : undefined;
+  if (latest) return { body: latest.body, ref: { id, source: 'brand', version: latest.version } };
+  const template = getPromptTemplate(id);
+  return { body: template.body, ref: { id, source: 'default', version: template.version } };
+};
+
+// Unknown placeholders are left in place so a typo shows up in the prompt log
+export const fillTemplate = (body: string, variables: Record<string, string>): string =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    if (name in variables) return variables[name];
+    console.warn(`📝 [TEMPLATES] No value for ${placeholder}`);
+    return placeholder;
+  });
+
+export const renderTemplate = (context: GenerationContext, id: string, variables: Record<string, string>): RenderedTemplate => {
+  const { body, ref } = resolveTemplate(context, id);
+  return { text: fillTemplate(body, variables), ref };
+};
+
+// The exact body a ref points at, or null if that version is unknown
+// (a brand version from another browser, or a template that was removed)
+export const getTemplateBody = (ref: TemplateRef, overrides: Record<string, PromptTemplateOverride> = {}): string | null => {
+  if (ref.source === 'brand') return overrides[ref.id]?.versions.find(v => v.version === ref.version)?.body ?? null;
+  const template = TEMPLATES_BY_ID.get(ref.id);
+  if (template && template.version === ref.version) return template.body;
+  return EARLIER_DEFAULTS[ref.id]?.[ref.version] ?? null;
+};
+
+export const formatTemplateRef = (ref: TemplateRef) => `${ref.id}@${ref.source === 'brand' ? 'brand-' : ''}v${ref.version}`;
+
+// --- OVERRIDES ---
+
+// Save `body` as the brand's next version of a template and make it active
+export const saveTemplateVersion = (
+  overrides: Record<string, PromptTemplateOverride>,
+  id: string,
+  body: string
+): Record<string, PromptTemplateOverride> => {
+  const versions = overrides[id]?.versions || [];
+  const version = (versions[versions.length - 1]?.version || 0) + 1;
+  return { ...overrides, [id]: { versions: [...versions, { version, body, createdAt: Date.now() }], active: true } };
+};
+
+// Switch between the brand's latest version and the default; history is kept either way
+export const setTemplateOverrideActive = (
+  overrides: Record<string, PromptTemplateOverride>,
+  id: string,
+  active: boolean
+): Record<string, PromptTemplateOverride> =>
+  overrides[id] ? { ...overrides, [id]: { ...overrides[id], active } } : overrides;
@@ -0,0 +1,123 @@
+import { AssetType, BrandDNA, DraftVersion, GeneratedAsset, InspirationWeight, Provenance, ProvenanceStep, StudioDraft, StudioSession } from "../types";
+
+// --- PROVENANCE ---
+//
+// Generating drafts starts a provenance record per draft (DNA snapshot,
+// inspirations used, the draft step). Each edit adds a version to the draft's
+// history and the record follows the path to the current version; finalizing
+// appends the last step and hands the record to the GeneratedAsset. Regenerating
+// from a step keeps the steps before it and carries on as a new draft, or as a
+// new asset when the regenerated step is the finalize.
+
+export interface DraftOrigin {
+  assetType: AssetType;
+  subtype: string;
+  subtypeId?: string;
+  dna: BrandDNA;
+  dnaVersion?: number;
+  inspirationIds: string[];
+  inspirationWeights?: Record<string, InspirationWeight>;
+}
+
+// The steps from the generated draft down to one version
+const versionPath = (versions: DraftVersion[], versionId: string): ProvenanceStep[] => {
+  const steps: ProvenanceStep[] = [];
+  let version = versions.find(v => v.id === versionId);
+  while (version) {
+    steps.unshift(version.step);
+    const parentId: string | null = version.parentId;
+    version = parentId ? versions.find(v => v.id === parentId) : undefined;
+  }
+  return steps;
+};
+
+// Drafts saved before version history existed have a straight chain of steps.
+// Their version ids are derived from the draft id so they stay the same across calls.
+export const getDraftVersions = (draft: StudioDraft): DraftVersion[] => {
+  if (draft.versions) return draft.versions;
+  if (!draft.provenance) return [];
+  return draft.provenance.steps.map((step, i) => ({ id: `${draft.id}/${i}`, parentId: i === 0 ? null : `${draft.id}/${i - 1}`, step }));
+};
+
+// Show `versionId`; a preview rendered from another version no longer applies
+const atVersion = (draft: StudioDraft, provenance: Provenance, versions: DraftVersion[], versionId: string): StudioDraft => {
+  const steps = versionPath(versions, versionId);
+  return {
+    id: draft.id,
+    url: steps[steps.length - 1].imageUrl,
+    variation: draft.variation,
+    model: draft.model,
+    templates: draft.templates,
+    provenance: { ...provenance, steps },
+    versions,
+    currentVersionId: versionId
+  };
+};
+
+const draftFromProvenance = (provenance: Provenance): StudioDraft => {
+  const first = provenance.steps[0];
+  const draft: StudioDraft = { id: provenance.draftId, url: first.imageUrl, variation: first.variation, model: first.model, templates: first.templates, provenance };
+  const versions = getDraftVersions(draft);
+  return atVersion(draft, provenance, versions, versions[versions.length - 1].id);
+};
+
+export const createDraftFromStep = (origin: DraftOrigin, step: ProvenanceStep): StudioDraft =>
+  draftFromProvenance({ draftId: crypto.randomUUID(), ...origin, steps: [step] });
+
+// Add an edit as a child of `parentVersionId` (the version it was made from) and show it
+export const applyEditStep = (draft: StudioDraft, step: ProvenanceStep, parentVersionId?: string): StudioDraft => {
+  // Drafts saved before provenance existed have no record to extend
+  if (!draft.provenance) return { id: draft.id, url: step.imageUrl, variation: draft.variation, model: draft.model, templates: draft.templates };
+  const versions = getDraftVersions(draft);
+  const parentId = parentVersionId || draft.currentVersionId || versions[versions.length - 1].id;
+  const version: DraftVersion = { id: crypto.randomUUID(), parentId, step };
+  return atVersion(draft, draft.provenance, [...versions, version], version.id);
+};
+
+export const selectDraftVersion = (draft: StudioDraft, versionId: string): StudioDraft =>
+  draft.provenance ? atVersion(draft, draft.provenance, getDraftVersions(draft), versionId) : draft;
+
+export const createAssetFromDraft = (draft: StudioDraft, type: AssetType, subtype: string, step: ProvenanceStep): GeneratedAsset => ({
+  id: crypto.randomUUID(),
+  type,
+  subtype,
+  subtypeId: draft.provenance?.subtypeId,
+  url: step.imageUrl,
+  promptUsed: step.prompt,
+  createdAt: step.createdAt,
+  isDraft: false,
+  model: step.model,
+  templates: draft.templates,
+  dnaVersion: draft.provenance?.dnaVersion,
+  provenance: draft.provenance && { ...draft.provenance, steps: [...draft.provenance.steps, step] }
+});
+
+export type BranchResult =
+  | { kind: 'draft'; draft: StudioDraft }
+  | { kind: 'asset'; asset: GeneratedAsset };
+
+// Replace step `index` with its regenerated version and drop the steps after it
+export const branchFromStep = (provenance: Provenance, index: number, step: ProvenanceStep): BranchResult => {
+  const branched: Provenance = { ...provenance, draftId: crypto.randomUUID(), steps: [...provenance.steps.slice(0, index), step] };
+  if (step.kind !== 'finalize') return { kind: 'draft', draft: draftFromProvenance(branched) };
+  return {
+    kind: 'asset',
+    asset: createAssetFromDraft(draftFromProvenance({ ...branched, steps: branched.steps.slice(0, -1) }), provenance.assetType, provenance.subtype, step)
+  };
+};
+
+const isSessionSubtype = (session: StudioSession, { assetType, subtype, subtypeId }: Provenance) =>
+  session.assetType === assetType && (subtypeId ? session.subtypeId === subtypeId : session.subtype === subtype);
+
+// Whether branching from step `index` would replace drafts in progress in the
+// Studio, so the user can be asked first
+export const branchReplacesStudioDrafts = (session: StudioSession, provenance: Provenance, index: number) =>
+  provenance.steps[index]?.kind !== 'finalize' && session.drafts.length > 0 && !isSessionSubtype(session, provenance);
+
+// A branched draft joins the Studio drafts when they are for the same subtype
+// and replaces them otherwise, so the Studio shows it under the right category
+export const addStudioDraft = (session: StudioSession, draft: StudioDraft): StudioSession => {
+  const { assetType, subtype, subtypeId } = draft.provenance!;
+  const drafts = isSessionSubtype(session, draft.provenance!) ? [...session.drafts, draft] : [draft];
+  return { ...session, assetType, subtype, subtypeId, drafts };
+};
@@ -0,0 +1,120 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, GenerateVideosParameters, VideoGenerationReferenceType } from "@google/genai";
+import { GenerationProvider, TokenUsage, VideoOperation, VideoRequest } from "./types";
+import { GenerationError } from "../errors";
+
+const getClient = (apiKey?: string) => {
+  const key = apiKey || process.env.API_KEY;
+  if (!key) throw new GenerationError('invalid-key', "API Key not found. Please select a key.");
+  return new GoogleGenAI({ apiKey: key });
+};
+
+const toTokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => response.usageMetadata && {
+  inputTokens: response.usageMetadata.promptTokenCount,
+  outputTokens: response.usageMetadata.candidatesTokenCount
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Blocked prompts and filtered candidates come back as normal responses; surface them as safety errors
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety', `Prompt blocked: ${blockReason}`, { details: [response.promptFeedback?.blockReasonMessage || blockReason] });
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError('safety', `Response filtered: ${finishReason}`, { details: [finishReason] });
+  }
+};
+
+// Failures come back on the operation, or inside the response
+const errorMessage = (operation: GenerateVideosOperation): string | undefined => {
+  const responseError = operation.response && 'error' in operation.response ? operation.response.error : undefined;
+  for (const error of [operation.error, responseError]) {
+    if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') return error.message;
+  }
+  return undefined;
+};
+
+const toVideoOperation = (operation: GenerateVideosOperation): VideoOperation => ({
+  name: operation.name || '',
+  done: !!operation.done,
+  videoUri: operation.response?.generatedVideos?.[0]?.video?.uri,
+  raiMediaFilteredReasons: operation.response?.raiMediaFilteredReasons,
+  errorMessage: errorMessage(operation),
+  raw: operation
+});
+
+// Reference images go to Veo as assets (the subject to keep, e.g. a model)
+const toVideoParameters = (request: VideoRequest): GenerateVideosParameters => ({
+  model: request.model,
+  prompt: request.prompt,
+  image: request.image,
+  config: {
+    numberOfVideos: request.config.numberOfVideos,
+    resolution: request.config.resolution,
+    aspectRatio: request.config.aspectRatio,
+    durationSeconds: request.config.durationSeconds,
+    referenceImages: request.referenceImages?.map(image => ({ image, referenceType: VideoGenerationReferenceType.ASSET }))
+  }
+});
+
+// Live provider backed by the Gemini / Veo APIs
+export const createGeminiProvider = (): GenerationProvider => ({
+  id: 'gemini',
+
+  generateText: async (request) => {
+    const ai = getClient();
+    const config: Record<string, unknown> = {};
+    if (request.useSearch) config.tools = [{ googleSearch: {} }];
+    if (request.responseSchema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = request.responseSchema;
+    }
+
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config
+    });
+
+    // Multi-part answers (e.g. annotation analysis) fall back to the first text part
+    const text = response.text ?? response.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+    if (!text) throwIfBlocked(response);
+    return { text, usage: toTokenUsage(response) };
+  },
+
+  generateImage: async (request) => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: { parts: request.parts },
+      config: request.imageConfig ? { imageConfig: request.imageConfig } : undefined
+    });
+
+    const images: string[] = [];
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        images.push(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+      }
+    }
+    if (images.length === 0) throwIfBlocked(response);
+    return { images, usage: toTokenUsage(response) };
+  },
+
+  startVideo: async (request) => {
+    const ai = getClient();
+    const operation = await ai.models.generateVideos(toVideoParameters(request));
+    return toVideoOperation(operation);
+  },
+
+  getVideoOperation: async (operation) => {
+    const ai = getClient();
+    const raw = operation.raw instanceof GenerateVideosOperation
+      ? operation.raw
+      : Object.assign(new GenerateVideosOperation(), { name: operation.name });
+    return toVideoOperation(await ai.operations.getVideosOperation({ operation: raw }));
+  },
+
+  resolveVideoUrl: async (videoUri) => `${videoUri}&key=${process.env.API_KEY}`
+});
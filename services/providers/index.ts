@@ -0,0 +1,42 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { GenerationProvider, ProviderId } from "./types";
+import { withRetry } from "../errors";
+import { withUsageTracking } from "../usageService";
+
+export * from "./types";
+
+// Chosen with GENERATION_PROVIDER in .env.local ("gemini" or "mock"); defaults to Gemini
+export const resolveProviderId = (): ProviderId =>
+  (process.env.GENERATION_PROVIDER || '').toLowerCase() === 'mock' ? 'mock' : 'gemini';
+
+// Every call gets classified errors (GenerationError) and automatic retries
+// with backoff for transient failures, whichever provider is behind it.
+export const withRetries = (provider: GenerationProvider): GenerationProvider => ({
+  ...provider,
+  generateText: (request) => withRetry(() => provider.generateText(request), { label: request.action }),
+  generateImage: (request) => withRetry(() => provider.generateImage(request), { label: request.action }),
+  startVideo: (request) => withRetry(() => provider.startVideo(request), { label: request.action }),
+  getVideoOperation: (operation) => withRetry(() => provider.getVideoOperation(operation), { label: 'video poll' })
+});
+
+// Usage is recorded outside the retries, so a call that needed three attempts is billed once
+const instrument = (provider: GenerationProvider) => withUsageTracking(withRetries(provider));
+
+export const createProvider = (id: ProviderId): GenerationProvider =>
+  instrument(id === 'mock' ? createMockProvider() : createGeminiProvider());
+
+let activeProvider: GenerationProvider | null = null;
+
+export const getProvider = (): GenerationProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(resolveProviderId());
+    console.log(`🔌 [PROVIDER] Using ${activeProvider.id} provider`);
+  }
+  return activeProvider;
+};
+
+// Swap the provider at runtime (tests, demos)
+export const setProvider = (provider: GenerationProvider) => {
+  activeProvider = instrument(provider);
+};
@@ -0,0 +1,276 @@
+import { Schema, Type } from "@google/genai";
+import { ContentPart, GenerationProvider, TextContents, TextRequest, VideoRequest } from "./types";
+
+// --- OFFLINE MOCK PROVIDER ---
+//
+// Deterministic stand-in for Gemini/Veo: the same request always yields the same
+// JSON, text and placeholder media, so the full UI flow works without a key.
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_VIDEO_POLLS = 2;           // Polls before a mock video operation completes
+const MOCK_VIDEO_DURATION_MS = 3000;
+
+const PALETTES = [
+  ['#1E3A8A', '#F59E0B', '#F8FAFC', '#0F172A'],
+  ['#064E3B', '#A3E635', '#ECFDF5', '#1F2937'],
+  ['#7C2D12', '#FB923C', '#FFF7ED', '#292524'],
+  ['#581C87', '#F472B6', '#FAF5FF', '#18181B'],
+  ['#0F766E', '#FDE047', '#F0FDFA', '#134E4A']
+];
+
+const STYLE_CUES = [
+  'Halftone patterns', 'Chromatic aberration', 'Bold geometric shapes', 'Grainy film texture',
+  'Neon glow accents', 'Swiss grid layout', 'Risograph color overlap', 'Soft gradient mesh',
+  'Hand-drawn linework', 'High-contrast duotone'
+];
+
+// --- HELPERS ---
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a; stable across runs so output only depends on the request
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Inline images are summarised so hashing stays cheap for 2K inputs
+const fingerprintParts = (parts: ContentPart[]) =>
+  parts.map(p => 'text' in p ? p.text : `[img:${p.inlineData.data.length}:${p.inlineData.data.slice(0, 64)}]`).join('\n');
+
+const contentsToText = (contents: TextContents): string => {
+  if (typeof contents === 'string') return contents;
+  if (Array.isArray(contents)) return contents.map(c => fingerprintParts(c.parts)).join('\n');
+  return fingerprintParts(contents.parts);
+};
+
+const pick = <T,>(items: T[], seed: number, count: number): T[] =>
+  Array.from({ length: Math.min(count, items.length) }, (_, i) => items[(seed + i * 3) % items.length])
+    .filter((item, i, all) => all.indexOf(item) === i);
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+// Parts may claim image/png while carrying a mock SVG, so sniff the payload
+const sniffMimeType = (base64: string, claimed: string) => {
+  if (base64.startsWith('PHN2Zy') || base64.startsWith('PD94bWwg')) return 'image/svg+xml';
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  if (base64.startsWith('iVBOR')) return 'image/png';
+  return claimed;
+};
+
+const dimensionsFor = (aspectRatio = '1:1', imageSize = '512') => {
+  const base = parseInt(imageSize, 10) || (imageSize.toUpperCase() === '2K' ? 2048 : 1024);
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: base, height: base };
+  return w >= h ? { width: base, height: Math.round(base * h / w) } : { width: Math.round(base * w / h), height: base };
+};
+
+// A labelled SVG using any hex colors found in the prompt. If the request carried
+// a reference image (edit / finalize), it is embedded so edits stay visually linked.
+const renderPlaceholderImage = (label: string, promptText: string, seed: number, width: number, height: number, reference?: { mimeType: string; data: string }) => {
+  const promptColors = promptText.match(/#[0-9a-fA-F]{6}\b/g) || [];
+  const palette = promptColors.length >= 2 ? promptColors : PALETTES[seed % PALETTES.length];
+  const [bg, accent] = [palette[seed % palette.length], palette[(seed + 1) % palette.length]];
+  const cx = width * (0.3 + (seed % 40) / 100);
+  const cy = height * (0.3 + ((seed >> 8) % 40) / 100);
+  const r = Math.min(width, height) * (0.2 + ((seed >> 16) % 15) / 100);
+
+  const referenceLayer = reference
+    ? `<image href="data:${sniffMimeType(reference.data, reference.mimeType)};base64,${reference.data}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice" opacity="0.85"/>`
+    : `<rect width="${width}" height="${height}" fill="${bg}"/><circle cx="${cx}" cy="${cy}" r="${r}" fill="${accent}" opacity="0.9"/>`;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  ${referenceLayer}
+  <rect x="0" y="${height - 64}" width="${width}" height="64" fill="#000" opacity="0.55"/>
+  <text x="16" y="${height - 38}" font-family="Inter, sans-serif" font-size="18" font-weight="700" fill="#fff">${escapeXml(label)}</text>
+  <text x="16" y="${height - 16}" font-family="monospace" font-size="12" fill="#d4d4d8">mock #${seed.toString(16).padStart(8, '0')}</text>
+</svg>`;
+
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+// Records a short slow-zoom clip of the source frame. Outside a browser with
+// MediaRecorder the still frame is returned instead.
+const renderPlaceholderVideo = async (frameDataUrl: string): Promise<string> => {
+  if (typeof document === 'undefined' || typeof MediaRecorder === 'undefined') return frameDataUrl;
+
+  const img = await loadImage(frameDataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = 640;
+  canvas.height = 360;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return frameDataUrl;
+
+  const mimeType = MediaRecorder.isTypeSupported('video/webm') ? 'video/webm' : '';
+  const recorder = new MediaRecorder(canvas.captureStream(30), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  recorder.start();
+  const start = performance.now();
+  await new Promise<void>(resolve => {
+    const drawFrame = (now: number) => {
+      const t = Math.min((now - start) / MOCK_VIDEO_DURATION_MS, 1);
+      const scale = 1 + 0.15 * t;
+      const cover = Math.max(canvas.width / img.width, canvas.height / img.height) * scale;
+      const w = img.width * cover;
+      const h = img.height * cover;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+      if (t < 1) requestAnimationFrame(drawFrame);
+      else resolve();
+    };
+    requestAnimationFrame(drawFrame);
+  });
+  recorder.stop();
+  await stopped;
+
+  return URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+};
+
+// Generic value matching a response schema, for actions without canned output
+const fakeFromSchema = (schema: Schema | undefined, seed: number): unknown => {
+  switch (schema?.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, prop], i) => [key, fakeFromSchema(prop, seed + i)])
+      );
+    case Type.ARRAY:
+      return [0, 1].map(i => fakeFromSchema(schema.items, seed + i));
+    case Type.BOOLEAN:
+      return false;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return seed % 10;
+    default:
+      return `Mock value ${seed % 1000}`;
+  }
+};
+
+const cannedText = (request: TextRequest, promptText: string, seed: number): string => {
+  switch (request.action) {
+    case 'search-grounding':
+      return 'Mock web context: the brand favours a confident, modern look with a deep primary color, a warm accent and clean sans-serif typography. No logo URL found.';
+
+    // A single-field regeneration picks its field out of the full set; roles
+    // are put on the settled palette when only they are being regenerated
+    case 'brand-dna':
+    case 'dna-field': {
+      const colors = PALETTES[seed % PALETTES.length];
+      const [primary, accent, background, text] = promptText.match(/- colors: (.*)/)?.[1].match(/#[0-9a-fA-F]{6}\b/g) || colors;
+      return JSON.stringify({
+        colors,
+        colorRoles: {
+          primary: { hex: primary, usage: 60 },
+          ...(accent && { accent: { hex: accent, usage: 10 } }),
+          ...(background && { background: { hex: background, usage: 30 } }),
+          ...(text && { text: { hex: text } })
+        },
+        typography: 'Headlines in a geometric sans-serif (e.g. Montserrat Bold), body copy in Inter Regular.',
+        visualEssence: 'Confident, modern and optimistic with crisp geometry, generous whitespace and a single warm accent.',
+        designSystem: '- Use the primary color for large surfaces\n- Reserve the accent for calls to action\n- Keep layouts on an 8px grid\n- Prefer rounded corners (8px)',
+        keywords: pick(['Bold', 'Modern', 'Trustworthy', 'Playful', 'Premium', 'Minimal', 'Energetic'], seed, 4),
+        logoUrl: ''
+      });
+    }
+
+    case 'inspiration-cues':
+      return JSON.stringify(pick(STYLE_CUES, seed, 3 + (seed % 3)));
+
+    case 'annotation-analysis': {
+      const instruction = promptText.match(/User's instruction: "([^"]*)"/)?.[1];
+      return `Apply this change only to the highlighted region: ${instruction || 'refine the marked area'}.`;
+    }
+
+    case 'spell-check':
+      return JSON.stringify({ hasErrors: false, errors: [], fixInstruction: '' });
+
+    case 'ad-brainstorm':
+      return `**Mock concept: "The Reveal"**\n\n1. Tight macro shot on the product in brand colors (0-3s)\n2. Quick whip-pan to a person using it outdoors (3-6s)\n3. Logo lockup on a clean background (6-8s)\n\nWant to punch up the energy, or finalize this one?`;
+
+    case 'ad-voiceover':
+      return 'Made for the bold. Built to last. Make your move today.';
+
+    case 'ad-keyframe-plan': {
+      const style = 'Golden hour natural light, shallow depth of field, cinematic 35mm look, warm color grade';
+      return JSON.stringify([
+        { description: 'Macro close-up of the product on a textured surface, brand colors in the background.', photographicStyle: style },
+        { description: 'A person confidently using the product outdoors, mid-motion.', photographicStyle: style },
+        { description: 'The brand logo centered on a clean backdrop in the primary brand color.', photographicStyle: style }
+      ]);
+    }
+
+    default:
+      return request.responseSchema ? JSON.stringify(fakeFromSchema(request.responseSchema, seed)) : `Mock response ${seed % 1000}`;
+  }
+};
+
+// --- PROVIDER ---
+
+export const createMockProvider = (): GenerationProvider => {
+  const videoPolls = new Map<string, number>();
+  const videoFrames = new Map<string, VideoRequest['image']>();
+
+  return {
+    id: 'mock',
+
+    generateText: async (request) => {
+      const promptText = contentsToText(request.contents);
+      const seed = hashString(`${request.action}\n${promptText}`);
+      await delay(MOCK_LATENCY_MS);
+      console.log(`🧪 [MOCK] ${request.action} (text)`);
+      return { text: cannedText(request, promptText, seed) };
+    },
+
+    generateImage: async (request) => {
+      const promptText = fingerprintParts(request.parts);
+      const seed = hashString(`${request.action}\n${promptText}`);
+      const { width, height } = dimensionsFor(request.imageConfig?.aspectRatio, request.imageConfig?.imageSize);
+      // Edits and finalization reference the first image; drafts only carry the logo
+      const reference = request.action === 'edit' || request.action === 'finalize'
+        ? request.parts.find((p): p is Extract<ContentPart, { inlineData: unknown }> => 'inlineData' in p)?.inlineData
+        : undefined;
+
+      await delay(MOCK_LATENCY_MS);
+      console.log(`🧪 [MOCK] ${request.action} (image ${width}x${height})`);
+      return { images: [renderPlaceholderImage(request.action.toUpperCase(), promptText, seed, width, height, reference)] };
+    },
+
+    startVideo: async (request) => {
+      const name = `mock-operations/${hashString(`${request.action}\n${request.prompt}\n${request.image.imageBytes.slice(0, 64)}`).toString(16)}`;
+      videoPolls.set(name, 0);
+      videoFrames.set(name, request.image);
+      console.log(`🧪 [MOCK] ${request.action} (video) started: ${name}`);
+      return { name, done: false };
+    },
+
+    getVideoOperation: async (operation) => {
+      const polls = (videoPolls.get(operation.name) ?? MOCK_VIDEO_POLLS) + 1;
+      videoPolls.set(operation.name, polls);
+      const done = polls >= MOCK_VIDEO_POLLS;
+      return { name: operation.name, done, videoUri: done ? `mock-video:${operation.name}` : undefined };
+    },
+
+    resolveVideoUrl: async (videoUri) => {
+      const frame = videoFrames.get(videoUri.replace(/^mock-video:/, ''));
+      const frameUrl = frame
+        ? `data:${sniffMimeType(frame.imageBytes, frame.mimeType)};base64,${frame.imageBytes}`
+        : renderPlaceholderImage('VIDEO', videoUri, hashString(videoUri), 640, 360);
+      return renderPlaceholderVideo(frameUrl);
+    }
+  };
+};
@@ -0,0 +1,111 @@
+import { Schema } from "@google/genai";
+
+// --- GENERATION PROVIDER CONTRACT ---
+//
+// geminiService.ts builds prompts and interprets results; a provider only moves
+// requests to a backend and back. Swapping providers (live Gemini, offline mock)
+// never changes prompt logic.
+
+// What a call is for. Providers may use it to pick canned output, and it labels
+// the call in logs.
+export type GenerationAction =
+  | 'search-grounding'
+  | 'brand-dna'
+  | 'dna-field'
+  | 'inspiration-cues'
+  | 'annotation-analysis'
+  | 'spell-check'
+  | 'draft'
+  | 'edit'
+  | 'finalize'
+  | 'preview-video'
+  | 'visualization-video'
+  | 'ad-brainstorm'
+  | 'ad-voiceover'
+  | 'ad-keyframe-plan'
+  | 'ad-keyframe'
+  | 'ad-video';
+
+// Who a call is made for. Usage is recorded against this brand and its
+// budget cap applies; calls without a brand are tracked as unassigned.
+export interface CallAttribution {
+  brandId?: string;
+}
+
+// Token counts reported by the backend, when it reports them
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export type TextContents =
+  | string
+  | { parts: ContentPart[] }
+  | { role: string; parts: ContentPart[] }[];
+
+export interface TextRequest extends CallAttribution {
+  action: GenerationAction;
+  model: string;
+  contents: TextContents;
+  responseSchema?: Schema; // When set, the response text is JSON
+  useSearch?: boolean;     // Ground the answer with Google Search
+}
+
+export interface TextResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface ImageRequest extends CallAttribution {
+  action: GenerationAction;
+  model: string;
+  parts: ContentPart[];
+  imageConfig?: {
+    aspectRatio?: string;
+    imageSize?: string;
+  };
+}
+
+export interface ImageResponse {
+  images: string[]; // Data URLs, in response order
+  usage?: TokenUsage;
+}
+
+export interface VideoRequest extends CallAttribution {
+  action: GenerationAction;
+  model: string;
+  prompt: string;
+  image: { imageBytes: string; mimeType: string };
+  referenceImages?: { imageBytes: string; mimeType: string }[];
+  config: {
+    numberOfVideos: number;
+    resolution: string;
+    aspectRatio: string;
+    durationSeconds?: number;
+  };
+}
+
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  videoUri?: string;
+  raiMediaFilteredReasons?: string[];
+  errorMessage?: string;
+  raw?: unknown; // Backend-specific operation object, passed back on poll
+}
+
+export interface GenerationProvider {
+  id: ProviderId;
+  generateText: (request: TextRequest) => Promise<TextResponse>;
+  generateImage: (request: ImageRequest) => Promise<ImageResponse>;
+  startVideo: (request: VideoRequest) => Promise<VideoOperation>;
+  getVideoOperation: (operation: VideoOperation) => Promise<VideoOperation>;
+  // Turn a finished operation's video URI into something a <video> can play
+  resolveVideoUrl: (videoUri: string) => Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
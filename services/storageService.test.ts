@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { AssetType, BrandWorkspace, GeneratedAsset, Inspiration, WorkspaceState } from '../types';
+import { SCHEMA_VERSION, StoredState, dehydrateState, openBrandStore } from './storageService';
+import { createWorkspace } from './workspaceService';
+
+// 1x1 PNGs, red and blue
+const RED = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+const BLUE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPj/HwADBwIAMCbHYQAAAABJRU5ErkJggg==';
+
+const inspiration = (id: string, imageUrl: string): Inspiration => ({
+  id, imageUrl, description: '', extractedCues: ['neon'], pinnedCues: [], tags: []
+});
+
+const asset = (id: string, url: string): GeneratedAsset => ({
+  id, type: AssetType.MERCHANDISE, subtype: 'Hoodie', url, promptUsed: 'prompt', createdAt: 1, isDraft: false
+});
+
+const workspaceWith = (brand: Partial<BrandWorkspace>): WorkspaceState => {
+  const workspace = { ...createWorkspace(), ...brand };
+  return { brands: [workspace], activeBrandId: workspace.id };
+};
+
+// Keys in the blob store, read straight from the database
+const blobKeys = async (factory: IDBFactory, dbName: string): Promise<string[]> => {
+  const request = factory.open(dbName);
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const keys = await new Promise<IDBValidKey[]>((resolve, reject) => {
+    const get = db.transaction('blobs', 'readonly').objectStore('blobs').getAllKeys();
+    get.onsuccess = () => resolve(get.result);
+    get.onerror = () => reject(get.error);
+  });
+  db.close();
+  return keys.map(String).sort();
+};
+
+const putRecord = async (factory: IDBFactory, dbName: string, record: StoredState) => {
+  const store = await openBrandStore(factory, dbName);
+  store.close();
+  const request = factory.open(dbName);
+  const db = await new Promise<IDBDatabase>((resolve) => { request.onsuccess = () => resolve(request.result); });
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction('state', 'readwrite');
+    tx.objectStore('state').put(record, 'current');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+};
+
+describe('openBrandStore', () => {
+  it('round-trips a workspace through save and load', async () => {
+    const factory = new IDBFactory();
+    const store = await openBrandStore(factory, 'round-trip');
+    const state = workspaceWith({ inspirations: [inspiration('i1', RED)], assets: [asset('a1', BLUE)] });
+
+    await store.save(state);
+    const loaded = await store.load();
+
+    expect(loaded).toEqual(state);
+    store.close();
+  });
+
+  it('returns null when nothing was saved', async () => {
+    const store = await openBrandStore(new IDBFactory(), 'empty');
+    expect(await store.load()).toBeNull();
+    store.close();
+  });
+
+  it('stores images as Blobs, once per distinct image', async () => {
+    const factory = new IDBFactory();
+    const store = await openBrandStore(factory, 'blobs');
+    const state = workspaceWith({ inspirations: [inspiration('i1', RED), inspiration('i2', RED)], assets: [asset('a1', BLUE)] });
+
+    const { data } = dehydrateState(state);
+    expect(JSON.stringify(data)).not.toContain('data:image');
+
+    await store.save(state);
+    expect(await blobKeys(factory, 'blobs')).toHaveLength(2);
+    store.close();
+  });
+
+  it('deletes blobs of images that are no longer referenced', async () => {
+    const factory = new IDBFactory();
+    const store = await openBrandStore(factory, 'orphans');
+    const state = workspaceWith({ inspirations: [inspiration('i1', RED)], assets: [asset('a1', BLUE)] });
+
+    await store.save(state);
+    await store.save({ ...state, brands: state.brands.map(b => ({ ...b, assets: [] })) });
+
+    const keys = await blobKeys(factory, 'orphans');
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toContain('/inspiration/i1');
+    store.close();
+  });
+
+  it('cleans up blobs left unreferenced before the last load', async () => {
+    const factory = new IDBFactory();
+    const first = await openBrandStore(factory, 'stale');
+    const state = workspaceWith({ assets: [asset('a1', BLUE)] });
+    await first.save(state);
+    first.close();
+
+    // A fresh session loads, then saves without the asset
+    const second = await openBrandStore(factory, 'stale');
+    const loaded = (await second.load())!;
+    await second.save({ ...loaded, brands: loaded.brands.map(b => ({ ...b, assets: [] })) });
+
+    expect(await blobKeys(factory, 'stale')).toEqual([]);
+    second.close();
+  });
+
+  it('migrates a v1 record through every schema version', async () => {
+    const factory = new IDBFactory();
+    await putRecord(factory, 'v1', {
+      schemaVersion: 1,
+      savedAt: 0,
+      data: {
+        dna: { name: 'Acme', description: '', colors: ['#ff0000', '#000000'], typography: 'Inter', visualEssence: 'bold', keywords: [] },
+        inspirations: [{ id: 'i1', imageUrl: RED, description: 'old', extractedCues: ['neon'] }],
+        assets: []
+      }
+    });
+
+    const store = await openBrandStore(factory, 'v1');
+    const loaded = (await store.load())!;
+    const [brand] = loaded.brands;
+
+    expect(loaded.activeBrandId).toBe(brand.id);
+    expect(brand.dnaVersions).toHaveLength(1);
+    expect(brand.dna?.colorRoles).toEqual({ primary: { hex: '#ff0000' }, accent: { hex: '#000000' } });
+    expect(brand.inspirations[0]).toMatchObject({ imageUrl: RED, pinnedCues: [], tags: [] });
+    expect(brand.studio.inspirationWeights).toEqual({});
+    expect(brand.moodBoards).toEqual([]);
+    expect(brand.ads.boardId).toBeNull();
+    expect(brand.settings.subtypes).toEqual([]);
+
+    // Saved back at the current version
+    await store.save(loaded);
+    expect((await store.load())!.brands[0].id).toBe(brand.id);
+    store.close();
+  });
+
+  it('refuses data from a newer schema', async () => {
+    const factory = new IDBFactory();
+    await putRecord(factory, 'future', { schemaVersion: SCHEMA_VERSION + 1, savedAt: 0, data: {} });
+    const store = await openBrandStore(factory, 'future');
+    await expect(store.load()).rejects.toThrow(/only understands/);
+    store.close();
+  });
+});
@@ -0,0 +1,418 @@
+import { AssetSubtype, BrandState, BrandWorkspace, Provenance, ProvenanceStep, WorkspaceState } from "../types";
+import { createAdSession, createStudioSession, createWorkspaceSettings } from "./workspaceService";
+
+// --- INDEXEDDB PERSISTENCE ---
+//
+// WorkspaceState is saved as one JSON record plus one Blob per embedded image.
+// Data URLs (logos, inspirations, assets, keyframes, imported videos) are swapped for `idb-blob:<key>`
+// references on save and turned back into data URLs on load, so the rest of
+// the app keeps working with plain strings.
+
+const DB_NAME = 'brand-forge';
+const DB_VERSION = 1;
+const STATE_STORE = 'state';
+const BLOB_STORE = 'blobs';
+const STATE_KEY = 'current';
+const BLOB_REF_PREFIX = 'idb-blob:';
+
+// Bump this whenever the persisted shape of WorkspaceState in types.ts changes
+// and register a migration from the previous version below.
+export const SCHEMA_VERSION = 11;
+
+export interface StoredState {
+  schemaVersion: number;
+  savedAt: number;
+  data: unknown;
+}
+
+type Migration = (data: any) => any;
+
+// v7: the first palette color was the primary and the second the accent; text
+// and background came from the v6 accessibility panel's foreground/background
+const withColorRoles = (dna: any) => {
+  if (!dna || (dna.colorRoles && !('foreground' in dna.colorRoles))) return dna;
+  const legacy = dna.colorRoles;
+  const colors: string[] = dna.colors || [];
+  return {
+    ...dna,
+    colorRoles: {
+      ...(colors[0] && { primary: { hex: colors[0] } }),
+      ...(colors[1] && { accent: { hex: colors[1] } }),
+      ...(legacy && { text: { hex: legacy.foreground }, background: { hex: legacy.background } })
+    }
+  };
+};
+
+const withProvenanceColorRoles = <T extends { provenance?: any }>(item: T): T =>
+  item.provenance ? { ...item, provenance: { ...item.provenance, dna: withColorRoles(item.provenance.dna) } } : item;
+
+// v11: records of a custom item get its id; built-in items are never renamed
+const withSubtypeId = <T extends { subtype: string; subtypeId?: string }>(record: T, subtypes: AssetSubtype[]): T => {
+  const item = subtypes.find(s => s.name.trim().toLowerCase() === record.subtype.trim().toLowerCase());
+  return item && !record.subtypeId ? { ...record, subtypeId: item.id } : record;
+};
+
+const withProvenanceSubtypeId = <T extends { provenance?: Provenance }>(item: T, subtypes: AssetSubtype[]): T =>
+  item.provenance ? { ...item, provenance: withSubtypeId(item.provenance, subtypes) } : item;
+
+// migrations[n] upgrades persisted data from schema version n to n + 1
+const migrations: Record<number, Migration> = {
+  // v1 stored a single BrandState; v2 wraps it as the first brand workspace
+  1: (data: BrandState): WorkspaceState => {
+    const now = Date.now();
+    const brand: BrandWorkspace = {
+      id: crypto.randomUUID(),
+      dna: data.dna,
+      inspirations: data.inspirations || [],
+      assets: data.assets || [],
+      ads: createAdSession(),
+      studio: createStudioSession(),
+      settings: createWorkspaceSettings(),
+      dnaVersions: data.dna ? [{ version: 1, dna: data.dna, note: 'Initial identity', createdAt: now }] : [],
+      moodBoards: [],
+      archived: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    return { brands: [brand], activeBrandId: brand.id };
+  },
+  // v3 keeps Studio drafts on each workspace
+  2: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({ ...brand, studio: brand.studio || createStudioSession() }))
+  }),
+  // v4 adds per-workspace settings (model overrides)
+  3: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({ ...brand, settings: brand.settings || createWorkspaceSettings() }))
+  }),
+  // v5 adds per-brand prompt template overrides
+  4: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({ ...brand, settings: { ...brand.settings, templates: brand.settings.templates || {} } }))
+  }),
+  // v6 keeps DNA version history; the existing DNA becomes version 1
+  5: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({
+      ...brand,
+      dnaVersions: brand.dnaVersions || (brand.dna ? [{ version: 1, dna: brand.dna, note: 'Initial identity', createdAt: brand.updatedAt }] : [])
+    }))
+  }),
+  // v7 names palette colors by role instead of by position, including DNA snapshots
+  6: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({
+      ...brand,
+      dna: withColorRoles(brand.dna),
+      dnaVersions: brand.dnaVersions.map(v => ({ ...v, dna: withColorRoles(v.dna) })),
+      assets: brand.assets.map(withProvenanceColorRoles),
+      studio: { ...brand.studio, drafts: brand.studio.drafts.map(withProvenanceColorRoles) }
+    }))
+  }),
+  // v8 lets each Studio run weigh inspirations; until now every one was used alike
+  7: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({ ...brand, studio: { ...brand.studio, inspirationWeights: brand.studio.inspirationWeights || {} } }))
+  }),
+  // v9 adds mood boards, inspiration tags and pinned cues
+  8: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({
+      ...brand,
+      inspirations: brand.inspirations.map(insp => ({ ...insp, pinnedCues: insp.pinnedCues || [], tags: insp.tags || [] })),
+      moodBoards: brand.moodBoards || [],
+      ads: { ...brand.ads, boardId: brand.ads.boardId ?? null }
+    }))
+  }),
+  // v10 lets brands define their own Studio items
+  9: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => ({ ...brand, settings: { ...brand.settings, subtypes: brand.settings.subtypes || [] } }))
+  }),
+  // v11 records the item's id next to its name, so renaming a custom item keeps its assets
+  10: (data: WorkspaceState): WorkspaceState => ({
+    ...data,
+    brands: data.brands.map(brand => {
+      const { subtypes } = brand.settings;
+      return {
+        ...brand,
+        assets: brand.assets.map(a => withProvenanceSubtypeId(withSubtypeId(a, subtypes), subtypes)),
+        studio: { ...withSubtypeId(brand.studio, subtypes), drafts: brand.studio.drafts.map(d => withProvenanceSubtypeId(d, subtypes)) }
+      };
+    })
+  })
+};
+
+export const migrateState = (record: StoredState): unknown => {
+  if (record.schemaVersion > SCHEMA_VERSION) {
+    throw new Error(`Stored data uses schema v${record.schemaVersion}, but this build only understands v${SCHEMA_VERSION}.`);
+  }
+
+  let data = record.data;
+  for (let version = record.schemaVersion; version < SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration registered from schema v${version}`);
+    console.log(`💾 [STORAGE] Migrating schema v${version} -> v${version + 1}`);
+    data = migrate(data);
+  }
+  return data;
+};
+
+// --- HELPERS ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const isDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:');
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, payload = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Uses arrayBuffer + btoa instead of FileReader so it also works under Node
+export const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+// --- (DE)HYDRATION ---
+
+interface Dehydrated {
+  data: unknown;
+  images: Map<string, string>; // blob key -> data URL
+}
+
+type BlobRef = (key: string, value: string | undefined) => string | undefined;
+
+const dehydrateStep = (step: ProvenanceStep, key: string, ref: BlobRef): ProvenanceStep => ({
+  ...step,
+  imageUrl: ref(key, step.imageUrl) as string,
+  maskUrl: ref(`${key}/mask`, step.maskUrl)
+});
+
+// Provenance and draft versions repeat images held elsewhere (the brand logo in
+// each DNA snapshot, the final image as the last step); dehydrateState stores those once.
+const dehydrateProvenance = (provenance: Provenance | undefined, key: string, ref: BlobRef): Provenance | undefined =>
+  provenance && {
+    ...provenance,
+    dna: { ...provenance.dna, logoImage: ref(`${key}/dna/logo`, provenance.dna.logoImage) },
+    steps: provenance.steps.map((step, i) => dehydrateStep(step, `${key}/step/${i}`, ref))
+  };
+
+// Replace every image data URL with a reference keyed by where it lives in the
+// state, so re-saving an unchanged asset reuses its existing Blob. Keys are
+// scoped by brand id so two brands never share a Blob.
+const dehydrateBrand = (brand: BrandWorkspace, ref: BlobRef): BrandWorkspace => {
+  const scope = `brand/${brand.id}`;
+  return {
+    ...brand,
+    dna: brand.dna ? { ...brand.dna, logoImage: ref(`${scope}/dna/logo`, brand.dna.logoImage) } : null,
+    dnaVersions: brand.dnaVersions.map(v => ({
+      ...v,
+      dna: { ...v.dna, logoImage: ref(`${scope}/dna/version/${v.version}/logo`, v.dna.logoImage) }
+    })),
+    inspirations: brand.inspirations.map(insp => ({
+      ...insp,
+      imageUrl: ref(`${scope}/inspiration/${insp.id}`, insp.imageUrl) as string
+    })),
+    assets: brand.assets.map(asset => ({
+      ...asset,
+      url: ref(`${scope}/asset/${asset.id}/url`, asset.url) as string,
+      baseImage: ref(`${scope}/asset/${asset.id}/base`, asset.baseImage),
+      videoUrl: ref(`${scope}/asset/${asset.id}/video`, asset.videoUrl),
+      provenance: dehydrateProvenance(asset.provenance, `${scope}/asset/${asset.id}/provenance`, ref)
+    })),
+    studio: {
+      ...brand.studio,
+      drafts: brand.studio.drafts.map(draft => ({
+        ...draft,
+        // Versions first, so images shared with the url and provenance are keyed by
+        // version and don't move when another version is selected
+        versions: draft.versions?.map(version => ({
+          ...version,
+          step: dehydrateStep(version.step, `${scope}/studio/draft/${draft.id}/version/${version.id}`, ref)
+        })),
+        url: ref(`${scope}/studio/draft/${draft.id}`, draft.url) as string,
+        previewVideoUrl: ref(`${scope}/studio/draft/${draft.id}/video`, draft.previewVideoUrl),
+        provenance: dehydrateProvenance(draft.provenance, `${scope}/studio/draft/${draft.id}/provenance`, ref)
+      }))
+    },
+    ads: {
+      ...brand.ads,
+      videoUrl: ref(`${scope}/ads/video`, brand.ads.videoUrl ?? undefined) ?? null,
+      storyboard: brand.ads.storyboard ? {
+        ...brand.ads.storyboard,
+        keyframes: brand.ads.storyboard.keyframes.map((frame, i) => ({
+          ...frame,
+          url: ref(`${scope}/ads/keyframe/${i}`, frame.url) as string
+        }))
+      } : null
+    }
+  };
+};
+
+export const dehydrateState = (state: WorkspaceState): Dehydrated => {
+  const images = new Map<string, string>();
+  // Identical images within a brand share the first key they were seen under
+  const brandRef = (): BlobRef => {
+    const keysByImage = new Map<string, string>();
+    return (key, value) => {
+      if (!isDataUrl(value)) return value;
+      const existing = keysByImage.get(value);
+      if (existing) return `${BLOB_REF_PREFIX}${existing}`;
+      keysByImage.set(value, key);
+      images.set(key, value);
+      return `${BLOB_REF_PREFIX}${key}`;
+    };
+  };
+
+  const data: WorkspaceState = {
+    ...state,
+    brands: state.brands.map(brand => dehydrateBrand(brand, brandRef()))
+  };
+
+  return { data, images };
+};
+
+// Walk any JSON value and resolve blob references back into data URLs
+const resolveBlobRefs = async (value: unknown, loadBlob: (key: string) => Promise<string | undefined>): Promise<unknown> => {
+  if (typeof value === 'string' && value.startsWith(BLOB_REF_PREFIX)) {
+    const dataUrl = await loadBlob(value.slice(BLOB_REF_PREFIX.length));
+    if (!dataUrl) console.warn('💾 [STORAGE] Missing blob for', value);
+    return dataUrl;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => resolveBlobRefs(item, loadBlob)));
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([k, v]) => [k, await resolveBlobRefs(v, loadBlob)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+// --- STORE ---
+
+export interface BrandStore {
+  load: () => Promise<WorkspaceState | null>;
+  save: (state: WorkspaceState) => Promise<void>;
+  clear: () => Promise<void>;
+  close: () => void;
+}
+
+// `factory` defaults to the browser's indexedDB; pass a fake (e.g. fake-indexeddb)
+// to run the store under Node.
+export const openBrandStore = async (
+  factory: IDBFactory = globalThis.indexedDB,
+  dbName: string = DB_NAME
+): Promise<BrandStore> => {
+  if (!factory) throw new Error("IndexedDB is not available in this environment");
+
+  const openRequest = factory.open(dbName, DB_VERSION);
+  openRequest.onupgradeneeded = () => {
+    const db = openRequest.result;
+    if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+    if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+  };
+  const db = await requestToPromise(openRequest);
+
+  // Data URLs currently stored per blob key, so unchanged images are not rewritten
+  // and orphaned ones can be deleted
+  const written = new Map<string, string>();
+
+  const load = async (): Promise<WorkspaceState | null> => {
+    // Issue every request before awaiting so the transaction stays active
+    const tx = db.transaction([STATE_STORE, BLOB_STORE], 'readonly');
+    const [record, keys, values] = await Promise.all([
+      requestToPromise(tx.objectStore(STATE_STORE).get(STATE_KEY)) as Promise<StoredState | undefined>,
+      requestToPromise(tx.objectStore(BLOB_STORE).getAllKeys()),
+      requestToPromise(tx.objectStore(BLOB_STORE).getAll())
+    ]);
+    if (!record) return null;
+
+    const blobs = new Map<string, Blob>();
+    keys.forEach((key, i) => blobs.set(String(key), values[i]));
+
+    written.clear();
+    const migrated = migrateState(record);
+    const state = await resolveBlobRefs(migrated, async (key) => {
+      const blob = blobs.get(key);
+      if (!blob) return undefined;
+      const dataUrl = await blobToDataUrl(blob);
+      written.set(key, dataUrl);
+      return dataUrl;
+    }) as WorkspaceState;
+
+    // Unreferenced blobs get cleaned up by the next save
+    blobs.forEach((_, key) => {
+      if (!written.has(key)) written.set(key, '');
+    });
+
+    console.log(`💾 [STORAGE] Hydrated state (schema v${record.schemaVersion}, ${blobs.size} blobs)`);
+    return state;
+  };
+
+  const save = async (state: WorkspaceState): Promise<void> => {
+    const { data, images } = dehydrateState(state);
+
+    const tx = db.transaction([STATE_STORE, BLOB_STORE], 'readwrite');
+    const blobStore = tx.objectStore(BLOB_STORE);
+
+    images.forEach((dataUrl, key) => {
+      if (written.get(key) === dataUrl) return;
+      blobStore.put(dataUrlToBlob(dataUrl), key);
+    });
+
+    // Drop blobs for images that are no longer referenced
+    written.forEach((_, key) => {
+      if (!images.has(key)) blobStore.delete(key);
+    });
+
+    const record: StoredState = { schemaVersion: SCHEMA_VERSION, savedAt: Date.now(), data };
+    tx.objectStore(STATE_STORE).put(record, STATE_KEY);
+
+    await transactionDone(tx);
+
+    written.clear();
+    images.forEach((dataUrl, key) => written.set(key, dataUrl));
+  };
+
+  const clear = async (): Promise<void> => {
+    const tx = db.transaction([STATE_STORE, BLOB_STORE], 'readwrite');
+    tx.objectStore(STATE_STORE).clear();
+    tx.objectStore(BLOB_STORE).clear();
+    await transactionDone(tx);
+    written.clear();
+  };
+
+  return { load, save, clear, close: () => db.close() };
+};
@@ -0,0 +1,47 @@
+import { Type } from '@google/genai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateStructured, repairJson } from './structuredOutput';
+
+const replies: string[] = [];
+const generateText = vi.fn(async () => ({ text: replies.shift() ?? '' }));
+
+vi.mock('./providers', () => ({ getProvider: () => ({ generateText }) }));
+
+const request = {
+  action: 'brand-dna' as const,
+  model: 'test-model',
+  contents: 'Name the brand',
+  label: 'TEST',
+  responseSchema: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ['name'] }
+};
+
+beforeEach(() => {
+  replies.length = 0;
+  generateText.mockClear();
+});
+
+describe('repairJson', () => {
+  it('strips fences, chatter and trailing commas', () => {
+    expect(repairJson('Sure!\n```json\n{"a": [1, 2,],}\n```')).toBe('{"a": [1, 2]}');
+  });
+});
+
+describe('generateStructured', () => {
+  it('asks again after a response that is not JSON', async () => {
+    replies.push('not json', '{"name": "Acme"}');
+    expect(await generateStructured(request)).toEqual({ name: 'Acme' });
+    expect(generateText).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up with the problems after the last attempt', async () => {
+    replies.push('{}', '{"name": ""}');
+    await expect(generateStructured(request)).rejects.toThrow('$.name must not be empty');
+  });
+
+  it('lets errors from normalize through instead of blaming the JSON', async () => {
+    replies.push('{"name": "Acme"}');
+    const normalize = () => { throw new RangeError('normalize bug'); };
+    await expect(generateStructured({ ...request, normalize })).rejects.toThrow(RangeError);
+    expect(generateText).toHaveBeenCalledTimes(1);
+  });
+});
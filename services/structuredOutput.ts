@@ -0,0 +1,185 @@
+import { Schema, Type } from "@google/genai";
+import { getProvider, TextContents, TextRequest } from "./providers";
+import { GenerationError } from "./errors";
+
+// --- STRUCTURED (JSON) RESPONSES ---
+//
+// Every request that declares a responseSchema goes through generateStructured:
+// the text is parsed (with light repair of common formatting slips), checked
+// against the same Schema object that was sent to the model, coerced where the
+// intent is unambiguous, and normalized. If it still doesn't fit, the model is
+// asked again with the list of problems before giving up with malformed-json.
+
+export interface ValidationResult<T = unknown> {
+  value: T;
+  errors: string[];
+}
+
+// --- REPAIR ---
+
+// Best-effort fixes for output that is almost JSON: markdown fences, chatter
+// around the payload, smart quotes and trailing commas.
+export const repairJson = (text: string): string => {
+  let json = text.trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "")
+    .replace(/[“”]/g, '"');
+
+  const start = json.search(/[[{]/);
+  const end = Math.max(json.lastIndexOf('}'), json.lastIndexOf(']'));
+  if (start >= 0 && end > start) json = json.slice(start, end + 1);
+
+  return json.replace(/,\s*([}\]])/g, "$1");
+};
+
+export const parseJsonLoose = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return JSON.parse(repairJson(text)); // Throws SyntaxError if still unreadable
+  }
+};
+
+// --- VALIDATION ---
+
+// Check `value` against a Gemini response Schema, coercing obvious slips
+// ("3" for a number, "true" for a boolean, a lone item for an array).
+// Required string fields must also be non-empty.
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = '$'): ValidationResult => {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { value, errors: [`${path} should be an object`] };
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = { ...input };
+      const required = schema.required || [];
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        const propPath = `${path}.${key}`;
+        if (input[key] === undefined || input[key] === null) {
+          if (required.includes(key)) errors.push(`${propPath} is required`);
+          continue;
+        }
+        const result = validateAgainstSchema(input[key], propSchema, propPath);
+        output[key] = result.value;
+        errors.push(...result.errors);
+        if (required.includes(key) && propSchema.type === Type.STRING && result.value === '') {
+          errors.push(`${propPath} must not be empty`);
+        }
+      }
+      return { value: output, errors };
+    }
+
+    case Type.ARRAY: {
+      const items = Array.isArray(value) ? value : [value];
+      const output = items.map((item, i) => {
+        if (!schema.items) return item;
+        const result = validateAgainstSchema(item, schema.items, `${path}[${i}]`);
+        errors.push(...result.errors);
+        return result.value;
+      });
+      if (schema.minItems !== undefined && output.length < Number(schema.minItems)) {
+        errors.push(`${path} needs at least ${schema.minItems} item(s)`);
+      }
+      return { value: output, errors };
+    }
+
+    case Type.STRING:
+      if (typeof value === 'string') return { value: value.trim(), errors };
+      if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value), errors };
+      return { value, errors: [`${path} should be a string`] };
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const num = typeof value === 'string' ? Number(value) : value;
+      if (typeof num !== 'number' || Number.isNaN(num)) return { value, errors: [`${path} should be a number`] };
+      return { value: schema.type === Type.INTEGER ? Math.round(num) : num, errors };
+    }
+
+    case Type.BOOLEAN:
+      if (typeof value === 'boolean') return { value, errors };
+      if (value === 'true' || value === 'false') return { value: value === 'true', errors };
+      return { value, errors: [`${path} should be a boolean`] };
+
+    default:
+      return { value, errors };
+  }
+};
+
+// --- NORMALIZERS ---
+
+// "#abc", "ABCDEF", " #AbCdEf " -> "#AABBCC" / "#ABCDEF"; anything else -> null
+export const normalizeHex = (color: string): string | null => {
+  const hex = color.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`.toUpperCase();
+  if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`.toUpperCase();
+  return null;
+};
+
+// Trim, drop empties and case-insensitive duplicates, keep first spelling and order
+export const dedupeStrings = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values
+    .map(v => v.trim())
+    .filter(v => {
+      const key = v.toLowerCase();
+      if (!v || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// --- GENERATION ---
+
+export interface StructuredRequest<T> extends TextRequest {
+  responseSchema: Schema;
+  label: string;                      // Log tag, e.g. 'BRAND DNA'
+  normalize?: (value: any) => T;      // Clean up a schema-valid value
+  check?: (value: T) => string[];     // Semantic checks beyond the schema
+  maxAttempts?: number;               // Including the first call; defaults to 2
+}
+
+const withCorrection = (contents: TextContents, note: string): TextContents => {
+  if (typeof contents === 'string') return `${contents}\n\n${note}`;
+  if (Array.isArray(contents)) return [...contents, { role: 'user', parts: [{ text: note }] }];
+  return { parts: [...contents.parts, { text: note }] };
+};
+
+export const generateStructured = async <T>(request: StructuredRequest<T>): Promise<T> => {
+  const { label, normalize, check, maxAttempts = 2, ...textRequest } = request;
+  const provider = getProvider();
+  let contents = textRequest.contents;
+  let problems: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.generateText({ ...textRequest, contents });
+
+    // Only unreadable JSON is the model's fault; errors from normalize or check propagate
+    let parsed: unknown;
+    try {
+      parsed = parseJsonLoose(response.text);
+    } catch {
+      problems = ['the response was not valid JSON'];
+    }
+
+    if (parsed !== undefined) {
+      const result = validateAgainstSchema(parsed, textRequest.responseSchema);
+      problems = result.errors;
+      if (problems.length === 0) {
+        const value = normalize ? normalize(result.value) : result.value as T;
+        problems = check ? check(value) : [];
+        if (problems.length === 0) return value;
+      }
+    }
+
+    console.warn(`⚠️ [${label}] Invalid structured response (attempt ${attempt}/${maxAttempts}):`, problems, response.text);
+    contents = withCorrection(
+      textRequest.contents,
+      `Your previous answer could not be used: ${problems.join('; ')}. Respond again with ONLY valid JSON that matches the response schema exactly.`
+    );
+  }
+
+  throw new GenerationError('malformed-json', `${label}: ${problems.join('; ')}`, { details: problems });
+};
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageRecord, getBrandSpend, recordUsage, rollUpRecords, summarizeUsage } from './usageService';
+
+const call = (i: number, overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  id: `call-${i}`,
+  brandId: 'brand',
+  action: 'draft',
+  model: 'gemini-3-pro-image-preview',
+  providerId: 'gemini',
+  timestamp: Date.UTC(2025, i % 2 ? 0 : 1, 15),
+  inputTokens: 10,
+  outputTokens: 20,
+  images: 1,
+  videoSeconds: 0,
+  cost: 0.5,
+  ...overrides
+});
+
+describe('rollUpRecords', () => {
+  it('leaves a ledger under the cap alone', () => {
+    const records = [call(0), call(1)];
+    expect(rollUpRecords(records)).toBe(records);
+  });
+
+  it('folds the oldest calls into monthly roll-ups without losing totals', () => {
+    const records = Array.from({ length: 5010 }, (_, i) => call(i, { brandId: i % 3 ? 'brand' : 'other' }));
+    const rolled = rollUpRecords(records);
+
+    expect(rolled.filter(r => r.id.startsWith('call-'))).toHaveLength(5000);
+    expect(rolled.length).toBeLessThan(5010);
+    expect(getBrandSpend('brand', rolled)).toBeCloseTo(getBrandSpend('brand', records));
+    expect(getBrandSpend('other', rolled)).toBeCloseTo(getBrandSpend('other', records));
+    expect(summarizeUsage(rolled, () => 'all')[0]).toMatchObject({ calls: 5010, images: 5010, inputTokens: 50100 });
+  });
+
+  it('adds to existing roll-ups instead of rolling them up again', () => {
+    const sameMonth = { timestamp: Date.UTC(2025, 0, 15) };
+    const first = rollUpRecords(Array.from({ length: 5001 }, (_, i) => call(i, sameMonth)));
+    const second = rollUpRecords([...first, call(9999, sameMonth)]);
+    expect(second.filter(r => !r.id.startsWith('call-'))).toHaveLength(1);
+    expect(summarizeUsage(second, () => 'all')[0].calls).toBe(5002);
+  });
+});
+
+describe('recordUsage', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (k: string) => storage.get(k) ?? null, setItem: (k: string, v: string) => storage.set(k, v) });
+  });
+
+  it('records mock calls at no cost', () => {
+    const entry = { action: 'draft' as const, model: 'gemini-3-pro-image-preview', inputTokens: 1000, outputTokens: 1000, images: 1, videoSeconds: 0 };
+    recordUsage({ ...entry, brandId: 'mock-brand', providerId: 'mock' });
+    recordUsage({ ...entry, brandId: 'real-brand', providerId: 'gemini' });
+    expect(getBrandSpend('mock-brand')).toBe(0);
+    expect(getBrandSpend('real-brand')).toBeGreaterThan(0);
+  });
+});
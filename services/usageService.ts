@@ -0,0 +1,272 @@
+import { useSyncExternalStore } from 'react';
+import { GenerationAction, GenerationProvider, ProviderId } from './providers/types';
+import { GenerationError } from './errors';
+
+// --- USAGE & COST ACCOUNTING ---
+//
+// Every provider call is recorded (model, action, brand, token counts when the
+// backend reports them) with a cost estimated from an editable price table.
+// Brands can have a budget cap; once their estimated spend reaches it, further
+// calls for that brand fail with a 'budget' GenerationError before anything is
+// sent. The ledger lives in localStorage, next to the brands in IndexedDB.
+// Calls made with the mock provider are recorded at no cost.
+
+const USAGE_STORAGE_KEY = 'brand-forge:usage';
+const MAX_RECORDS = 5000;            // Single calls kept; older ones are rolled up by month
+const ROLLUP_PREFIX = 'rollup:';
+const DEFAULT_VIDEO_SECONDS = 8;     // Veo's default clip length
+
+export interface ModelPrice {
+  inputPerMillion?: number;   // USD per 1M input tokens
+  outputPerMillion?: number;  // USD per 1M output tokens (image tokens included)
+  perImage?: number;          // USD per image when token counts are unavailable
+  perVideoSecond?: number;    // USD per second of rendered video
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices at the time of writing; edit them on the Usage page
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.0-flash-exp': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120, perImage: 0.134 },
+  'veo-3.1-generate-preview': { perVideoSecond: 0.40 }
+};
+
+export interface UsageRecord {
+  id: string;
+  brandId: string | null;
+  action: GenerationAction;
+  model: string;
+  providerId: ProviderId;
+  timestamp: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number; // Estimated, USD
+  calls?: number; // Roll-ups stand for several calls of one brand, action and model in a month; 1 when missing
+}
+
+export interface UsageState {
+  records: UsageRecord[];
+  budgets: Record<string, number>; // brandId -> cap in USD
+  prices: PriceTable;
+}
+
+// Features as shown on the dashboard
+export const ACTION_FEATURES: Record<GenerationAction, string> = {
+  'search-grounding': 'Identity',
+  'brand-dna': 'Identity',
+  'dna-field': 'Identity',
+  'inspiration-cues': 'Inspirations',
+  'draft': 'Drafts',
+  'annotation-analysis': 'Editing',
+  'spell-check': 'Editing',
+  'edit': 'Editing',
+  'finalize': 'Finalize',
+  'preview-video': 'Video previews',
+  'visualization-video': 'Video previews',
+  'ad-brainstorm': 'Ads',
+  'ad-voiceover': 'Ads',
+  'ad-keyframe-plan': 'Ads',
+  'ad-keyframe': 'Ads',
+  'ad-video': 'Ads'
+};
+
+// --- STORE ---
+
+const loadState = (): UsageState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) || 'null');
+    if (saved) {
+      // Mock calls recorded before they were free
+      const records: UsageRecord[] = (saved.records || []).map((r: UsageRecord) => r.providerId === 'mock' ? { ...r, cost: 0 } : r);
+      return { records, budgets: saved.budgets || {}, prices: { ...DEFAULT_PRICES, ...saved.prices } };
+    }
+  } catch (e) {
+    console.warn('💰 [USAGE] Could not read usage ledger, starting fresh', e);
+  }
+  return { records: [], budgets: {}, prices: { ...DEFAULT_PRICES } };
+};
+
+let state: UsageState | null = null;
+const listeners = new Set<() => void>();
+
+export const getUsageState = (): UsageState => {
+  if (!state) state = loadState();
+  return state;
+};
+
+const setState = (next: UsageState) => {
+  state = next;
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('💰 [USAGE] Could not persist usage ledger', e);
+  }
+  listeners.forEach(l => l());
+};
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useUsage = () => useSyncExternalStore(subscribeUsage, getUsageState);
+
+// --- COSTS ---
+
+export const estimateCost = (
+  price: ModelPrice | undefined,
+  usage: Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'images' | 'videoSeconds'>
+): number => {
+  if (!price) return 0;
+  const hasTokens = usage.inputTokens > 0 || usage.outputTokens > 0;
+  const tokenCost = (usage.inputTokens * (price.inputPerMillion || 0) + usage.outputTokens * (price.outputPerMillion || 0)) / 1_000_000;
+  const imageCost = hasTokens ? 0 : usage.images * (price.perImage || 0);
+  return tokenCost + imageCost + usage.videoSeconds * (price.perVideoSecond || 0);
+};
+
+const isRollup = (record: UsageRecord) => record.id.startsWith(ROLLUP_PREFIX);
+
+const monthStart = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+// Beyond MAX_RECORDS single calls, the oldest are folded into monthly roll-ups
+// instead of dropped, so brand spend and budgets still count them
+export const rollUpRecords = (records: UsageRecord[]): UsageRecord[] => {
+  const calls = records.filter(r => !isRollup(r));
+  if (calls.length <= MAX_RECORDS) return records;
+  const overflow = new Set(calls.slice(0, calls.length - MAX_RECORDS));
+  const rollups = new Map(records.filter(isRollup).map(r => [r.id, r]));
+  overflow.forEach(r => {
+    const id = `${ROLLUP_PREFIX}${r.brandId}:${r.action}:${r.model}:${r.providerId}:${monthStart(r.timestamp)}`;
+    const rollup = rollups.get(id) || { ...r, id, timestamp: monthStart(r.timestamp), inputTokens: 0, outputTokens: 0, images: 0, videoSeconds: 0, cost: 0, calls: 0 };
+    rollups.set(id, {
+      ...rollup,
+      inputTokens: rollup.inputTokens + r.inputTokens,
+      outputTokens: rollup.outputTokens + r.outputTokens,
+      images: rollup.images + r.images,
+      videoSeconds: rollup.videoSeconds + r.videoSeconds,
+      cost: rollup.cost + r.cost,
+      calls: (rollup.calls ?? 1) + (r.calls ?? 1)
+    });
+  });
+  return [...[...rollups.values()].sort((a, b) => a.timestamp - b.timestamp), ...calls.filter(r => !overflow.has(r))];
+};
+
+export const recordUsage = (entry: Omit<UsageRecord, 'id' | 'timestamp' | 'cost'>) => {
+  const current = getUsageState();
+  const record: UsageRecord = {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    cost: entry.providerId === 'mock' ? 0 : estimateCost(current.prices[entry.model], entry)
+  };
+  console.log(`💰 [USAGE] ${entry.action} on ${entry.model}: ~$${record.cost.toFixed(4)}`);
+  setState({ ...current, records: rollUpRecords([...current.records, record]) });
+};
+
+export const getBrandSpend = (brandId: string, records = getUsageState().records) =>
+  records.reduce((sum, r) => r.brandId === brandId ? sum + r.cost : sum, 0);
+
+// --- BUDGETS ---
+
+export const setBudgetCap = (brandId: string, cap: number | null) => {
+  const current = getUsageState();
+  const budgets = { ...current.budgets };
+  if (cap === null || !(cap > 0)) delete budgets[brandId];
+  else budgets[brandId] = cap;
+  setState({ ...current, budgets });
+};
+
+export const assertWithinBudget = (brandId?: string) => {
+  if (!brandId) return;
+  const cap = getUsageState().budgets[brandId];
+  if (cap === undefined) return;
+  const spent = getBrandSpend(brandId);
+  if (spent >= cap) {
+    throw new GenerationError('budget', `Budget cap of $${cap.toFixed(2)} reached ($${spent.toFixed(2)} spent)`);
+  }
+};
+
+// --- SETTINGS ---
+
+export const setModelPrice = (model: string, price: ModelPrice) => {
+  const current = getUsageState();
+  setState({ ...current, prices: { ...current.prices, [model]: price } });
+};
+
+export const resetPrices = () => setState({ ...getUsageState(), prices: { ...DEFAULT_PRICES } });
+
+// Clear the ledger for one brand, or for everything
+export const clearUsage = (brandId?: string) => {
+  const current = getUsageState();
+  setState({ ...current, records: brandId ? current.records.filter(r => r.brandId !== brandId) : [] });
+};
+
+// --- REPORTING ---
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number;
+}
+
+export const summarizeUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  for (const r of records) {
+    const key = keyOf(r);
+    const row = groups.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, images: 0, videoSeconds: 0, cost: 0 };
+    row.calls += r.calls ?? 1;
+    row.inputTokens += r.inputTokens;
+    row.outputTokens += r.outputTokens;
+    row.images += r.images;
+    row.videoSeconds += r.videoSeconds;
+    row.cost += r.cost;
+    groups.set(key, row);
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+};
+
+// --- PROVIDER WRAPPER ---
+
+// Check the budget before each call and record it once it succeeds.
+// Video polls are free; a render is billed when it starts.
+export const withUsageTracking = (provider: GenerationProvider): GenerationProvider => ({
+  ...provider,
+  generateText: async (request) => {
+    assertWithinBudget(request.brandId);
+    const response = await provider.generateText(request);
+    recordUsage({
+      brandId: request.brandId || null, action: request.action, model: request.model, providerId: provider.id,
+      inputTokens: response.usage?.inputTokens || 0, outputTokens: response.usage?.outputTokens || 0, images: 0, videoSeconds: 0
+    });
+    return response;
+  },
+  generateImage: async (request) => {
+    assertWithinBudget(request.brandId);
+    const response = await provider.generateImage(request);
+    recordUsage({
+      brandId: request.brandId || null, action: request.action, model: request.model, providerId: provider.id,
+      inputTokens: response.usage?.inputTokens || 0, outputTokens: response.usage?.outputTokens || 0, images: response.images.length, videoSeconds: 0
+    });
+    return response;
+  },
+  startVideo: async (request) => {
+    assertWithinBudget(request.brandId);
+    const operation = await provider.startVideo(request);
+    recordUsage({
+      brandId: request.brandId || null, action: request.action, model: request.model, providerId: provider.id,
+      inputTokens: 0, outputTokens: 0, images: 0,
+      videoSeconds: (request.config.durationSeconds || DEFAULT_VIDEO_SECONDS) * (request.config.numberOfVideos || 1)
+    });
+    return operation;
+  }
+});
@@ -0,0 +1,218 @@
+import { getProvider, GenerationAction, ProviderId, VideoOperation, VideoRequest } from "./providers";
+import { GenerationContext } from "./generationContext";
+import { GenerationError, isAbortError } from "./errors";
+
+// --- LONG-RUNNING VIDEO OPERATIONS ---
+//
+// Every Veo render (real-world preview, visualization, ad video) goes through
+// runVideoOperation: one polling loop with backoff, a hard timeout, AbortSignal
+// cancellation, and a pending list in localStorage so renders that are still
+// in flight can be resumed after a reload.
+
+const PENDING_STORAGE_KEY = 'brand-forge:pending-video-operations';
+
+export interface VideoPollingConfig {
+  timeoutMs: number;       // Give up this long after the operation started
+  initialDelayMs: number;  // Wait before the first poll
+  maxDelayMs: number;      // Upper bound for the backoff delay
+  backoffFactor: number;   // Delay multiplier applied after each poll
+}
+
+export const DEFAULT_VIDEO_POLLING: VideoPollingConfig = {
+  timeoutMs: 5 * 60 * 1000,
+  initialDelayMs: 5000,
+  maxDelayMs: 20000,
+  backoffFactor: 1.5
+};
+
+export type VideoProgressStatus = 'started' | 'rendering' | 'done' | 'cancelled' | 'timed-out' | 'failed';
+
+export interface VideoProgress {
+  operationName: string;
+  action: GenerationAction;
+  label: string;
+  status: VideoProgressStatus;
+  polls: number;
+  elapsedMs: number;
+  message: string;
+}
+
+export interface VideoOperationOptions extends Partial<VideoPollingConfig>, GenerationContext {
+  signal?: AbortSignal;
+  onProgress?: (progress: VideoProgress) => void;
+  label?: string;                 // Human-readable name shown in progress messages
+  meta?: Record<string, string>;  // Saved with the pending entry, e.g. which brand the result belongs to
+}
+
+export interface PendingVideoOperation {
+  name: string;
+  action: GenerationAction;
+  label: string;
+  providerId: ProviderId;
+  startedAt: number;
+  meta?: Record<string, string>;
+}
+
+// --- PENDING OPERATIONS ---
+
+export const listPendingVideoOperations = (): PendingVideoOperation[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writePending = (pending: PendingVideoOperation[]) => {
+  try {
+    localStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+  } catch (e) {
+    console.warn('🎞️ [VIDEO OPS] Could not persist pending operations', e);
+  }
+};
+
+const addPending = (entry: PendingVideoOperation) =>
+  writePending([...listPendingVideoOperations().filter(p => p.name !== entry.name), entry]);
+
+export const removePendingVideoOperation = (name: string) =>
+  writePending(listPendingVideoOperations().filter(p => p.name !== name));
+
+// --- HELPERS ---
+
+const formatElapsed = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+const abortError = () => new DOMException('Video generation cancelled', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// RAI filtering is reported as a safety error with every filter reason attached
+const failureFor = (operation: VideoOperation, label: string): GenerationError => {
+  const raiReasons = operation.raiMediaFilteredReasons;
+  if (raiReasons && raiReasons.length > 0) {
+    return new GenerationError('safety', `Content filtered: ${raiReasons[0]}`, { details: raiReasons });
+  }
+  const errorMsg = operation.errorMessage || 'Unknown error - no video generated';
+  return new GenerationError('no-video', `${label} failed: ${errorMsg}`);
+};
+
+// --- POLLING ---
+
+const pollUntilDone = async (
+  initial: VideoOperation,
+  pending: PendingVideoOperation,
+  options: VideoOperationOptions
+): Promise<string> => {
+  const provider = getProvider();
+  const config = { ...DEFAULT_VIDEO_POLLING, ...options };
+  const { signal, onProgress } = options;
+  const { label, action } = pending;
+
+  let operation = initial;
+  let polls = 0;
+  let delayMs = config.initialDelayMs;
+
+  const report = (status: VideoProgressStatus, message: string) => {
+    const progress: VideoProgress = {
+      operationName: operation.name,
+      action,
+      label,
+      status,
+      polls,
+      elapsedMs: Date.now() - pending.startedAt,
+      message
+    };
+    onProgress?.(progress);
+  };
+
+  try {
+    while (!operation.done) {
+      const elapsed = Date.now() - pending.startedAt;
+      if (elapsed >= config.timeoutMs) {
+        console.error(`❌ [VIDEO OPS] ${label} timed out after ${formatElapsed(elapsed)}`);
+        report('timed-out', `Timed out after ${formatElapsed(elapsed)}`);
+        throw new GenerationError('timeout', `${label} timed out after ${formatElapsed(elapsed)}`);
+      }
+
+      await sleep(Math.min(delayMs, config.timeoutMs - elapsed), signal);
+      operation = await provider.getVideoOperation(operation);
+      polls++;
+      delayMs = Math.min(delayMs * config.backoffFactor, config.maxDelayMs);
+
+      console.log(`🎞️ [VIDEO OPS] ${label} poll ${polls}: ${operation.done ? 'COMPLETE' : 'In progress...'}`);
+      report('rendering', `Rendering video... (${formatElapsed(Date.now() - pending.startedAt)})`);
+    }
+  } catch (e) {
+    if (isAbortError(e)) {
+      console.log(`🛑 [VIDEO OPS] ${label} cancelled by user`);
+      report('cancelled', 'Cancelled');
+    }
+    throw e;
+  } finally {
+    // Only a closed page leaves the entry behind to be resumed
+    removePendingVideoOperation(pending.name);
+  }
+
+  if (!operation.videoUri) {
+    console.error(`❌ [VIDEO OPS] ${label}: no video URI in response`, operation.raw ?? operation);
+    report('failed', 'No video returned');
+    throw failureFor(operation, label);
+  }
+
+  const url = await provider.resolveVideoUrl(operation.videoUri);
+  console.log(`✅ [VIDEO OPS] ${label} ready:`, operation.videoUri);
+  report('done', 'Video ready!');
+  return url;
+};
+
+// Start a render and wait for the playable video URL
+export const runVideoOperation = async (request: VideoRequest, options: VideoOperationOptions = {}): Promise<string> => {
+  if (options.signal?.aborted) throw abortError();
+  const provider = getProvider();
+  const label = options.label || 'Video generation';
+
+  const brandId = request.brandId ?? options.brandId;
+  const operation = await provider.startVideo({ ...request, brandId });
+  const pending: PendingVideoOperation = {
+    name: operation.name,
+    action: request.action,
+    label,
+    providerId: provider.id,
+    startedAt: Date.now(),
+    meta: brandId ? { brandId, ...options.meta } : options.meta
+  };
+  if (!operation.done) addPending(pending);
+
+  console.log(`🎞️ [VIDEO OPS] ${label} started: ${operation.name}`);
+  options.onProgress?.({
+    operationName: operation.name,
+    action: request.action,
+    label,
+    status: 'started',
+    polls: 0,
+    elapsedMs: 0,
+    message: 'Video render started...'
+  });
+
+  return pollUntilDone(operation, pending, options);
+};
+
+// Pick up a render saved by runVideoOperation before the page was reloaded
+export const resumeVideoOperation = async (pending: PendingVideoOperation, options: VideoOperationOptions = {}): Promise<string> => {
+  if (pending.providerId !== getProvider().id) {
+    removePendingVideoOperation(pending.name);
+    throw new Error(`${pending.label} was started with the ${pending.providerId} provider and cannot be resumed`);
+  }
+  console.log(`🔁 [VIDEO OPS] Resuming ${pending.label}: ${pending.name}`);
+  return pollUntilDone({ name: pending.name, done: false }, pending, { ...options, label: pending.label });
+};
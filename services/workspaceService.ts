@@ -0,0 +1,67 @@
+import { AdSession, AssetType, BrandWorkspace, StudioSession, WorkspaceSettings, WorkspaceState } from "../types";
+
+// --- WORKSPACES ---
+
+export const createAdSession = (): AdSession => ({
+  messages: [],
+  storyboard: null,
+  editableScript: '',
+  videoUrl: null,
+  boardId: null
+});
+
+export const createStudioSession = (): StudioSession => ({
+  assetType: AssetType.MERCHANDISE,
+  subtype: '',
+  drafts: [],
+  inspirationWeights: {}
+});
+
+// No overrides: every role uses the registry defaults, every prompt the default template
+export const createWorkspaceSettings = (): WorkspaceSettings => ({
+  models: {},
+  modelTest: null,
+  templates: {},
+  subtypes: []
+});
+
+export const createWorkspace = (): BrandWorkspace => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    dna: null,
+    inspirations: [],
+    assets: [],
+    ads: createAdSession(),
+    studio: createStudioSession(),
+    settings: createWorkspaceSettings(),
+    dnaVersions: [],
+    moodBoards: [],
+    archived: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const getBrandLabel = (brand: BrandWorkspace) => brand.dna?.name || 'Untitled Brand';
+
+// Deep copy so the duplicate shares no object references with the original
+export const duplicateWorkspace = (brand: BrandWorkspace): BrandWorkspace => {
+  const copy: BrandWorkspace = structuredClone(brand);
+  const now = Date.now();
+  return {
+    ...copy,
+    id: crypto.randomUUID(),
+    dna: copy.dna ? { ...copy.dna, name: `${copy.dna.name} (Copy)` } : null,
+    archived: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const getActiveBrand = (state: WorkspaceState): BrandWorkspace | null =>
+  state.brands.find(b => b.id === state.activeBrandId) || null;
+
+// Pick the brand to show after the active one is archived or deleted
+export const pickFallbackBrandId = (brands: BrandWorkspace[], excludeId: string): string | null =>
+  brands.find(b => b.id !== excludeId && !b.archived)?.id || null;
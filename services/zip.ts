@@ -0,0 +1,152 @@
+// --- ZIP ---
+//
+// Just enough of the zip format for brand kits. Writing stores entries
+// uncompressed: kits are mostly PNG, JPEG and video, which don't compress
+// further. Reading also accepts deflated entries (archives re-zipped by other
+// tools) through the browser's DecompressionStream. No zip64, so archives and
+// entries stay under 4 GB.
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const SIGNATURE = { local: 0x04034b50, central: 0x02014b50, end: 0x06054b50 };
+const UTF8_FLAG = 0x0800;
+const METHOD = { store: 0, deflate: 8 };
+
+// MS-DOS time and date fields
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// --- WRITE ---
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, SIGNATURE.local, true);
+    local.setUint16(4, 20, true);              // Version needed
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, METHOD.store, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);              // Extra field length
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, SIGNATURE.central, true);
+    header.setUint16(4, 20, true);             // Version made by
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, METHOD.store, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);        // Local header offset
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, SIGNATURE.end, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+// --- READ ---
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Entries by path, read through the central directory
+export const readZip = async (data: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let endOffset = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xFFFF); i--) {
+    if (view.getUint32(i, true) === SIGNATURE.end) { endOffset = i; break; }
+  }
+  if (endOffset < 0) throw new ZipError('Not a zip archive');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let pointer = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pointer, true) !== SIGNATURE.central) throw new ZipError('Corrupt zip central directory');
+    const method = view.getUint16(pointer + 10, true);
+    const crc = view.getUint32(pointer + 16, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const path = decoder.decode(data.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue; // Directory
+    if (view.getUint32(localOffset, true) !== SIGNATURE.local) throw new ZipError(`Corrupt zip entry: ${path}`);
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+
+    let content: Uint8Array;
+    if (method === METHOD.store) content = raw;
+    else if (method === METHOD.deflate) content = await inflateRaw(raw);
+    else throw new ZipError(`Unsupported compression in ${path}`);
+
+    if (crc32(content) !== crc) throw new ZipError(`Checksum mismatch in ${path}`);
+    entries.set(path, content);
+  }
+  return entries;
+};
@@ -15,24 +15,114 @@ export interface BrandDNA {
   designSystem: string;
   keywords: string[];
   logoImage?: string; // Base64 string of the logo
+  colorRoles: ColorRoles; // What each palette color is for; prompts name colors by role
+  editedFields?: DNAField[]; // Changed by hand; a full regeneration keeps them
+}
+
+// What a palette color is used for in generated designs
+export type ColorRole = 'primary' | 'secondary' | 'accent' | 'background' | 'text' | 'neutral';
+
+export interface RoleColor {
+  hex: string;    // One of BrandDNA.colors
+  usage?: number; // Rough share of a design in percent, e.g. 60/30/10
+}
+
+// Roles without a color are left out; one color can fill several roles
+export type ColorRoles = Partial<Record<ColorRole, RoleColor>>;
+
+// Generated fields of a BrandDNA that can be edited and regenerated one at a time
+export type DNAField = 'colors' | 'colorRoles' | 'typography' | 'visualEssence' | 'designSystem' | 'keywords';
+
+// A saved state of a brand's DNA. Every change adds one; the last is current.
+export interface DNAVersion {
+  version: number; // 1-based, in order of saving
+  dna: BrandDNA;
+  note: string;    // What changed and why, editable later
+  createdAt: number;
 }
 
 export interface Inspiration {
   id: string;
   imageUrl: string; // Base64
   description: string;
-  extractedCues: string[]; // Cues extracted by Gemini
+  extractedCues: string[]; // Cues extracted by Gemini, editable
+  pinnedCues: string[];    // Subset of extractedCues that always goes first into prompts
+  tags: string[];          // Free-form, lowercase
+  imageHash?: string;      // Perceptual hash of imageUrl, see imageHash.ts
 }
 
+// A named collection of inspirations, e.g. "Summer drop"
+export interface MoodBoard {
+  id: string;
+  name: string;
+  inspirationIds: string[];
+  createdAt: number;
+}
+
+// How strongly an inspiration steers a Studio run
+export type InspirationWeight = 'strong' | 'subtle' | 'off';
+
 export interface GeneratedAsset {
   id: string;
   type: AssetType;
-  subtype: string;
+  subtype: string; // Item name when it was made
+  subtypeId?: string; // AssetSubtype.id, so a renamed custom item still finds its assets
   url: string;
   promptUsed: string;
   createdAt: number;
   isDraft: boolean;
   baseImage?: string; // If this was edited from another image
+  videoUrl?: string; // Veo visualization of the asset, if one was rendered
+  model?: string; // Model id that rendered the final image
+  templates?: TemplateRef[]; // Prompt template versions behind the draft it was finalized from
+  provenance?: Provenance; // How it was made, step by step
+  dnaVersion?: number; // DNAVersion it was drafted under
+  imageHash?: string; // Perceptual hash of url, see imageHash.ts
+}
+
+// --- ASSET CATALOG ---
+
+// Where the real-world preview video is set; each has a preview.<scene> template
+export type PreviewScene = 'apparel' | 'headwear' | 'bag' | 'poster' | 'billboard' | 'generic';
+
+// One item the Studio can make, e.g. "Hoodie". Built-ins live in assetCatalog.ts.
+export interface AssetSubtype {
+  id: string;
+  name: string;          // What drafts, assets and provenance record as their subtype
+  category: AssetType;
+  description: string;   // Exact product description sent with the prompt
+  aspectRatio?: string;  // Drafts and final; blank = the Draft images default in Settings
+  imageSize?: string;    // Final output; blank = the Final images default in Settings
+  previewScene: PreviewScene;
+}
+
+// --- PROVENANCE ---
+
+export type ProvenanceStepKind = 'draft' | 'edit' | 'finalize';
+
+// One generation call on the way from draft to final asset
+export interface ProvenanceStep {
+  kind: ProvenanceStepKind;
+  prompt: string;     // Full text sent to the model
+  model: string;
+  imageUrl: string;   // What this step produced
+  createdAt: number;
+  variation?: string;         // Draft: creative direction
+  templates?: TemplateRef[];  // Draft: prompt template versions
+  instruction?: string;       // Edit: what the user asked for
+  maskUrl?: string;           // Edit: the annotated image sent instead of the plain one
+}
+
+export interface Provenance {
+  draftId: string;          // The Studio draft it grew from
+  assetType: AssetType;
+  subtype: string;
+  subtypeId?: string;
+  dna: BrandDNA;            // Snapshot taken when the draft was generated
+  dnaVersion?: number;      // Which saved version that snapshot was
+  inspirationIds: string[];
+  inspirationWeights?: Record<string, InspirationWeight>; // By inspirationIds entry; missing on records from before weighting
+  steps: ProvenanceStep[];  // One draft step, any edits, then finalize
 }
 
 export interface BrandState {
@@ -41,6 +131,131 @@ export interface BrandState {
   assets: GeneratedAsset[];
 }
 
+export interface AdMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+export interface AdKeyframe {
+  url: string;
+  description: string;
+}
+
+export interface AdStoryboard {
+  concept: string;
+  voiceoverScript: string;
+  keyframes: AdKeyframe[];
+}
+
+export interface AdSession {
+  messages: AdMessage[];
+  storyboard: AdStoryboard | null;
+  editableScript: string;
+  videoUrl: string | null;
+  boardId: string | null; // Mood board steering the ad's look
+}
+
+export interface StudioDraft {
+  id: string;
+  url: string;
+  previewVideoUrl?: string; // Real-world preview rendered from this draft
+  variation?: string; // Creative direction, e.g. 'Minimal'
+  model?: string; // Model id that rendered the draft
+  templates?: TemplateRef[]; // Prompt template versions that produced it
+  provenance?: Provenance; // Steps up to the current version; handed to the asset on finalize
+  versions?: DraftVersion[]; // Edit history, oldest first
+  currentVersionId?: string; // The version shown, edited and finalized
+}
+
+// One node in a draft's edit history. Edits apply to the current version, so
+// editing an earlier one starts a branch instead of discarding later work.
+export interface DraftVersion {
+  id: string;
+  parentId: string | null; // null for the generated draft
+  step: ProvenanceStep;
+}
+
+// Drafts in progress in the Studio. Kept on the workspace so generations that
+// finish after a tab switch still have somewhere to land.
+export interface StudioSession {
+  assetType: AssetType;
+  subtype: string;
+  subtypeId?: string;
+  drafts: StudioDraft[];
+  inspirationWeights: Record<string, InspirationWeight>; // Choices for the next run, by inspiration id
+}
+
+// --- MODELS ---
+
+// What a model is used for. Generation code asks for a role, never a model id.
+export type ModelRole = 'reasoning' | 'draftImage' | 'finalImage' | 'video';
+
+export interface ModelRoleConfig {
+  model: string;
+  imageSize?: string;   // Image roles, e.g. '512' or '2K'
+  aspectRatio?: string; // e.g. '1:1' or '16:9'
+  resolution?: string;  // Video role, e.g. '720p'
+}
+
+export type ModelRegistry = Record<ModelRole, ModelRoleConfig>;
+
+export type ModelOverrides = Partial<Record<ModelRole, Partial<ModelRoleConfig>>>;
+
+// Splits one role's calls between its configured model (A) and a candidate (B)
+export interface ModelABTest {
+  role: ModelRole;
+  candidate: string;
+}
+
+// --- PROMPT TEMPLATES ---
+
+// Which version of a prompt template went into a result
+export interface TemplateRef {
+  id: string;
+  source: 'default' | 'brand';
+  version: number;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: number;
+}
+
+// A brand's edits to one template. Every save is kept as a new version.
+export interface PromptTemplateOverride {
+  versions: PromptTemplateVersion[];
+  active: boolean; // Use the latest version instead of the default
+}
+
+export interface WorkspaceSettings {
+  models: ModelOverrides;
+  modelTest: ModelABTest | null;
+  templates: Record<string, PromptTemplateOverride>; // By template id
+  subtypes: AssetSubtype[]; // The brand's own Studio items, next to the built-in catalog
+}
+
+// One client brand. Everything a brand owns lives here so switching brands
+// can never mix one brand's DNA, logo or cues into another's generations.
+export interface BrandWorkspace extends BrandState {
+  id: string;
+  ads: AdSession;
+  studio: StudioSession;
+  settings: WorkspaceSettings;
+  dnaVersions: DNAVersion[]; // Oldest first; `dna` is the last one's
+  moodBoards: MoodBoard[];
+  archived: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WorkspaceState {
+  brands: BrandWorkspace[];
+  activeBrandId: string | null;
+}
+
 declare global {
   interface AIStudio {
     hasSelectedApiKey: () => Promise<boolean>;
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.IMAGE_PROXY_URL': JSON.stringify(env.IMAGE_PROXY_URL)
       },
       resolve: {
         alias: {